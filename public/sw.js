@@ -0,0 +1,74 @@
+/**
+ * Diamond Quest service worker
+ *
+ * Precaches the app shell and the rules and solutions PDFs listed in
+ * precache-manifest.js (written at build time by the plugin in
+ * vite.config.ts) so the game keeps working without a network. Challenges
+ * are drawn as cards from their data (see ChallengeCard), so there is no
+ * challenges PDF to cache any more. Page loads try the network first so a
+ * new build is picked up when online; everything else is served from the
+ * cache first.
+ */
+
+importScripts("precache-manifest.js");
+
+const CACHE_PREFIX = "diamond-quest-";
+const { version, urls } = self.__PRECACHE_MANIFEST__;
+const CACHE_NAME = `${CACHE_PREFIX}${version}`;
+const APP_SHELL_URL = new URL("index.html", self.location).href;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.addAll(urls))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  // Drop caches left by earlier builds
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter(
+              (name) => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME,
+            )
+            .map((name) => caches.delete(name)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (
+    request.method !== "GET" ||
+    new URL(request.url).origin !== self.location.origin
+  ) {
+    return;
+  }
+
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request).catch(() =>
+        caches
+          .open(CACHE_NAME)
+          .then((cache) => cache.match(APP_SHELL_URL))
+          .then((response) => response || Response.error()),
+      ),
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.match(request))
+      .then((cached) => cached || fetch(request)),
+  );
+});
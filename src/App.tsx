@@ -1,15 +1,132 @@
-import React, { useState, useRef } from "react";
+import React, { useState, useRef, useReducer } from "react";
 import { Canvas, useThree } from "@react-three/fiber";
 import "./App.css";
+import { CHALLENGES, getChallengeById, loadChallenge } from "./challenges";
 import { createInitialGameState } from "./gameStateUtils";
-import { GameState } from "./types";
+import {
+  getGeneratedChallenge,
+  getGeneratedChallengeId,
+  parseGeneratedChallengeId,
+} from "./generator";
+import {
+  DailyResults,
+  getDailyChallengeById,
+  getDailyChallengeId,
+  getDailyStreak,
+  getDateKey,
+  parseDailyChallengeId,
+  parseDailyResults,
+  recordDailyResult,
+} from "./daily";
+import { isChallengeSolved } from "./rules";
+import {
+  BoardCodecError,
+  createShareHash,
+  createSharedChallenge,
+  decodeBoard,
+  parseShareHash,
+  sharedBoardToGameState,
+} from "./boardCodec";
+import { mergeSnapshot } from "./history";
+import { RESET_STAGGER } from "./animation";
+import { Solution, createSolverPuzzle } from "./solver";
+import { solveInWorker } from "./solverClient";
+import {
+  Hint,
+  HintUsage,
+  getNextHint,
+  isHintResolved,
+  recordHintUsed,
+} from "./hints";
+import {
+  BoardStorage,
+  SavedBoard,
+  countPlacedPieces,
+  createBoardStorage,
+  createSavedBoard,
+  restoreSavedBoard,
+} from "./boardStorage";
+import {
+  GameAction,
+  GameStoreAction,
+  createGameStore,
+  gameReducer,
+  gameStoreReducer,
+  selectBoardPieces,
+  selectCanRedo,
+  selectCanUndo,
+  selectDropViolations,
+  selectIsStagingDrop,
+  selectPlacementViolations,
+  selectSwapSlot,
+} from "./gameStore";
+import {
+  IDLE_CURSOR,
+  KeyboardCursor,
+  handleBoardKey,
+} from "./keyboardControls";
+import { createSession, sessionReducer } from "./session";
+import { deduceCandidates } from "./deduction";
+import {
+  Replay,
+  ReplayLog,
+  ReplayPlayback,
+  createReplayLog,
+  exportReplayJson,
+  finishReplay,
+  parseReplayFile,
+  recordReplayAction,
+  seekPlayback,
+  startPlayback,
+} from "./replay";
+import {
+  SESSION_RECORDS_KEY,
+  SessionRecord,
+  appendSessionRecord,
+  createSessionRecord,
+  exportRecordsCsv,
+  exportRecordsJson,
+  parseSessionRecords,
+  storeSessionRecords,
+} from "./stats";
+import { LONG_PRESS_MS, PendingPickup, decidePickup } from "./touchGestures";
+import {
+  BLANK_CHALLENGE,
+  DraftCheck,
+  EMPTY_DRAFT,
+  EditorDraft,
+  createChallengePuzzle,
+  createDraftChallenge,
+  createDraftPuzzle,
+  describeSolutionCount,
+  exportChallengePack,
+  getDraftKey,
+  getDraftProblem,
+  getImportProblem,
+  mergeChallenges,
+  parseChallengePack,
+} from "./levelEditor";
 import { GameBoard } from "./components/GameBoard";
 import { StagingArea } from "./components/StagingArea";
 import { CameraSetup } from "./components/CameraSetup";
 import { DiamondPiece } from "./components/DiamondPiece";
+import { GemInstances } from "./components/GemInstances";
 import { ResetButton } from "./components/ResetButton";
 import { PDFButtons } from "./components/PDFButtons";
 import { ChallengeViewer } from "./components/ChallengeViewer";
+import { CompletionOverlay } from "./components/CompletionOverlay";
+import { HintButton } from "./components/HintButton";
+import { UndoRedoButtons } from "./components/UndoRedoButtons";
+import { ResumePrompt } from "./components/ResumePrompt";
+import { ShareButton } from "./components/ShareButton";
+import { SwapModeToggle } from "./components/SwapModeToggle";
+import { StrictModeToggle } from "./components/StrictModeToggle";
+import { CandidatesToggle } from "./components/CandidatesToggle";
+import { CandidateMarks } from "./components/CandidateMarks";
+import { LevelEditor } from "./components/LevelEditor";
+import { StatsPanel } from "./components/StatsPanel";
+import { ReplayControls } from "./components/ReplayControls";
+import { Challenge, ChallengeDifficulty, GameState } from "./types";
 import * as THREE from "three";
 
 /**
@@ -17,24 +134,36 @@ import * as THREE from "three";
  *
  * Handles pointer move and pointer up events during drag operations.
  * Converts pointer events to raycasting for piece position updates.
+ * Listens on the window so a drag carries on when the pointer or finger
+ * leaves the canvas, and follows only the pointer that started the drag.
  *
  * Validates: Requirement 3.2 (Drag movement), 3.3-3.5 (Drop logic)
  */
 interface DragHandlerProps {
   isDragging: boolean;
+  /** Pointer that started the drag; null follows any pointer */
+  pointerId: number | null;
   onPointerMove: (x: number, y: number, camera: THREE.Camera) => void;
   onPointerUp: () => void;
+  /** Called when the browser takes the pointer away mid-drag */
+  onPointerCancel: () => void;
 }
 
 function DragHandler({
   isDragging,
+  pointerId,
   onPointerMove,
   onPointerUp,
+  onPointerCancel,
 }: DragHandlerProps) {
   const { camera, gl } = useThree();
 
+  // Ignore other pointers, e.g. a second finger while one holds a piece
+  const isDragPointer = (event: PointerEvent) =>
+    isDragging && (pointerId === null || event.pointerId === pointerId);
+
   const handlePointerMove = (event: PointerEvent) => {
-    if (!isDragging) return;
+    if (!isDragPointer(event)) return;
 
     // Convert pointer position to normalized device coordinates (-1 to +1)
     const rect = gl.domElement.getBoundingClientRect();
@@ -44,44 +173,897 @@ function DragHandler({
     onPointerMove(x, y, camera);
   };
 
-  const handlePointerUp = () => {
-    if (isDragging) {
+  const handlePointerUp = (event: PointerEvent) => {
+    if (isDragPointer(event)) {
       onPointerUp();
     }
   };
 
-  // Attach pointer move and pointer up listeners
+  const handlePointerCancel = (event: PointerEvent) => {
+    if (isDragPointer(event)) {
+      onPointerCancel();
+    }
+  };
+
+  // Attach pointer listeners to the window
   React.useEffect(() => {
-    const canvas = gl.domElement;
-    canvas.addEventListener("pointermove", handlePointerMove);
-    canvas.addEventListener("pointerup", handlePointerUp);
+    window.addEventListener("pointermove", handlePointerMove);
+    window.addEventListener("pointerup", handlePointerUp);
+    window.addEventListener("pointercancel", handlePointerCancel);
 
     return () => {
-      canvas.removeEventListener("pointermove", handlePointerMove);
-      canvas.removeEventListener("pointerup", handlePointerUp);
+      window.removeEventListener("pointermove", handlePointerMove);
+      window.removeEventListener("pointerup", handlePointerUp);
+      window.removeEventListener("pointercancel", handlePointerCancel);
     };
-  }, [isDragging, onPointerMove, onPointerUp, camera, gl]);
+  }, [
+    isDragging,
+    pointerId,
+    onPointerMove,
+    onPointerUp,
+    onPointerCancel,
+    camera,
+    gl,
+  ]);
 
   return null;
 }
 
+/**
+ * Reads the last played challenge ID from localStorage
+ * Falls back to the legacy 1-based level number, then to the first challenge.
+ * A daily challenge from an earlier day gives way to today's, so results are
+ * only recorded for the current date.
+ *
+ * @param challenges - Every listed challenge, custom ones included
+ */
+function loadLastChallengeId(challenges: Challenge[]): string {
+  const savedId = localStorage.getItem("diamondQuest_lastChallenge");
+  if (
+    savedId &&
+    (challenges.some((c) => c.id === savedId) ||
+      parseGeneratedChallengeId(savedId))
+  ) {
+    return savedId;
+  }
+  if (savedId && parseDailyChallengeId(savedId)) {
+    return getDailyChallengeId(getDateKey(new Date()));
+  }
+
+  const savedLevel = localStorage.getItem("diamondQuest_lastLevel");
+  const legacy = savedLevel ? CHALLENGES[parseInt(savedLevel, 10) - 1] : null;
+  return legacy ? legacy.id : CHALLENGES[0].id;
+}
+
+/**
+ * Reads a shared board from the URL hash, if the page was opened from a link
+ * Boards tied to a catalogue challenge keep that challenge's rules; other
+ * boards become a one-off challenge of their own
+ *
+ * @returns The challenge and board to start with, the reason a link was
+ * rejected, or null when there is no link
+ */
+function loadSharedLink():
+  | { challenge: Challenge; state: GameState }
+  | { error: string }
+  | null {
+  const link = parseShareHash(window.location.hash);
+  if (!link) return null;
+
+  try {
+    const board = decodeBoard(link.code);
+    const challenge = link.challengeId
+      ? (getChallengeById(link.challengeId) ??
+        getGeneratedChallenge(link.challengeId) ??
+        getDailyChallengeById(link.challengeId))
+      : undefined;
+
+    if (challenge) {
+      return {
+        challenge,
+        state: mergeSnapshot(loadChallenge(challenge), board.placements),
+      };
+    }
+    return {
+      challenge: createSharedChallenge(board),
+      state: sharedBoardToGameState(board),
+    };
+  } catch (error) {
+    if (error instanceof BoardCodecError) {
+      return { error: error.message };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reads the per-challenge hint counts from localStorage
+ */
+function loadHintUsage(): HintUsage {
+  try {
+    return JSON.parse(localStorage.getItem("diamondQuest_hintsUsed") ?? "{}");
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Reads the daily challenge results from localStorage
+ */
+function loadDailyResults(): DailyResults {
+  try {
+    return parseDailyResults(
+      JSON.parse(localStorage.getItem("diamondQuest_dailyResults") ?? "{}"),
+    );
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Reads the records of solved sessions from localStorage
+ */
+function loadSessionRecords(): SessionRecord[] {
+  try {
+    return parseSessionRecords(
+      JSON.parse(localStorage.getItem(SESSION_RECORDS_KEY) ?? "[]"),
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Offers text to the player as a file download
+ *
+ * @param filename - Suggested file name
+ * @param type - MIME type of the text
+ * @param text - File contents
+ */
+function downloadText(filename: string, type: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Reads the custom challenges made in the level editor from localStorage
+ */
+function loadCustomChallenges(): Challenge[] {
+  const saved = localStorage.getItem("diamondQuest_customChallenges");
+  if (!saved) return [];
+
+  try {
+    return parseChallengePack(saved);
+  } catch (error) {
+    console.error("Error loading custom challenges:", error);
+    return [];
+  }
+}
+
 function App() {
-  // Initialize game state with all pieces in staging area and empty board
-  // Validates: Requirements 3, 5 (State management for interactions)
-  const [gameState, setGameState] = useState<GameState>(createInitialGameState);
+  // Custom challenges from the level editor, listed after the bundled ones
+  const [customChallenges, setCustomChallenges] =
+    useState<Challenge[]>(loadCustomChallenges);
+  const challenges = [...CHALLENGES, ...customChallenges];
 
-  // Challenge/level selection state
-  // Load last played level from localStorage if available
-  const [selectedLevel, setSelectedLevel] = useState<number>(() => {
-    const savedLevel = localStorage.getItem("diamondQuest_lastLevel");
-    return savedLevel ? parseInt(savedLevel, 10) : 1;
-  });
+  /**
+   * Looks up a challenge by ID: bundled, custom, or generated from a seed or
+   * a date
+   */
+  const findChallenge = (id: string): Challenge | undefined =>
+    challenges.find((c) => c.id === id) ??
+    getGeneratedChallenge(id) ??
+    getDailyChallengeById(id);
+
+  // Challenge selection state
+  // Load last played challenge from localStorage if available
+  const [selectedChallengeId, setSelectedChallengeId] = useState<string>(() =>
+    loadLastChallengeId(challenges),
+  );
+
+  // A board opened from a shared link is played under its own challenge
+  // until another challenge is picked; it is never saved
+  const [sharedLink] = useState(loadSharedLink);
+  const [sharedChallenge, setSharedChallenge] = useState<Challenge | null>(
+    () =>
+      sharedLink && "challenge" in sharedLink ? sharedLink.challenge : null,
+  );
+  const [shareMessage, setShareMessage] = useState<string | null>(() =>
+    sharedLink && "error" in sharedLink ? sharedLink.error : null,
+  );
+
+  const activeChallenge =
+    sharedChallenge ?? findChallenge(selectedChallengeId) ?? CHALLENGES[0];
+
+  // A generated or daily challenge is listed after the others while it is played
+  const listedChallenges = challenges.includes(activeChallenge)
+    ? challenges
+    : [...challenges, activeChallenge];
   const [showChallenges, setShowChallenges] = useState<boolean>(true);
 
-  // Persist selected level to localStorage whenever it changes
+  // Initialize game state with the active challenge's pre-placed pieces locked
+  // on the board and all other pieces in the staging area. All changes go
+  // through the game store, which also keeps the undo/redo history
+  // Validates: Requirements 3, 5 (State management for interactions)
+  const [store, dispatchStore] = useReducer(
+    gameStoreReducer,
+    activeChallenge,
+    (c) =>
+      createGameStore(
+        sharedLink && "state" in sharedLink
+          ? sharedLink.state
+          : loadChallenge(c),
+      ),
+  );
+  const gameState = store.game;
+
+  // The latest board, for async work that outlives the render it started in
+  const gameStateRef = useRef(gameState);
+  gameStateRef.current = gameState;
+
+  // Every board action of the current attempt, for its replay (see
+  // replay.ts), and the replay being watched, if any
+  const replayLogRef = useRef<ReplayLog>(createReplayLog(gameState));
+  const [playback, setPlayback] = useState<ReplayPlayback | null>(null);
+  const [solvedReplay, setSolvedReplay] = useState<Replay | null>(null);
+  const [replayMessage, setReplayMessage] = useState<string | null>(null);
+
+  // Progress on the active challenge: play time, moves, mistakes and hints
+  // (see session.ts); the session holds the result once the board is solved
+  const [session, trackSession] = useReducer(sessionReducer, 0, createSession);
+  const completion = session.status === "solved" ? session : null;
+  const [showCompletion, setShowCompletion] = useState<boolean>(false);
+
+  // Results of solved daily challenges, by date
+  const [dailyResults, setDailyResults] =
+    useState<DailyResults>(loadDailyResults);
+
+  // Records of every solved session, shown in the statistics panel
+  const [sessionRecords, setSessionRecords] =
+    useState<SessionRecord[]>(loadSessionRecords);
+  const [showStats, setShowStats] = useState<boolean>(false);
+  const today = getDateKey(new Date());
+
+  // Hint state: the hint on screen, a notice when no hint applies, hints used
+  // per challenge
+  const [hint, setHint] = useState<Hint | null>(null);
+  const [hintNotice, setHintNotice] = useState<string | null>(null);
+  const [isFindingHint, setIsFindingHint] = useState<boolean>(false);
+  const [hintUsage, setHintUsage] = useState<HintUsage>(loadHintUsage);
+
+  // Whether pieces returning to the staging area leave the board one after
+  // another, as they do right after a reset
+  const [staggerReturns, setStaggerReturns] = useState<boolean>(false);
+
+  // Swap mode: dropping a piece onto another on the board swaps the two
+  const [swapMode, setSwapMode] = useState<boolean>(
+    () => localStorage.getItem("diamondQuest_swapMode") === "true",
+  );
+
+  // Strict mode: drops that would break an adjacency rule are refused
+  const [strictMode, setStrictMode] = useState<boolean>(
+    () => localStorage.getItem("diamondQuest_strictMode") === "true",
+  );
+
+  // Deduction assistant: pencil marks of the gems each empty slot can take
+  const [showCandidates, setShowCandidates] = useState<boolean>(
+    () => localStorage.getItem("diamondQuest_showCandidates") === "true",
+  );
+
+  // Keyboard placement: the staged piece with focus, the piece picked up
+  // with Enter and the slot it would be dropped into
+  const [keyboardCursor, setKeyboardCursor] =
+    useState<KeyboardCursor>(IDLE_CURSOR);
+
+  // Saved boards: where they are stored, the challenge whose saved board has
+  // been checked (saving waits for this so a save is never overwritten
+  // before it is read), and the restored board awaiting Continue/Start over
+  const [boardStorage] = useState<BoardStorage>(createBoardStorage);
+  const [loadedChallengeId, setLoadedChallengeId] = useState<string | null>(
+    null,
+  );
+  const [resumeBoard, setResumeBoard] = useState<SavedBoard | null>(null);
+
+  // Level editor: whether the board is being used to author a challenge,
+  // what has been entered, the solver's verdict on the draft it was given
+  // (keyed by getDraftKey) and the result of the last save/export/import
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [editorDraft, setEditorDraft] = useState<EditorDraft>(EMPTY_DRAFT);
+  const [editorCheck, setEditorCheck] = useState<{
+    key: string;
+    check: DraftCheck;
+  } | null>(null);
+  const [isCheckingDraft, setIsCheckingDraft] = useState<boolean>(false);
+  const [editorMessage, setEditorMessage] = useState<string | null>(null);
+
+  /**
+   * Sends an action to the game store, recording it for the replay
+   * Nothing is recorded in the level editor
+   */
+  const dispatch = (action: GameStoreAction) => {
+    if (!isEditing) {
+      replayLogRef.current = recordReplayAction(
+        replayLogRef.current,
+        action,
+        gameState,
+        Date.now(),
+      );
+    }
+    dispatchStore(action);
+  };
+
+  // Solution of the active challenge, computed once by the solver worker
+  const solutionRef = useRef<{
+    challenge: Challenge;
+    solution: Solution | null;
+  } | null>(null);
+
+  // Persist hint usage to localStorage whenever it changes
+  React.useEffect(() => {
+    localStorage.setItem("diamondQuest_hintsUsed", JSON.stringify(hintUsage));
+  }, [hintUsage]);
+
+  // Persist daily results to localStorage whenever they change
   React.useEffect(() => {
-    localStorage.setItem("diamondQuest_lastLevel", selectedLevel.toString());
-  }, [selectedLevel]);
+    localStorage.setItem(
+      "diamondQuest_dailyResults",
+      JSON.stringify(dailyResults),
+    );
+  }, [dailyResults]);
+
+  // Persist session records to localStorage whenever they change, dropping
+  // older replays when it is full
+  React.useEffect(() => {
+    const stored = storeSessionRecords(localStorage, sessionRecords);
+    if (stored === sessionRecords) return;
+
+    if (stored) {
+      setSessionRecords(stored);
+      setReplayMessage("Storage is full, so older replays were removed.");
+    } else {
+      setReplayMessage("Storage is full, so your latest result was not saved.");
+    }
+  }, [sessionRecords]);
+
+  // Pause the session's clock while the page is hidden
+  React.useEffect(() => {
+    const handleVisibilityChange = () =>
+      trackSession({
+        type: "VISIBILITY",
+        hidden: document.hidden,
+        at: Date.now(),
+      });
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () =>
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, []);
+
+  // Drop the hint once the player (or the hint) has fixed its slot
+  React.useEffect(() => {
+    if (hint && isHintResolved(gameState, hint)) {
+      setHint(null);
+    }
+  }, [gameState, hint]);
+
+  // Persist the swap mode setting
+  React.useEffect(() => {
+    localStorage.setItem("diamondQuest_swapMode", String(swapMode));
+  }, [swapMode]);
+
+  // Persist the strict mode setting
+  React.useEffect(() => {
+    localStorage.setItem("diamondQuest_strictMode", String(strictMode));
+  }, [strictMode]);
+
+  // Persist the candidate marks setting
+  React.useEffect(() => {
+    localStorage.setItem("diamondQuest_showCandidates", String(showCandidates));
+  }, [showCandidates]);
+
+  // Persist custom challenges as a challenge pack
+  React.useEffect(() => {
+    localStorage.setItem(
+      "diamondQuest_customChallenges",
+      exportChallengePack(customChallenges),
+    );
+  }, [customChallenges]);
+
+  // Persist selected challenge to localStorage whenever it changes
+  React.useEffect(() => {
+    localStorage.setItem("diamondQuest_lastChallenge", selectedChallengeId);
+  }, [selectedChallengeId]);
+
+  // Clear a shared link from the address bar once it has been read, so a
+  // reload does not throw away the moves made since
+  React.useEffect(() => {
+    if (sharedLink) {
+      window.history.replaceState(
+        null,
+        "",
+        window.location.pathname + window.location.search,
+      );
+    }
+  }, [sharedLink]);
+
+  // Restore the saved board of each challenge as it is opened, and again
+  // when the level editor hands the board back
+  React.useEffect(() => {
+    let cancelled = false;
+    setLoadedChallengeId(null);
+    if (sharedChallenge || isEditing) return;
+
+    boardStorage
+      .load(activeChallenge.id)
+      .then((saved) => {
+        if (cancelled || !saved) return;
+        if (countPlacedPieces(saved, activeChallenge) === 0) return;
+
+        const restored = restoreSavedBoard(
+          loadChallenge(activeChallenge),
+          saved,
+        );
+        dispatchStore({ type: "LOAD", state: restored });
+        trackSession({ type: "RESTART", moves: saved.moves });
+        replayLogRef.current = createReplayLog(restored);
+        setResumeBoard(saved);
+      })
+      .catch((error) => console.error("Error loading saved board:", error))
+      .finally(() => {
+        if (!cancelled) setLoadedChallengeId(activeChallenge.id);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeChallenge, sharedChallenge, isEditing, boardStorage]);
+
+  // Save the board after every committed change until the challenge is solved
+  React.useEffect(() => {
+    if (sharedChallenge || isEditing) return;
+    if (loadedChallengeId !== activeChallenge.id || completion) return;
+
+    boardStorage
+      .save(
+        createSavedBoard(activeChallenge.id, store.committed, session.moves),
+      )
+      .catch((error) => console.error("Error saving board:", error));
+  }, [
+    store.committed,
+    session.moves,
+    loadedChallengeId,
+    activeChallenge.id,
+    sharedChallenge,
+    isEditing,
+    completion,
+    boardStorage,
+  ]);
+
+  // Check the board against the challenge after every drop or placement
+  // Skipped mid-drag so a piece passing over slots cannot trigger a win
+  React.useEffect(() => {
+    if (completion || isEditing || gameState.draggedPiece !== null) return;
+
+    if (isChallengeSolved(gameState, activeChallenge)) {
+      const solve = {
+        type: "SOLVE",
+        state: gameState,
+        at: Date.now(),
+      } as const;
+      const solved = sessionReducer(session, solve);
+      trackSession(solve);
+      setShowCompletion(true);
+
+      const replay = finishReplay(
+        replayLogRef.current,
+        activeChallenge,
+        solve.at,
+      );
+      setSolvedReplay(replay);
+
+      if (!sharedChallenge) {
+        setSessionRecords((records) =>
+          appendSessionRecord(
+            records,
+            createSessionRecord(activeChallenge, solved, solve.at, replay),
+          ),
+        );
+      }
+
+      // A daily challenge counts once per date, towards the streak
+      const dailyDate = parseDailyChallengeId(activeChallenge.id);
+      if (dailyDate && !sharedChallenge) {
+        setDailyResults((results) =>
+          recordDailyResult(results, {
+            date: dailyDate,
+            elapsedMs: solved.elapsedMs,
+            moves: solved.moves,
+            hints: solved.hints,
+          }),
+        );
+      }
+
+      // A solved board is no longer in progress
+      if (!sharedChallenge) {
+        boardStorage
+          .remove(activeChallenge.id)
+          .catch((error) =>
+            console.error("Error removing saved board:", error),
+          );
+      }
+    }
+  }, [
+    gameState,
+    activeChallenge,
+    completion,
+    session,
+    sharedChallenge,
+    isEditing,
+    boardStorage,
+  ]);
+
+  /**
+   * Switches to another challenge and sets up its board
+   *
+   * @param challengeId - ID of the challenge to load
+   */
+  const changeChallenge = (challengeId: string) => {
+    const challenge = findChallenge(challengeId);
+    if (!challenge) {
+      console.error("Invalid challenge ID");
+      return;
+    }
+
+    setSelectedChallengeId(challenge.id);
+    setSharedChallenge(null);
+    dispatch({ type: "LOAD", state: loadChallenge(challenge) });
+    setResumeBoard(null);
+    trackSession({ type: "RESTART" });
+    replayLogRef.current = createReplayLog();
+    setPlayback(null);
+    setShowCompletion(false);
+    setHint(null);
+    setHintNotice(null);
+    setKeyboardCursor(IDLE_CURSOR);
+  };
+
+  /**
+   * Discards the restored board and starts the active challenge afresh
+   * The empty board then replaces the old save
+   */
+  const startOver = () => {
+    dispatch({ type: "LOAD", state: loadChallenge(activeChallenge) });
+    setResumeBoard(null);
+    trackSession({ type: "RESTART" });
+    replayLogRef.current = createReplayLog();
+    setHint(null);
+    setHintNotice(null);
+  };
+
+  /**
+   * Starts a freshly generated challenge from a random seed
+   * The seed is part of the challenge ID, so the challenge can be shared
+   *
+   * @param difficulty - Tier to aim for, or any tier when omitted
+   */
+  const playGeneratedChallenge = (difficulty?: ChallengeDifficulty) => {
+    const seed = Math.floor(Math.random() * 1_000_000);
+    changeChallenge(getGeneratedChallengeId(seed, difficulty));
+  };
+
+  /**
+   * Starts today's daily challenge
+   */
+  const playDailyChallenge = () => {
+    changeChallenge(getDailyChallengeId(today));
+  };
+
+  /**
+   * Copies a link to the current board to the clipboard
+   * Boards of catalogue, generated and daily challenges carry the challenge
+   * ID so its rules apply
+   */
+  const shareBoard = async () => {
+    const challengeId =
+      getChallengeById(activeChallenge.id) ||
+      parseGeneratedChallengeId(activeChallenge.id) ||
+      parseDailyChallengeId(activeChallenge.id)
+        ? activeChallenge.id
+        : undefined;
+    const hash = createShareHash(gameState, challengeId);
+    const url = `${window.location.origin}${window.location.pathname}${hash}`;
+
+    try {
+      await navigator.clipboard.writeText(url);
+      setShareMessage("Link copied to the clipboard.");
+    } catch (error) {
+      console.error("Error copying link:", error);
+      setShareMessage(`Copy this link: ${url}`);
+    }
+  };
+
+  /**
+   * Opens the level editor on an empty board with every gem free
+   * The active challenge's board has been saved and comes back on exit
+   */
+  const enterEditor = () => {
+    if (gameState.draggedPiece) return;
+
+    setIsEditing(true);
+    setResumeBoard(null);
+    setShowCompletion(false);
+    setHint(null);
+    setHintNotice(null);
+    setKeyboardCursor(IDLE_CURSOR);
+    setEditorMessage(null);
+    dispatch({ type: "LOAD", state: createInitialGameState() });
+  };
+
+  /**
+   * Leaves the level editor and returns to the active challenge
+   * Its saved board is restored once the editor has closed
+   */
+  const exitEditor = () => {
+    if (gameState.draggedPiece) return;
+
+    setIsEditing(false);
+    setKeyboardCursor(IDLE_CURSOR);
+    trackSession({ type: "RESTART" });
+    replayLogRef.current = createReplayLog();
+    dispatch({ type: "LOAD", state: loadChallenge(activeChallenge) });
+  };
+
+  // The solver's verdict only counts while the draft it was given is
+  // unchanged
+  const draftKey = isEditing ? getDraftKey(gameState, editorDraft) : null;
+  const draftCheck =
+    editorCheck && editorCheck.key === draftKey ? editorCheck.check : null;
+
+  /**
+   * Checks in the solver worker that the draft's clues have exactly one
+   * solution
+   */
+  const checkEditorDraft = async () => {
+    if (isCheckingDraft || getDraftProblem(gameState, editorDraft)) return;
+
+    const key = getDraftKey(gameState, editorDraft);
+    setIsCheckingDraft(true);
+    try {
+      const result = await solveInWorker(
+        createDraftPuzzle(gameState, editorDraft),
+        { limit: 2 },
+      );
+      setEditorCheck({ key, check: describeSolutionCount(result.count) });
+    } catch (error) {
+      console.error("Error checking challenge:", error);
+    } finally {
+      setIsCheckingDraft(false);
+    }
+  };
+
+  /**
+   * Saves the checked draft as a custom challenge
+   */
+  const saveEditorDraft = () => {
+    if (draftCheck?.status !== "unique") return;
+
+    const challenge = createDraftChallenge(
+      gameState,
+      editorDraft,
+      challenges.map((c) => c.id),
+    );
+    setCustomChallenges((list) => [...list, challenge]);
+    setEditorDraft({ ...EMPTY_DRAFT, difficulty: editorDraft.difficulty });
+    setEditorMessage(`Saved "${challenge.name}" to the challenge list.`);
+  };
+
+  /**
+   * Downloads every custom challenge as a JSON challenge pack
+   */
+  const exportCustomChallenges = () => {
+    downloadText(
+      "diamond-quest-challenges.json",
+      "application/json",
+      exportChallengePack(customChallenges),
+    );
+  };
+
+  /**
+   * Adds the challenges in a JSON challenge pack to the custom challenges
+   * Challenges already imported are replaced by the pack's version. The
+   * solver worker checks each challenge first; a pack with a challenge that
+   * does not have exactly one solution is rejected as a whole.
+   */
+  const importCustomChallenges = async (file: File) => {
+    try {
+      const imported = parseChallengePack(await file.text());
+      for (const challenge of imported) {
+        const result = await solveInWorker(createChallengePuzzle(challenge), {
+          limit: 2,
+        });
+        const problem = getImportProblem(challenge, result.count);
+        if (problem) throw new Error(problem);
+      }
+      setCustomChallenges((list) => mergeChallenges(list, imported));
+      setEditorMessage(
+        `Imported ${imported.length} challenge${imported.length === 1 ? "" : "s"}.`,
+      );
+    } catch (error) {
+      console.error("Error importing challenges:", error);
+      setEditorMessage(
+        error instanceof Error ? error.message : "Could not import that file.",
+      );
+    }
+  };
+
+  /**
+   * Returns the active challenge's solution, solving it on first use
+   * Only locked pieces are kept, so the player's mistakes do not matter
+   */
+  const getSolution = async (): Promise<Solution | null> => {
+    const cached = solutionRef.current;
+    if (cached && cached.challenge === activeChallenge) {
+      return cached.solution;
+    }
+
+    const puzzle = createSolverPuzzle(gameState, activeChallenge, "locked");
+    const result = await solveInWorker(puzzle, { limit: 1 });
+    const solution = result.solutions[0] ?? null;
+    solutionRef.current = { challenge: activeChallenge, solution };
+    return solution;
+  };
+
+  /**
+   * Shows the next hint, escalating for the same slot
+   * Level 3 hints move the piece into its slot
+   */
+  const requestHint = async () => {
+    if (isFindingHint || gameState.draggedPiece) return;
+
+    setIsFindingHint(true);
+    try {
+      const solution = await getSolution();
+      if (!solution) {
+        setHint(null);
+        setHintNotice("This challenge has no solution.");
+        return;
+      }
+
+      // The player may have moved a gem while the solver ran
+      const current = gameStateRef.current;
+      if (current.draggedPiece) return;
+
+      const next = getNextHint(current, solution, hint);
+      if (!next) {
+        setHint(null);
+        setHintNotice("The board already matches the solution.");
+        return;
+      }
+
+      setHint(next);
+      setHintNotice(null);
+      setHintUsage((usage) => recordHintUsed(usage, activeChallenge.id));
+      trackSession({ type: "HINT" });
+
+      // A level 3 hint places the piece; its animation eases it there
+      if (next.level === 3) {
+        dispatch({ type: "APPLY_HINT", hint: next });
+      }
+    } catch (error) {
+      console.error("Error finding hint:", error);
+    } finally {
+      setIsFindingHint(false);
+    }
+  };
+
+  /**
+   * Undoes the last board action
+   * Ignored while a replay is shown
+   */
+  const undoMove = () => {
+    if (!playback) dispatch({ type: "UNDO" });
+  };
+
+  /**
+   * Redoes the last undone board action
+   */
+  const redoMove = () => {
+    if (!playback) dispatch({ type: "REDO" });
+  };
+
+  // Keyboard shortcuts: Ctrl+Z to undo, Ctrl+Shift+Z to redo (Cmd on macOS)
+  React.useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (
+        !(event.ctrlKey || event.metaKey) ||
+        event.key.toLowerCase() !== "z"
+      ) {
+        return;
+      }
+
+      // Leave text fields and dropdowns their own undo behaviour
+      const target = event.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select")) return;
+
+      event.preventDefault();
+      if (event.shiftKey) {
+        redoMove();
+      } else {
+        undoMove();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  /**
+   * Advances to the challenge after the active one, if there is one
+   */
+  const activeIndex = listedChallenges.indexOf(activeChallenge);
+  const nextChallenge =
+    activeIndex >= 0 ? (listedChallenges[activeIndex + 1] ?? null) : null;
+  const goToNextChallenge = nextChallenge
+    ? () => changeChallenge(nextChallenge.id)
+    : undefined;
+
+  /**
+   * Shows a replay on the board in place of the game
+   * The game is left as it is and comes back when the replay is closed.
+   * A replay of a challenge unknown here plays on a board without clues.
+   */
+  const watchReplay = (replay: Replay) => {
+    if (gameState.draggedPiece) return;
+
+    setPlayback(
+      startPlayback(replay, findChallenge(replay.challengeId) ?? null),
+    );
+    setShowStats(false);
+    setShowCompletion(false);
+    setHint(null);
+    setHintNotice(null);
+    setKeyboardCursor(IDLE_CURSOR);
+  };
+
+  /**
+   * Moves the replay being shown to a point in time
+   */
+  const seekReplay = (timeMs: number) => {
+    setPlayback((current) => current && seekPlayback(current, timeMs));
+  };
+
+  /**
+   * Downloads the replay being shown as JSON
+   */
+  const exportReplay = () => {
+    if (!playback) return;
+
+    downloadText(
+      `diamond-quest-replay-${playback.replay.challengeId}.json`,
+      "application/json",
+      exportReplayJson(playback.replay),
+    );
+  };
+
+  /**
+   * Reads a replay file and starts watching it
+   */
+  const importReplay = async (file: File) => {
+    try {
+      const replay = parseReplayFile(await file.text());
+      setReplayMessage(null);
+      watchReplay(replay);
+    } catch (error) {
+      console.error("Error importing replay:", error);
+      setReplayMessage(
+        error instanceof Error ? error.message : "Could not import that file.",
+      );
+    }
+  };
 
   // Ref to track the drag plane for raycasting
   const dragPlaneRef = useRef<THREE.Plane>(
@@ -91,6 +1073,12 @@ function App() {
   // Ref to prevent immediate re-drag after drop
   const justDroppedRef = useRef<boolean>(false);
 
+  // Touch input: the finger waiting to pick up a piece (see touchGestures.ts),
+  // the fingers on the screen, and the pointer driving the current drag
+  const pendingPickupRef = useRef<PendingPickup | null>(null);
+  const touchPointersRef = useRef<Set<number>>(new Set());
+  const [dragPointerId, setDragPointerId] = useState<number | null>(null);
+
   /**
    * Updates the position of the dragged piece during drag operation
    * Uses raycasting onto horizontal plane at board height
@@ -114,72 +1102,33 @@ function App() {
 
     // Raycast onto horizontal plane at board height (y = 0)
     const intersectionPoint = new THREE.Vector3();
-    raycaster.ray.intersectPlane(dragPlaneRef.current, intersectionPoint);
-
-    if (intersectionPoint) {
-      // Update piece position to follow cursor
-      setGameState((prevState) => {
-        const updatedPieces = prevState.pieces.map((p) => {
-          if (p.id === prevState.draggedPiece) {
-            // Keep piece elevated (y = 1.0) during drag
-            return {
-              ...p,
-              position: new THREE.Vector3(
-                intersectionPoint.x,
-                1.0,
-                intersectionPoint.z,
-              ),
-            };
-          }
-          return p;
-        });
-
-        // Detect hovered slot
-        const hoveredSlot = detectHoveredSlot(
-          intersectionPoint,
-          prevState.slots,
-        );
-
-        return {
-          ...prevState,
-          pieces: updatedPieces,
-          hoveredSlot: hoveredSlot ? hoveredSlot.id : null,
-        };
+    if (raycaster.ray.intersectPlane(dragPlaneRef.current, intersectionPoint)) {
+      dispatch({
+        type: "DRAG_MOVE",
+        x: intersectionPoint.x,
+        z: intersectionPoint.z,
       });
     }
   };
 
   /**
-   * Detects which slot (if any) is being hovered during drag
-   * Uses distance-based detection with a threshold (only x and z coordinates)
-   *
-   * @param position - Current cursor position on the plane
-   * @param slots - Array of board slots
-   * @returns The hovered slot or null
+   * Applies a move made by the player, counting it in the session
+   * Moves made in the level editor are not counted
    */
-  const detectHoveredSlot = (
-    position: THREE.Vector3,
-    slots: typeof gameState.slots,
-  ) => {
-    const hoverThreshold = 0.8; // Increased threshold for easier dropping
-
-    for (const slot of slots) {
-      // Only consider x and z coordinates for distance (ignore y)
-      const dx = position.x - slot.position.x;
-      const dz = position.z - slot.position.z;
-      const distance = Math.sqrt(dx * dx + dz * dz);
-
-      if (distance < hoverThreshold) {
-        return slot;
-      }
+  const playAction = (action: GameAction) => {
+    if (!isEditing) {
+      trackSession({
+        type: "ACTION",
+        action,
+        state: gameState,
+        at: Date.now(),
+      });
     }
-
-    return null;
+    dispatch(action);
   };
 
   /**
    * Places a piece on a board slot
-   * Updates both piece and slot state bidirectionally
    *
    * @param pieceId - ID of the piece to place
    * @param slotId - ID of the slot to place the piece in
@@ -187,314 +1136,445 @@ function App() {
    * Validates: Requirement 3.3 (Piece placement)
    */
   const placePiece = (pieceId: string, slotId: string) => {
-    setGameState((prevState) => {
-      // Find the piece and slot
-      const piece = prevState.pieces.find((p) => p.id === pieceId);
-      const slot = prevState.slots.find((s) => s.id === slotId);
-
-      // Validate piece and slot exist
-      if (!piece || !slot) {
-        console.error("Invalid piece or slot ID");
-        return prevState;
-      }
-
-      // Validate slot is not occupied (Requirement 3.5)
-      if (slot.occupied) {
-        console.error("Slot is already occupied");
-        return prevState;
-      }
-
-      // Update piece state
-      const updatedPieces = prevState.pieces.map((p) => {
-        if (p.id === pieceId) {
-          return {
-            ...p,
-            position: slot.position.clone(),
-            slotId: slotId,
-          };
-        }
-        return p;
-      });
-
-      // Update slot state
-      const updatedSlots = prevState.slots.map((s) => {
-        if (s.id === slotId) {
-          return {
-            ...s,
-            occupied: true,
-            pieceId: pieceId,
-          };
-        }
-        return s;
-      });
-
-      return {
-        ...prevState,
-        pieces: updatedPieces,
-        slots: updatedSlots,
-      };
-    });
+    playAction({ type: "PLACE", pieceId, slotId });
   };
 
   /**
    * Removes a piece from a board slot and returns it to staging area
-   * Clears the slot and resets piece position
    *
    * @param pieceId - ID of the piece to remove
    *
    * Validates: Requirement 3.6 (Remove piece from slot)
    */
   const removePiece = (pieceId: string) => {
-    setGameState((prevState) => {
-      // Find the piece
-      const piece = prevState.pieces.find((p) => p.id === pieceId);
-
-      if (!piece) {
-        console.error("Invalid piece ID");
-        return prevState;
-      }
-
-      // If piece is not on a slot, nothing to do
-      if (!piece.slotId) {
-        return prevState;
-      }
-
-      // Update piece state - return to staging position
-      const updatedPieces = prevState.pieces.map((p) => {
-        if (p.id === pieceId) {
-          return {
-            ...p,
-            position: p.stagingPosition.clone(),
-            slotId: null,
-          };
-        }
-        return p;
-      });
-
-      // Update slot state - clear the slot
-      const updatedSlots = prevState.slots.map((s) => {
-        if (s.pieceId === pieceId) {
-          return {
-            ...s,
-            occupied: false,
-            pieceId: null,
-          };
-        }
-        return s;
-      });
-
-      return {
-        ...prevState,
-        pieces: updatedPieces,
-        slots: updatedSlots,
-      };
-    });
+    playAction({ type: "REMOVE", pieceId });
   };
 
   /**
-   * Resets the entire board to initial state
-   * Removes all pieces from slots and returns them to staging area
+   * Resets the entire board to the active challenge's starting state
+   * Returns all free pieces to the staging area; pre-placed pieces stay locked.
+   * Outside the editor the reset board is loaded as a new game: the undo
+   * history, the session and the replay all start over with it, so undo
+   * cannot bring back a board the session and replay no longer track.
    *
    * Validates: Requirements 5.1-5.3 (Reset functionality)
    */
   const resetBoard = () => {
-    setGameState((prevState) => {
-      // Reset all pieces to staging positions
-      const resetPieces = prevState.pieces.map((piece) => ({
-        ...piece,
-        position: piece.stagingPosition.clone(),
-        slotId: null,
-      }));
-
-      // Clear all slots
-      const resetSlots = prevState.slots.map((slot) => ({
-        ...slot,
-        occupied: false,
-        pieceId: null,
-      }));
-
-      return {
-        ...prevState,
-        pieces: resetPieces,
-        slots: resetSlots,
-        draggedPiece: null,
-        hoveredSlot: null,
-        hoveredPiece: null,
-      };
-    });
+    setKeyboardCursor(IDLE_CURSOR);
+    setStaggerReturns(true);
+    if (isEditing) {
+      dispatch({ type: "RESET", challenge: BLANK_CHALLENGE });
+    } else {
+      dispatch({
+        type: "LOAD",
+        state: gameReducer(gameState, {
+          type: "RESET",
+          challenge: activeChallenge,
+        }),
+      });
+      trackSession({ type: "RESTART" });
+      replayLogRef.current = createReplayLog();
+    }
+    setTimeout(() => setStaggerReturns(false), 1000);
   };
 
   /**
    * Initiates a drag operation on a piece
-   * Sets draggedPiece state and clears slot if piece was on board
    *
    * @param pieceId - ID of the piece to start dragging
+   * @param event - Pointer event that picked the piece up, if any
    *
    * Validates: Requirements 3.1, 3.6 (Drag initiation)
    */
-  const startDrag = (pieceId: string) => {
+  const startDrag = (pieceId: string, event?: PointerEvent) => {
     // Removed immediate re-drag prevention for smoother Drag & Drop experience
     // if (justDroppedRef.current) { ... }
 
-    setGameState((prevState) => {
-      // Find the piece
-      const piece = prevState.pieces.find((p) => p.id === pieceId);
-
-      if (!piece) {
-        console.error("Invalid piece ID");
-        return prevState;
-      }
-
-      // Store original position for potential return on invalid drop
-      const originalPosition = piece.position.clone();
-
-      // If piece is on a slot, clear the slot (Requirement 3.6)
-      let updatedSlots = prevState.slots;
-      if (piece.slotId) {
-        updatedSlots = prevState.slots.map((s) => {
-          if (s.id === piece.slotId) {
-            return {
-              ...s,
-              occupied: false,
-              pieceId: null,
-            };
-          }
-          return s;
-        });
+    // Keep receiving the pointer's events if it leaves the canvas
+    if (event && event.target instanceof Element) {
+      try {
+        event.target.setPointerCapture(event.pointerId);
+      } catch {
+        // The pointer has already been released; the drop follows shortly
       }
+    }
+    setDragPointerId(event ? event.pointerId : null);
 
-      // Elevate piece (y += 1.0) for visual feedback
-      const updatedPieces = prevState.pieces.map((p) => {
-        if (p.id === pieceId) {
-          return {
-            ...p,
-            position: p.position.clone().setY(p.position.y + 1.0),
-            slotId: null, // Clear slot reference when dragging starts
-            // Store original position in a temporary property for drop validation
-            originalPosition: originalPosition,
-          } as any; // Type assertion needed for temporary property
-        }
-        return p;
-      });
+    // A pointer drag takes over from the keyboard: put any held piece back
+    if (keyboardCursor.heldPiece) {
+      const { action } = handleBoardKey(gameState, keyboardCursor, "Escape");
+      if (action) dispatch(action);
+    }
+    setKeyboardCursor(IDLE_CURSOR);
 
-      return {
-        ...prevState,
-        pieces: updatedPieces,
-        slots: updatedSlots,
-        draggedPiece: pieceId,
-      };
-    });
+    playAction({ type: "DRAG_START", pieceId });
   };
 
   /**
-   * Ends a drag operation and handles drop logic
-   * Snaps piece to slot if valid, otherwise returns to original position
-   *
-   * Validates: Requirements 3.3, 3.4, 3.5 (Drop placement and validation)
+   * Handles a press on a piece
+   * A mouse or pen picks the piece up at once; a finger waits for a drag or
+   * a long press so a two-finger camera gesture can start on a piece. Pieces
+   * cannot be picked up while a replay is shown
    */
-  const endDrag = () => {
-    setGameState((prevState) => {
-      if (!prevState.draggedPiece) {
-        return prevState;
-      }
+  const pressPiece = (pieceId: string, event: PointerEvent) => {
+    if (playback) return;
 
-      const draggedPiece = prevState.pieces.find(
-        (p) => p.id === prevState.draggedPiece,
+    if (event.pointerType !== "touch") {
+      startDrag(pieceId, event);
+      return;
+    }
+
+    // A second finger on a piece is a camera gesture, not a pickup
+    if (pendingPickupRef.current) {
+      pendingPickupRef.current = null;
+      return;
+    }
+
+    const pending: PendingPickup = {
+      pieceId,
+      pointerId: event.pointerId,
+      x: event.clientX,
+      y: event.clientY,
+      time: event.timeStamp,
+    };
+    pendingPickupRef.current = pending;
+
+    // Long press: pick the piece up if the finger is still resting on it
+    setTimeout(() => {
+      if (pendingPickupRef.current !== pending) return;
+
+      const decision = decidePickup(
+        pending,
+        { ...pending, time: pending.time + LONG_PRESS_MS },
+        touchPointersRef.current.size,
       );
-      const hoveredSlot = prevState.slots.find(
-        (s) => s.id === prevState.hoveredSlot,
+      pendingPickupRef.current = null;
+      if (decision === "pickup") startDrag(pieceId, event);
+    }, LONG_PRESS_MS);
+  };
+
+  // Track fingers on the screen to resolve pending touch pickups
+  React.useEffect(() => {
+    const touches = touchPointersRef.current;
+
+    const resolve = (event: PointerEvent) => {
+      const pending = pendingPickupRef.current;
+      if (!pending) return;
+
+      const decision = decidePickup(
+        pending,
+        {
+          pointerId: event.pointerId,
+          x: event.clientX,
+          y: event.clientY,
+          time: event.timeStamp,
+        },
+        touches.size,
       );
+      if (decision === "wait") return;
+
+      pendingPickupRef.current = null;
+      if (decision === "pickup") startDrag(pending.pieceId, event);
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (event.pointerType !== "touch") return;
+      touches.add(event.pointerId);
+      if (touches.size > 1) resolve(event);
+    };
 
-      if (!draggedPiece) {
-        return prevState;
+    const handlePointerMove = (event: PointerEvent) => {
+      if (event.pointerType === "touch") resolve(event);
+    };
+
+    // A finger lifted before the pickup was a tap, not a pickup
+    const handlePointerEnd = (event: PointerEvent) => {
+      touches.delete(event.pointerId);
+      if (pendingPickupRef.current?.pointerId === event.pointerId) {
+        pendingPickupRef.current = null;
       }
+    };
 
-      // Check if drop is valid: hoveredSlot exists and is unoccupied
-      const isValidDrop = hoveredSlot && !hoveredSlot.occupied;
-
-      let updatedPieces = prevState.pieces;
-      let updatedSlots = prevState.slots;
-
-      if (isValidDrop && hoveredSlot) {
-        // Valid drop: snap piece to slot position
-        updatedPieces = prevState.pieces.map((p) => {
-          if (p.id === prevState.draggedPiece) {
-            return {
-              ...p,
-              position: hoveredSlot.position.clone(),
-              slotId: hoveredSlot.id,
-            };
-          }
-          return p;
-        });
+    window.addEventListener("pointerdown", handlePointerDown);
+    window.addEventListener("pointermove", handlePointerMove);
+    window.addEventListener("pointerup", handlePointerEnd);
+    window.addEventListener("pointercancel", handlePointerEnd);
+    return () => {
+      window.removeEventListener("pointerdown", handlePointerDown);
+      window.removeEventListener("pointermove", handlePointerMove);
+      window.removeEventListener("pointerup", handlePointerEnd);
+      window.removeEventListener("pointercancel", handlePointerEnd);
+    };
+  });
 
-        // Update slot state bidirectionally
-        updatedSlots = prevState.slots.map((s) => {
-          if (s.id === hoveredSlot.id) {
-            return {
-              ...s,
-              occupied: true,
-              pieceId: prevState.draggedPiece,
-            };
-          }
-          return s;
-        });
+  /**
+   * Handles keyboard placement while the board has focus
+   * Tab and the arrow keys choose a staged piece, Enter picks it up, the
+   * arrow keys move it between slots, Enter drops it and Escape cancels
+   */
+  const handleBoardKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    // Shortcuts such as Ctrl+Z are handled elsewhere
+    if (event.ctrlKey || event.metaKey || event.altKey) return;
+    if (gameState.draggedPiece || playback) return;
+
+    const result = handleBoardKey(
+      gameState,
+      keyboardCursor,
+      event.key,
+      event.shiftKey,
+    );
+    if (!result.handled) {
+      setKeyboardCursor(result.cursor);
+      return;
+    }
 
-        // Set flag to prevent immediate re-drag
-        justDroppedRef.current = true;
-        setTimeout(() => {
-          justDroppedRef.current = false;
-        }, 100);
-      } else {
-        // Invalid drop: return piece to original position (staging area)
-        updatedPieces = prevState.pieces.map((p) => {
-          if (p.id === prevState.draggedPiece) {
-            return {
-              ...p,
-              position: p.stagingPosition.clone(),
-              slotId: null,
-            };
-          }
-          return p;
-        });
+    event.preventDefault();
+
+    // Strict mode keeps the piece held rather than place it against a rule
+    if (
+      strictMode &&
+      result.action?.type === "PLACE" &&
+      selectPlacementViolations(
+        gameState,
+        result.action.pieceId,
+        result.action.slotId,
+      )?.length
+    ) {
+      return;
+    }
 
-        // Set flag to prevent immediate re-drag after returning to staging
-        justDroppedRef.current = true;
-        setTimeout(() => {
-          justDroppedRef.current = false;
-        }, 100);
-      }
+    setKeyboardCursor(result.cursor);
+    if (result.action?.type === "PLACE") {
+      placePiece(result.action.pieceId, result.action.slotId);
+    } else if (result.action) {
+      dispatch(result.action);
+    }
+  };
 
-      // Clear drag state
-      return {
-        ...prevState,
-        pieces: updatedPieces,
-        slots: updatedSlots,
-        draggedPiece: null,
-        hoveredSlot: null,
-      };
-    });
+  /**
+   * Ends a drag operation
+   * The store snaps the piece into the hovered slot or returns it to where
+   * it was picked up from; in swap mode a drop onto another piece swaps the two
+   *
+   * Validates: Requirements 3.3, 3.4, 3.5 (Drop placement and validation)
+   */
+  const endDrag = () => {
+    if (!gameState.draggedPiece) return;
+
+    // Every finished drag counts as one move; a board piece let go over the
+    // staging area is taken off the board
+    setDragPointerId(null);
+    if (selectIsStagingDrop(gameState)) {
+      removePiece(gameState.draggedPiece);
+    } else {
+      playAction({ type: "DROP", swap: swapMode, strict: strictMode });
+    }
+
+    // Set flag to prevent immediate re-drag
+    justDroppedRef.current = true;
+    setTimeout(() => {
+      justDroppedRef.current = false;
+    }, 100);
   };
 
+  /**
+   * Abandons a drag the browser interrupted, returning the piece to where
+   * it was picked up from
+   */
+  const cancelDrag = () => {
+    setDragPointerId(null);
+    dispatch({ type: "CANCEL_DRAG" });
+  };
+
+  // Pieces are only highlighted once a hint names them (level 2 and up)
+  const hintedPiece = hint && hint.level >= 2 ? hint.pieceId : null;
+
+  // The board on screen: the replay being watched, or else the game
+  const shownState = playback?.store.game ?? gameState;
+
+  // Rules the drop in progress would break: the dragged piece over the
+  // hovered slot, or the piece held with the keyboard over the cursor slot
+  const dropViolations = playback
+    ? null
+    : gameState.draggedPiece
+      ? selectDropViolations(gameState, swapMode)
+      : keyboardCursor.heldPiece && keyboardCursor.cursorSlot
+        ? selectPlacementViolations(
+            gameState,
+            keyboardCursor.heldPiece,
+            keyboardCursor.cursorSlot,
+          )
+        : null;
+  // The drop's target is marked even when only a piece it would swap away
+  // breaks a rule; the other slots involved are marked as conflicting
+  const ruleBreakingSlot = dropViolations?.length
+    ? gameState.draggedPiece
+      ? gameState.hoveredSlot
+      : keyboardCursor.cursorSlot
+    : null;
+  const conflictingSlots =
+    dropViolations
+      ?.flatMap((violation) => violation.slotIds)
+      .filter((slotId) => slotId !== ruleBreakingSlot) ?? [];
+
+  // Candidates for the empty slots, hidden while a piece is being dragged
+  // or a replay is shown
+  const deduction =
+    showCandidates && !isEditing && !playback && gameState.draggedPiece === null
+      ? deduceCandidates(
+          createSolverPuzzle(gameState, activeChallenge, "placed"),
+        )
+      : null;
+
   return (
     <div className="app-container">
       {/* UI Overlays */}
-      {showChallenges && (
+      {isEditing && (
+        <LevelEditor
+          draft={editorDraft}
+          onDraftChange={setEditorDraft}
+          boardPieces={selectBoardPieces(gameState)}
+          problem={getDraftProblem(gameState, editorDraft)}
+          check={draftCheck}
+          isChecking={isCheckingDraft}
+          onCheck={checkEditorDraft}
+          onSave={saveEditorDraft}
+          customCount={customChallenges.length}
+          onExport={exportCustomChallenges}
+          onImport={importCustomChallenges}
+          message={editorMessage}
+          onExit={exitEditor}
+        />
+      )}
+      {showChallenges && !isEditing && (
         <ChallengeViewer
-          selectedLevel={selectedLevel}
-          onLevelChange={setSelectedLevel}
+          challenges={listedChallenges}
+          selectedChallengeId={activeChallenge.id}
+          onChallengeChange={changeChallenge}
+          onGenerate={playGeneratedChallenge}
+          onPlayDaily={playDailyChallenge}
+          dailyStreak={getDailyStreak(dailyResults, today)}
+          isDailySolved={Boolean(dailyResults[today])}
+        />
+      )}
+      {resumeBoard && (
+        <ResumePrompt
+          challengeName={activeChallenge.name}
+          placedCount={countPlacedPieces(resumeBoard, activeChallenge)}
+          onContinue={() => setResumeBoard(null)}
+          onStartOver={startOver}
+        />
+      )}
+      {showStats && (
+        <StatsPanel
+          records={sessionRecords}
+          onExportCsv={() =>
+            downloadText(
+              "diamond-quest-stats.csv",
+              "text/csv",
+              exportRecordsCsv(sessionRecords),
+            )
+          }
+          onExportJson={() =>
+            downloadText(
+              "diamond-quest-stats.json",
+              "application/json",
+              exportRecordsJson(sessionRecords),
+            )
+          }
+          onWatchReplay={watchReplay}
+          onImportReplay={importReplay}
+          message={replayMessage}
+          onClose={() => setShowStats(false)}
+        />
+      )}
+      {completion && showCompletion && (
+        <CompletionOverlay
+          challengeName={activeChallenge.name}
+          elapsedMs={completion.elapsedMs}
+          moves={completion.moves}
+          hints={completion.hints}
+          stars={completion.stars ?? 1}
+          onWatchReplay={
+            solvedReplay ? () => watchReplay(solvedReplay) : undefined
+          }
+          onNext={goToNextChallenge}
+          onClose={() => setShowCompletion(false)}
         />
       )}
       <PDFButtons />
-      <ResetButton onReset={resetBoard} />
-      <button
-        className="toggle-challenges-btn"
-        onClick={() => setShowChallenges(!showChallenges)}
-      >
-        {showChallenges ? "Hide" : "Show"} Challenges
-      </button>
+      {playback ? (
+        <ReplayControls
+          challengeName={playback.replay.challengeName}
+          durationMs={playback.replay.durationMs}
+          timeMs={playback.timeMs}
+          onSeek={seekReplay}
+          onExport={exportReplay}
+          onClose={() => setPlayback(null)}
+        />
+      ) : (
+        <>
+          <ResetButton onReset={resetBoard} />
+          {!isEditing && (
+            <ShareButton
+              onShare={shareBoard}
+              message={shareMessage}
+              onDismiss={() => setShareMessage(null)}
+            />
+          )}
+          <SwapModeToggle enabled={swapMode} onToggle={setSwapMode} />
+          <StrictModeToggle enabled={strictMode} onToggle={setStrictMode} />
+          {!isEditing && (
+            <CandidatesToggle
+              enabled={showCandidates}
+              onToggle={setShowCandidates}
+              stuck={deduction?.contradiction ?? false}
+            />
+          )}
+          <UndoRedoButtons
+            onUndo={undoMove}
+            onRedo={redoMove}
+            canUndo={selectCanUndo(store)}
+            canRedo={selectCanRedo(store)}
+          />
+          {!isEditing && (
+            <HintButton
+              onHint={requestHint}
+              message={hint?.message ?? hintNotice}
+              isBusy={isFindingHint}
+              hintsUsed={hintUsage[activeChallenge.id] ?? 0}
+            />
+          )}
+          {!isEditing && (
+            <>
+              <button
+                className="toggle-challenges-btn"
+                onClick={() => setShowChallenges(!showChallenges)}
+              >
+                {showChallenges ? "Hide" : "Show"} Challenges
+              </button>
+              <button
+                className="toggle-challenges-btn open-editor-btn"
+                onClick={enterEditor}
+              >
+                Level Editor
+              </button>
+              <button
+                className="toggle-challenges-btn open-stats-btn"
+                onClick={() => setShowStats(true)}
+              >
+                Statistics
+              </button>
+            </>
+          )}
+        </>
+      )}
 
       <Canvas
+        className="board-canvas"
+        tabIndex={0}
+        aria-label="Game board. Use Tab or the arrow keys to choose a diamond, Enter to pick it up, the arrow keys to choose a slot, Enter to place it and Escape to cancel."
+        onKeyDown={handleBoardKeyDown}
         camera={{
           position: [0, 18, 5],
           fov: 50,
@@ -505,8 +1585,10 @@ function App() {
         {/* Drag handler component for pointer move and pointer up events */}
         <DragHandler
           isDragging={gameState.draggedPiece !== null}
+          pointerId={dragPointerId}
           onPointerMove={updateDragPosition}
           onPointerUp={endDrag}
+          onPointerCancel={cancelDrag}
         />
 
         {/* Camera setup - points camera at board center (0, 0, 0) */}
@@ -529,29 +1611,49 @@ function App() {
 
         {/* GameBoard component - cross-shaped board at scene center */}
         <GameBoard
-          slots={gameState.slots}
-          hoveredSlot={gameState.hoveredSlot}
+          slots={shownState.slots}
+          hoveredSlot={shownState.hoveredSlot}
+          hintedSlot={hint?.slotId ?? null}
+          swapSlot={swapMode ? selectSwapSlot(shownState) : null}
+          focusedSlot={keyboardCursor.cursorSlot}
+          ruleBreakingSlot={ruleBreakingSlot}
+          conflictingSlots={conflictingSlots}
+          strictMode={strictMode}
         />
 
+        {/* Pencil marks of the gems each empty slot can still take */}
+        {deduction && (
+          <CandidateMarks deduction={deduction} slots={shownState.slots} />
+        )}
+
         {/* StagingArea component - displays pieces not on the board */}
         <StagingArea
-          pieces={gameState.pieces}
-          hoveredPiece={gameState.hoveredPiece}
-          draggedPiece={gameState.draggedPiece}
-          onPieceClick={startDrag}
+          pieces={shownState.pieces}
+          hoveredPiece={shownState.hoveredPiece}
+          draggedPiece={shownState.draggedPiece}
+          hintedPiece={hintedPiece}
+          focusedPiece={keyboardCursor.focusedPiece}
+          staggerDelay={staggerReturns ? RESET_STAGGER : 0}
+          onPieceClick={pressPiece}
         />
 
-        {/* Render pieces that are on the board */}
+        {/* Render pieces that are on the board; locked pieces never move or
+            glow, so they are drawn in batches */}
         <group name="board-pieces">
-          {gameState.pieces
-            .filter((piece) => piece.slotId !== null)
+          <GemInstances
+            gems={selectBoardPieces(shownState).filter((p) => p.locked)}
+            onPick={pressPiece}
+          />
+          {selectBoardPieces(shownState)
+            .filter((piece) => !piece.locked)
             .map((piece) => (
               <DiamondPiece
                 key={piece.id}
                 piece={piece}
-                isHovered={gameState.hoveredPiece === piece.id}
-                isDragged={gameState.draggedPiece === piece.id}
-                onClick={startDrag}
+                isHovered={shownState.hoveredPiece === piece.id}
+                isDragged={shownState.draggedPiece === piece.id}
+                isHinted={hintedPiece === piece.id}
+                onClick={pressPiece}
               />
             ))}
         </group>
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for piece movement animation
+ *
+ * Tests verify:
+ * - Easing starts and ends gently and stays within 0..1
+ * - Tweens wait out their delay, then move from start to end
+ * - Arcs lift pieces most at the middle of a movement
+ * - Animations are off under tests unless switched on
+ */
+
+import { afterEach, describe, it, expect } from "vitest";
+import { Vector3 } from "three";
+import {
+  ANIMATION_DURATION,
+  areAnimationsEnabled,
+  createTween,
+  easeInOutCubic,
+  isTweenFinished,
+  sampleTween,
+  setAnimationsEnabled,
+} from "./animation";
+
+describe("easeInOutCubic", () => {
+  it("maps the ends of the movement to 0 and 1", () => {
+    expect(easeInOutCubic(0)).toBe(0);
+    expect(easeInOutCubic(0.5)).toBeCloseTo(0.5);
+    expect(easeInOutCubic(1)).toBe(1);
+  });
+
+  it("clamps progress outside 0..1", () => {
+    expect(easeInOutCubic(-1)).toBe(0);
+    expect(easeInOutCubic(2)).toBe(1);
+  });
+
+  it("starts slowly", () => {
+    expect(easeInOutCubic(0.1)).toBeLessThan(0.1);
+  });
+});
+
+describe("sampleTween", () => {
+  const from = new Vector3(0, 0, 0);
+  const to = new Vector3(4, 0, 2);
+
+  it("moves from start to end over the duration", () => {
+    const tween = createTween(from, to);
+
+    expect(sampleTween(tween, 0).equals(from)).toBe(true);
+    expect(sampleTween(tween, ANIMATION_DURATION / 2).x).toBeCloseTo(2);
+    expect(sampleTween(tween, ANIMATION_DURATION).equals(to)).toBe(true);
+    expect(isTweenFinished(tween, ANIMATION_DURATION)).toBe(true);
+  });
+
+  it("holds the start position during the delay", () => {
+    const tween = createTween(from, to, { delay: 0.2 });
+
+    expect(sampleTween(tween, 0.1).equals(from)).toBe(true);
+    expect(isTweenFinished(tween, ANIMATION_DURATION)).toBe(false);
+    expect(sampleTween(tween, 0.2 + ANIMATION_DURATION).equals(to)).toBe(true);
+  });
+
+  it("lifts the piece in an arc", () => {
+    const tween = createTween(from, to, { arcHeight: 1.5 });
+
+    expect(sampleTween(tween, ANIMATION_DURATION / 2).y).toBeCloseTo(1.5);
+    expect(sampleTween(tween, ANIMATION_DURATION).y).toBe(0);
+  });
+
+  it("does not keep references to the given positions", () => {
+    const start = new Vector3(1, 1, 1);
+    const tween = createTween(start, to);
+    start.set(9, 9, 9);
+
+    expect(tween.from.equals(new Vector3(1, 1, 1))).toBe(true);
+  });
+});
+
+describe("areAnimationsEnabled", () => {
+  afterEach(() => setAnimationsEnabled(null));
+
+  it("is off under tests", () => {
+    expect(areAnimationsEnabled()).toBe(false);
+  });
+
+  it("can be switched on and back", () => {
+    setAnimationsEnabled(true);
+    expect(areAnimationsEnabled()).toBe(true);
+
+    setAnimationsEnabled(null);
+    expect(areAnimationsEnabled()).toBe(false);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Piece movement animation
+ *
+ * The game state always holds where a piece really is; animation only
+ * changes where it is drawn. When a piece's position changes, a tween eases
+ * the drawn position from where it was to where it now is. Pieces returning
+ * to the staging area are lifted in an arc, and a reset staggers them so
+ * they leave the board one after another.
+ *
+ * Animations are off when the player prefers reduced motion and under
+ * tests, and can be switched on or off with setAnimationsEnabled.
+ */
+
+import { Vector3 } from "three";
+
+/**
+ * Length of a piece movement in seconds
+ */
+export const ANIMATION_DURATION = 0.35;
+
+/**
+ * Height of the arc a piece follows back to the staging area
+ */
+export const RETURN_ARC_HEIGHT = 1.5;
+
+/**
+ * Delay between pieces leaving the board on a reset, in seconds
+ */
+export const RESET_STAGGER = 0.05;
+
+/**
+ * Media query matching players who prefer reduced motion
+ */
+export const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+/**
+ * One movement of a piece between two positions
+ */
+export interface PieceTween {
+  /** Where the piece starts */
+  from: Vector3;
+
+  /** Where the piece ends up */
+  to: Vector3;
+
+  /** Seconds to wait before moving */
+  delay: number;
+
+  /** Seconds the movement takes */
+  duration: number;
+
+  /** Extra height at the middle of the movement (0 for a straight line) */
+  arcHeight: number;
+}
+
+// Explicit on/off switch; null follows the environment
+let enabledOverride: boolean | null = null;
+
+/**
+ * Eases a progress value so movements start and end gently
+ *
+ * @param t - Progress from 0 to 1
+ * @returns Eased progress from 0 to 1
+ */
+export function easeInOutCubic(t: number): number {
+  const clamped = Math.min(Math.max(t, 0), 1);
+  return clamped < 0.5
+    ? 4 * clamped * clamped * clamped
+    : 1 - (-2 * clamped + 2) ** 3 / 2;
+}
+
+/**
+ * Creates a tween between two positions
+ *
+ * @param from - Start position
+ * @param to - End position
+ * @param options - Delay, duration and arc height (defaults: no delay,
+ * ANIMATION_DURATION, straight line)
+ */
+export function createTween(
+  from: Vector3,
+  to: Vector3,
+  options: Partial<Pick<PieceTween, "delay" | "duration" | "arcHeight">> = {},
+): PieceTween {
+  return {
+    from: from.clone(),
+    to: to.clone(),
+    delay: options.delay ?? 0,
+    duration: options.duration ?? ANIMATION_DURATION,
+    arcHeight: options.arcHeight ?? 0,
+  };
+}
+
+/**
+ * Works out where a tweened piece is
+ *
+ * @param tween - The movement
+ * @param elapsed - Seconds since the tween was created
+ * @returns The position to draw the piece at
+ */
+export function sampleTween(tween: PieceTween, elapsed: number): Vector3 {
+  const t =
+    tween.duration > 0 ? (elapsed - tween.delay) / tween.duration : Infinity;
+  const eased = easeInOutCubic(t);
+  if (eased >= 1) return tween.to.clone();
+
+  const position = tween.from.clone().lerp(tween.to, eased);
+  position.y += Math.sin(Math.PI * eased) * tween.arcHeight;
+  return position;
+}
+
+/**
+ * Checks whether a tween has reached its end position
+ */
+export function isTweenFinished(tween: PieceTween, elapsed: number): boolean {
+  return elapsed >= tween.delay + tween.duration;
+}
+
+/**
+ * Checks whether the player has asked the system for reduced motion
+ */
+export function prefersReducedMotion(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    typeof window.matchMedia === "function" &&
+    window.matchMedia(REDUCED_MOTION_QUERY).matches
+  );
+}
+
+/**
+ * Switches piece animations on or off
+ *
+ * @param enabled - true or false to force animations on or off, null to
+ * follow the environment again (off under tests)
+ */
+export function setAnimationsEnabled(enabled: boolean | null): void {
+  enabledOverride = enabled;
+}
+
+/**
+ * Checks whether piece animations are switched on
+ * The reduced motion preference is checked separately (prefersReducedMotion)
+ */
+export function areAnimationsEnabled(): boolean {
+  return enabledOverride ?? import.meta.env.MODE !== "test";
+}
@@ -0,0 +1,158 @@
+/**
+ * Unit tests for the board code format
+ *
+ * Tests verify:
+ * - Boards survive an encode/decode round trip, including locked pieces
+ * - Codes carry a version prefix and a checksum
+ * - Corrupt, tampered or unsupported codes are rejected with BoardCodecError
+ * - Share hashes carry the code and optional challenge ID
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  BoardCodecError,
+  PIECE_CODES,
+  boardChecksum,
+  createShareHash,
+  createSharedChallenge,
+  decodeBoard,
+  encodeBoard,
+  parseShareHash,
+  sharedBoardToGameState,
+} from "./boardCodec";
+import { getChallengeById, loadChallenge } from "./challenges";
+import { createInitialGameState } from "./gameStateUtils";
+import { restoreSnapshot, takeSnapshot } from "./history";
+
+const EMPTY_CODE = encodeBoard(createInitialGameState());
+
+// Replaces one character of the body, keeping the original checksum
+const tamper = (code: string, index: number, char: string) => {
+  const [version, body, check] = code.split(".");
+  const edited = body.slice(0, index) + char + body.slice(index + 1);
+  return `${version}.${edited}.${check}`;
+};
+
+describe("encodeBoard", () => {
+  it("should write a version prefix, one character per slot and a checksum", () => {
+    expect(EMPTY_CODE).toMatch(/^2\.0{13}\.[0-9a-z]{6}$/);
+  });
+
+  it("should give every piece its own letter", () => {
+    const letters = new Set(
+      PIECE_CODES.map((_, i) => String.fromCharCode(97 + i)),
+    );
+    expect(letters.size).toBe(13);
+    expect(PIECE_CODES).toHaveLength(createInitialGameState().pieces.length);
+  });
+
+  it("should use capital letters for locked pieces", () => {
+    const state = loadChallenge(getChallengeById("starter-01")!);
+    const body = encodeBoard(state).split(".")[1];
+
+    // starter-01 pre-places slot 1 and leaves slot 2 empty
+    expect(body[0]).toMatch(/[A-M]/);
+    expect(body[1]).toBe("0");
+  });
+});
+
+describe("decodeBoard", () => {
+  it("should round-trip a half-solved board", () => {
+    const state = restoreSnapshot(createInitialGameState(), {
+      "slot-1": "piece-red-round",
+      "slot-7": "piece-blue-square",
+      "slot-13": "piece-yellow-triangular",
+    });
+
+    const board = decodeBoard(encodeBoard(state));
+    expect(board.placements).toEqual(takeSnapshot(state));
+    expect(board.locked).toEqual([]);
+  });
+
+  it("should round-trip locked pieces", () => {
+    const state = loadChallenge(getChallengeById("starter-01")!);
+    const board = decodeBoard(encodeBoard(state));
+
+    expect(board.placements).toEqual(takeSnapshot(state));
+    expect(board.locked.sort()).toEqual(
+      state.pieces
+        .filter((p) => p.locked)
+        .map((p) => p.id)
+        .sort(),
+    );
+  });
+
+  it("should reject a code with a wrong checksum", () => {
+    expect(() => decodeBoard(tamper(EMPTY_CODE, 3, "a"))).toThrow(
+      /checksum mismatch/,
+    );
+  });
+
+  it("should catch every single-character edit of the body", () => {
+    const letters = "0abcdefghijklmABCDEFGHIJKLM";
+    for (let i = 0; i < 13; i++) {
+      for (const char of letters.replace(EMPTY_CODE.split(".")[1][i], "")) {
+        expect(() => decodeBoard(tamper(EMPTY_CODE, i, char))).toThrow(
+          /checksum mismatch/,
+        );
+      }
+    }
+  });
+
+  it("should reject an unsupported version", () => {
+    expect(() => decodeBoard(`1${EMPTY_CODE.slice(1)}`)).toThrow(
+      /unsupported format \(version 1\)/,
+    );
+  });
+
+  it("should reject incomplete codes", () => {
+    expect(() => decodeBoard("2.000")).toThrow(BoardCodecError);
+    expect(() => decodeBoard("")).toThrow(/incomplete/);
+  });
+
+  it("should reject unknown pieces and duplicates with a valid checksum", () => {
+    const withChecksum = (payload: string) =>
+      `${payload}.${boardChecksum(payload)}`;
+
+    expect(() => decodeBoard(withChecksum("2.z000000000000"))).toThrow(
+      /unknown piece "z" in slot 1/,
+    );
+    expect(() => decodeBoard(withChecksum("2.aA00000000000"))).toThrow(
+      /same diamond twice/,
+    );
+  });
+});
+
+describe("sharedBoardToGameState", () => {
+  it("should lock the shared locked pieces and stage the rest", () => {
+    const board = {
+      placements: { "slot-7": "piece-red-round", "slot-1": "piece-blue-round" },
+      locked: ["piece-red-round"],
+    };
+    const state = sharedBoardToGameState(board);
+
+    expect(takeSnapshot(state)).toEqual(board.placements);
+    expect(state.pieces.filter((p) => p.locked).map((p) => p.id)).toEqual([
+      "piece-red-round",
+    ]);
+    expect(createSharedChallenge(board).prePlaced).toEqual([
+      { slotId: "slot-7", pieceId: "piece-red-round" },
+    ]);
+  });
+});
+
+describe("share hashes", () => {
+  it("should carry the board code and challenge ID", () => {
+    const hash = createShareHash(createInitialGameState(), "starter-01");
+
+    expect(parseShareHash(hash)).toEqual({
+      code: EMPTY_CODE,
+      challengeId: "starter-01",
+    });
+  });
+
+  it("should return null without a board", () => {
+    expect(parseShareHash("")).toBeNull();
+    expect(parseShareHash("#challenge=starter-01")).toBeNull();
+  });
+});
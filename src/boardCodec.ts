@@ -0,0 +1,235 @@
+/**
+ * Compact text encoding of boards for shareable links
+ *
+ * A board code looks like "2.a0cB00d0e0f0g.q30aer":
+ * - "2" is the format version
+ * - the body has one character per slot, in board order (slot-1 to slot-13):
+ *   "0" for an empty slot, a-m for a free piece and A-M for a locked piece,
+ *   where the letter picks the piece's color and shape from PIECE_CODES
+ * - the last part is a six-character checksum of everything before it, so
+ *   a mistyped or edited link is caught
+ *
+ * Codes travel in the URL hash (#board=...), optionally with the challenge
+ * they belong to (#board=...&challenge=starter-01).
+ */
+
+import { createInitialGameState } from "./gameStateUtils";
+import { fnv1a } from "./hash";
+import { BoardSnapshot, restoreSnapshot } from "./history";
+import { Challenge, GameState, PieceColor, PieceShape } from "./types";
+
+/**
+ * Version of the board code format
+ * Version 1 codes had a two-character checksum and are no longer read.
+ */
+export const BOARD_CODE_VERSION = 2;
+
+/**
+ * Pieces in code order: index 0 is "a"/"A", index 12 is "m"/"M"
+ * Never reorder this list; doing so changes the meaning of existing links.
+ */
+export const PIECE_CODES: ReadonlyArray<{
+  color: PieceColor;
+  shape: PieceShape;
+}> = [
+  { color: "orange", shape: "round" },
+  { color: "yellow", shape: "round" },
+  { color: "green", shape: "round" },
+  { color: "blue", shape: "round" },
+  { color: "red", shape: "round" },
+  { color: "orange", shape: "triangular" },
+  { color: "yellow", shape: "triangular" },
+  { color: "green", shape: "triangular" },
+  { color: "blue", shape: "triangular" },
+  { color: "orange", shape: "square" },
+  { color: "yellow", shape: "square" },
+  { color: "green", shape: "square" },
+  { color: "blue", shape: "square" },
+];
+
+const SLOT_COUNT = 13;
+const EMPTY = "0";
+const CHECKSUM_LENGTH = 6;
+const CHECKSUM_MODULUS = 36 ** CHECKSUM_LENGTH;
+
+/**
+ * Error thrown when a board code cannot be decoded
+ * The message is written to be shown to the player as it is.
+ */
+export class BoardCodecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BoardCodecError";
+  }
+}
+
+/**
+ * A decoded board: where each piece sits and which pieces are locked
+ */
+export interface SharedBoard {
+  /** Slot ID to piece ID for every occupied slot */
+  placements: BoardSnapshot;
+
+  /** IDs of the pieces that cannot be moved */
+  locked: string[];
+}
+
+const pieceIdAt = (index: number) => {
+  const { color, shape } = PIECE_CODES[index];
+  return `piece-${color}-${shape}`;
+};
+
+/**
+ * Computes the checksum of the version and body of a code ("2.a0c...")
+ * The FNV-1a hash of the text, cut down to CHECKSUM_LENGTH base-36 digits.
+ */
+export function boardChecksum(text: string): string {
+  return (fnv1a(text) % CHECKSUM_MODULUS)
+    .toString(36)
+    .padStart(CHECKSUM_LENGTH, "0");
+}
+
+/**
+ * Encodes the committed arrangement of a board
+ *
+ * @param state - Game state to encode
+ * @returns A board code such as "2.a0cB00d0e0f0g.q30aer"
+ */
+export function encodeBoard(state: GameState): string {
+  const pieces = new Map(state.pieces.map((p) => [p.id, p]));
+
+  const body = Array.from({ length: SLOT_COUNT }, (_, i) => {
+    const slot = state.slots.find((s) => s.id === `slot-${i + 1}`);
+    const piece = slot?.pieceId ? pieces.get(slot.pieceId) : undefined;
+    if (!piece) return EMPTY;
+
+    const index = PIECE_CODES.findIndex(
+      (c) => c.color === piece.color && c.shape === piece.shape,
+    );
+    const letter = String.fromCharCode("a".charCodeAt(0) + index);
+    return piece.locked ? letter.toUpperCase() : letter;
+  }).join("");
+
+  const payload = `${BOARD_CODE_VERSION}.${body}`;
+  return `${payload}.${boardChecksum(payload)}`;
+}
+
+/**
+ * Decodes a board code
+ *
+ * @param code - Board code, e.g. from a shared link
+ * @returns The pieces on the board and which of them are locked
+ * @throws BoardCodecError when the code is malformed, from an unknown
+ * version, fails its checksum or places a piece twice
+ */
+export function decodeBoard(code: string): SharedBoard {
+  const parts = code.trim().split(".");
+  if (parts.length !== 3) {
+    throw new BoardCodecError("This board link is incomplete.");
+  }
+
+  const [version, body, check] = parts;
+  if (version !== String(BOARD_CODE_VERSION)) {
+    throw new BoardCodecError(
+      `This board link uses an unsupported format (version ${version}).`,
+    );
+  }
+  if (boardChecksum(`${version}.${body}`) !== check) {
+    throw new BoardCodecError(
+      "This board link is damaged or has been edited (checksum mismatch).",
+    );
+  }
+  if (body.length !== SLOT_COUNT) {
+    throw new BoardCodecError(
+      `This board link describes ${body.length} slots instead of ${SLOT_COUNT}.`,
+    );
+  }
+
+  const placements: BoardSnapshot = {};
+  const locked: string[] = [];
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === EMPTY) continue;
+
+    const index = char.toLowerCase().charCodeAt(0) - "a".charCodeAt(0);
+    if (index < 0 || index >= PIECE_CODES.length) {
+      throw new BoardCodecError(
+        `This board link has an unknown piece "${char}" in slot ${i + 1}.`,
+      );
+    }
+
+    const pieceId = pieceIdAt(index);
+    if (Object.values(placements).includes(pieceId)) {
+      throw new BoardCodecError(
+        "This board link places the same diamond twice.",
+      );
+    }
+
+    placements[`slot-${i + 1}`] = pieceId;
+    if (char !== char.toLowerCase()) locked.push(pieceId);
+  }
+
+  return { placements, locked };
+}
+
+/**
+ * Turns a decoded board into a playable game state
+ * Pieces not on the board start in the staging area
+ */
+export function sharedBoardToGameState(board: SharedBoard): GameState {
+  const state = restoreSnapshot(createInitialGameState(), board.placements);
+  return {
+    ...state,
+    pieces: state.pieces.map((p) => ({
+      ...p,
+      locked: board.locked.includes(p.id),
+    })),
+  };
+}
+
+/**
+ * Builds a one-off challenge for a shared board that is not tied to a
+ * catalogue challenge: its locked pieces are pre-placed and there are no
+ * extra constraints
+ */
+export function createSharedChallenge(board: SharedBoard): Challenge {
+  return {
+    id: "shared",
+    name: "Shared board",
+    difficulty: "starter",
+    prePlaced: Object.entries(board.placements)
+      .filter(([, pieceId]) => board.locked.includes(pieceId))
+      .map(([slotId, pieceId]) => ({ slotId, pieceId })),
+    excludedPieces: [],
+    constraints: [],
+  };
+}
+
+/**
+ * Builds the URL hash for sharing a board
+ *
+ * @param state - Game state to share
+ * @param challengeId - Catalogue challenge the board belongs to, if any
+ * @returns A hash such as "#board=2.a0cB00d0e0f0g.q30aer&challenge=starter-01"
+ */
+export function createShareHash(
+  state: GameState,
+  challengeId?: string,
+): string {
+  const params = new URLSearchParams({ board: encodeBoard(state) });
+  if (challengeId) params.set("challenge", challengeId);
+  return `#${params.toString()}`;
+}
+
+/**
+ * Reads a board code and challenge ID from a URL hash
+ * Returns null when the hash holds no board
+ */
+export function parseShareHash(
+  hash: string,
+): { code: string; challengeId: string | null } | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const code = params.get("board");
+  return code ? { code, challengeId: params.get("challenge") } : null;
+}
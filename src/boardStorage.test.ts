@@ -0,0 +1,148 @@
+/**
+ * Unit tests for saved boards
+ *
+ * Tests verify:
+ * - Saved boards round-trip through the localStorage adapter
+ * - The IndexedDB adapter falls back to localStorage while its database
+ *   fails to open, and tries again on the next call
+ * - Malformed data and other schema versions are ignored
+ * - Restoring keeps locked pieces and drops placements that no longer fit
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  SAVED_BOARD_VERSION,
+  countPlacedPieces,
+  createIndexedDBBoardStorage,
+  createLocalBoardStorage,
+  createSavedBoard,
+  parseSavedBoard,
+  restoreSavedBoard,
+} from "./boardStorage";
+import { getChallengeById, loadChallenge } from "./challenges";
+import { takeSnapshot } from "./history";
+
+/**
+ * Minimal in-memory stand-in for window.localStorage
+ */
+function createMemoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => void items.delete(key),
+    setItem: (key, value) => void items.set(key, value),
+  };
+}
+
+const challenge = getChallengeById("starter-01")!;
+
+describe("createLocalBoardStorage", () => {
+  it("should save, load and remove a board", async () => {
+    const storage = createLocalBoardStorage(createMemoryStorage());
+    const board = createSavedBoard(
+      "starter-01",
+      { "slot-2": "piece-green-triangular" },
+      3,
+    );
+
+    await storage.save(board);
+    expect(await storage.load("starter-01")).toEqual(board);
+    expect(await storage.load("starter-02")).toBeNull();
+
+    await storage.remove("starter-01");
+    expect(await storage.load("starter-01")).toBeNull();
+  });
+
+  it("should ignore unreadable entries", async () => {
+    const memory = createMemoryStorage();
+    memory.setItem("diamondQuest_board_starter-01", "{not json");
+
+    const storage = createLocalBoardStorage(memory);
+    expect(await storage.load("starter-01")).toBeNull();
+  });
+});
+
+describe("createIndexedDBBoardStorage", () => {
+  it("should use the fallback while the database fails to open", async () => {
+    // A factory whose every open request fails
+    let opened = 0;
+    const open = () => {
+      opened++;
+      const request = {} as IDBOpenDBRequest;
+      setTimeout(() => request.onerror?.(new Event("error")));
+      return request;
+    };
+    const fallback = createLocalBoardStorage(createMemoryStorage());
+    const storage = createIndexedDBBoardStorage(
+      { open } as unknown as IDBFactory,
+      fallback,
+    );
+    const board = createSavedBoard("starter-01", {}, 0);
+
+    await storage.save(board);
+    expect(await storage.load("starter-01")).toEqual(board);
+    expect(await fallback.load("starter-01")).toEqual(board);
+    expect(opened).toBe(2);
+  });
+});
+
+describe("parseSavedBoard", () => {
+  it("should reject other schema versions", () => {
+    const board = createSavedBoard("starter-01", {}, 0);
+    expect(parseSavedBoard(board)).toEqual(board);
+    expect(
+      parseSavedBoard({ ...board, version: SAVED_BOARD_VERSION + 1 }),
+    ).toBeNull();
+  });
+
+  it("should reject malformed placements", () => {
+    expect(parseSavedBoard(null)).toBeNull();
+    expect(
+      parseSavedBoard({
+        version: SAVED_BOARD_VERSION,
+        challengeId: "starter-01",
+        placements: { "slot-1": 7 },
+      }),
+    ).toBeNull();
+  });
+});
+
+describe("restoreSavedBoard", () => {
+  it("should put the saved pieces back on the board", () => {
+    const board = createSavedBoard(
+      challenge.id,
+      {
+        "slot-2": "piece-green-triangular",
+        "slot-4": "piece-green-square",
+      },
+      2,
+    );
+    const state = restoreSavedBoard(loadChallenge(challenge), board);
+
+    expect(takeSnapshot(state)["slot-2"]).toBe("piece-green-triangular");
+    expect(takeSnapshot(state)["slot-4"]).toBe("piece-green-square");
+    expect(countPlacedPieces(board, challenge)).toBe(2);
+  });
+
+  it("should keep locked pieces and drop placements that no longer fit", () => {
+    const start = loadChallenge(challenge);
+    const locked = start.pieces.find((p) => p.locked)!;
+    const board = createSavedBoard(
+      challenge.id,
+      {
+        [locked.slotId!]: "piece-green-triangular",
+        "slot-2": locked.id,
+        "slot-99": "piece-green-square",
+      },
+      0,
+    );
+
+    const state = restoreSavedBoard(start, board);
+    expect(takeSnapshot(state)).toEqual(takeSnapshot(start));
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Saved boards for in-progress challenges
+ *
+ * Each challenge's board is stored under a versioned schema so a reload can
+ * pick up where the player left off. Only which piece sits in which slot is
+ * saved; piece positions follow from the slots and staging area.
+ *
+ * Boards go to IndexedDB where it is available and to localStorage
+ * otherwise, including when the database fails to open. Both adapters share
+ * the async BoardStorage interface.
+ */
+
+import { BoardSnapshot, mergeSnapshot } from "./history";
+import { Challenge, GameState } from "./types";
+
+/**
+ * Schema version of saved boards
+ */
+export const SAVED_BOARD_VERSION = 1;
+
+/**
+ * A challenge board as persisted between sessions
+ */
+export interface SavedBoard {
+  /** Schema version, always SAVED_BOARD_VERSION when written */
+  version: typeof SAVED_BOARD_VERSION;
+
+  /** ID of the challenge the board belongs to */
+  challengeId: string;
+
+  /** Slot ID to piece ID for every occupied slot */
+  placements: BoardSnapshot;
+
+  /** Moves made so far */
+  moves: number;
+
+  /** When the board was saved (milliseconds since the epoch) */
+  savedAt: number;
+}
+
+/**
+ * Storage backend for saved boards
+ */
+export interface BoardStorage {
+  /** Loads a challenge's saved board, or null when there is none */
+  load(challengeId: string): Promise<SavedBoard | null>;
+
+  /** Saves a board, replacing any earlier save for its challenge */
+  save(board: SavedBoard): Promise<void>;
+
+  /** Deletes a challenge's saved board */
+  remove(challengeId: string): Promise<void>;
+}
+
+const KEY_PREFIX = "diamondQuest_board_";
+const DB_NAME = "diamondQuest";
+const STORE_NAME = "boards";
+
+/**
+ * Validates stored data as a saved board
+ *
+ * @param raw - Untrusted data read from storage
+ * @returns The saved board, or null when it is malformed or from an
+ * unsupported schema version
+ */
+export function parseSavedBoard(raw: unknown): SavedBoard | null {
+  if (typeof raw !== "object" || raw === null) return null;
+
+  const { version, challengeId, placements, moves, savedAt } = raw as Record<
+    string,
+    unknown
+  >;
+  if (version !== SAVED_BOARD_VERSION || typeof challengeId !== "string") {
+    return null;
+  }
+  if (typeof placements !== "object" || placements === null) return null;
+  if (!Object.values(placements).every((id) => typeof id === "string")) {
+    return null;
+  }
+
+  return {
+    version,
+    challengeId,
+    placements: { ...(placements as BoardSnapshot) },
+    moves: typeof moves === "number" && moves >= 0 ? moves : 0,
+    savedAt: typeof savedAt === "number" ? savedAt : 0,
+  };
+}
+
+/**
+ * Captures a committed board arrangement for saving
+ */
+export function createSavedBoard(
+  challengeId: string,
+  placements: BoardSnapshot,
+  moves: number,
+): SavedBoard {
+  return {
+    version: SAVED_BOARD_VERSION,
+    challengeId,
+    placements: { ...placements },
+    moves,
+    savedAt: Date.now(),
+  };
+}
+
+/**
+ * Counts the pieces the player placed, leaving out the challenge's
+ * pre-placed ones
+ */
+export function countPlacedPieces(
+  board: SavedBoard,
+  challenge: Challenge,
+): number {
+  const prePlaced = new Set(challenge.prePlaced.map((p) => p.slotId));
+  return Object.keys(board.placements).filter(
+    (slotId) => !prePlaced.has(slotId),
+  ).length;
+}
+
+/**
+ * Puts a saved board onto a freshly loaded challenge
+ * Placements that no longer fit the challenge are dropped (see mergeSnapshot)
+ *
+ * @param state - Game state from loadChallenge
+ * @param board - Saved board for the same challenge
+ * @returns The game state with the saved pieces placed
+ */
+export function restoreSavedBoard(
+  state: GameState,
+  board: SavedBoard,
+): GameState {
+  return mergeSnapshot(state, board.placements);
+}
+
+/**
+ * Creates a board storage backed by a Web Storage object (localStorage)
+ *
+ * @param storage - Storage to use, e.g. window.localStorage
+ */
+export function createLocalBoardStorage(storage: Storage): BoardStorage {
+  return {
+    async load(challengeId) {
+      const json = storage.getItem(KEY_PREFIX + challengeId);
+      if (!json) return null;
+
+      try {
+        const board = parseSavedBoard(JSON.parse(json));
+        return board?.challengeId === challengeId ? board : null;
+      } catch {
+        return null;
+      }
+    },
+
+    async save(board) {
+      storage.setItem(KEY_PREFIX + board.challengeId, JSON.stringify(board));
+    },
+
+    async remove(challengeId) {
+      storage.removeItem(KEY_PREFIX + challengeId);
+    },
+  };
+}
+
+/**
+ * Wraps an IndexedDB request in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Opens the saved boards database, creating its store on first use
+ * Rejects when the browser refuses to open it, e.g. in private browsing.
+ */
+async function openDatabase(factory: IDBFactory): Promise<IDBDatabase> {
+  const request = factory.open(DB_NAME, SAVED_BOARD_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+      request.result.createObjectStore(STORE_NAME, {
+        keyPath: "challengeId",
+      });
+    }
+  };
+  return requestToPromise(request);
+}
+
+/**
+ * Creates a board storage backed by IndexedDB
+ * The database is opened on first use and shared by later calls. While it
+ * cannot be opened, boards go to the fallback storage instead, and the next
+ * call tries to open it again.
+ *
+ * @param factory - IndexedDB factory to use, e.g. window.indexedDB
+ * @param fallback - Storage to use while the database cannot be opened
+ */
+export function createIndexedDBBoardStorage(
+  factory: IDBFactory,
+  fallback: BoardStorage,
+): BoardStorage {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = async (): Promise<IDBDatabase | null> => {
+    if (!database) {
+      database = openDatabase(factory);
+    }
+    try {
+      return await database;
+    } catch (error) {
+      console.error("Error opening saved boards database:", error);
+      database = null;
+      return null;
+    }
+  };
+
+  const withStore = <T>(
+    db: IDBDatabase,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> =>
+    requestToPromise(
+      run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)),
+    );
+
+  return {
+    async load(challengeId) {
+      const db = await open();
+      if (!db) return fallback.load(challengeId);
+
+      const raw = await withStore(db, "readonly", (store) =>
+        store.get(challengeId),
+      );
+      return parseSavedBoard(raw);
+    },
+
+    async save(board) {
+      const db = await open();
+      if (!db) return fallback.save(board);
+
+      await withStore(db, "readwrite", (store) => store.put(board));
+    },
+
+    async remove(challengeId) {
+      const db = await open();
+      if (!db) return fallback.remove(challengeId);
+
+      await withStore(db, "readwrite", (store) => store.delete(challengeId));
+    },
+  };
+}
+
+/**
+ * Creates the board storage for this browser
+ * Prefers IndexedDB and falls back to localStorage, both when IndexedDB is
+ * missing and when its database cannot be opened
+ */
+export function createBoardStorage(): BoardStorage {
+  const local = createLocalBoardStorage(localStorage);
+  return typeof indexedDB !== "undefined"
+    ? createIndexedDBBoardStorage(indexedDB, local)
+    : local;
+}
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for challenge card layout
+ *
+ * Tests verify:
+ * - Every slot is laid out where it appears on screen, inside the viewBox
+ * - Pre-placed gems and slot clues end up on their slots
+ * - Gem outlines match the seated 3D gems
+ * - The text description lists locked gems and clues
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  describeChallengeCard,
+  getGemPoints,
+  layoutChallengeCard,
+} from "./challengeCard";
+import { getChallengeById } from "./challenges";
+import { getGemOutline } from "./gemAssets";
+import { getSlotRows } from "./keyboardControls";
+import { createInitialGameState } from "./gameStateUtils";
+import { Challenge } from "./types";
+
+const EMPTY_CHALLENGE: Challenge = {
+  id: "empty",
+  name: "Empty",
+  difficulty: "starter",
+  prePlaced: [],
+  excludedPieces: [],
+  constraints: [],
+};
+
+describe("layoutChallengeCard", () => {
+  it("fits all 13 slots inside the viewBox", () => {
+    const layout = layoutChallengeCard(EMPTY_CHALLENGE);
+    const [minX, minY, width, height] = layout.viewBox.split(" ").map(Number);
+
+    expect(layout.slots).toHaveLength(13);
+    for (const slot of layout.slots) {
+      expect(slot.x).toBeGreaterThan(minX);
+      expect(slot.x).toBeLessThan(minX + width);
+      expect(slot.y).toBeGreaterThan(minY);
+      expect(slot.y).toBeLessThan(minY + height);
+    }
+  });
+
+  it("draws rows in the order seen from the default camera", () => {
+    const layout = layoutChallengeCard(EMPTY_CHALLENGE);
+    const rows = getSlotRows(createInitialGameState().slots);
+    const y = (slotId: string) => layout.slots.find((s) => s.id === slotId)!.y;
+
+    expect(y(rows[0][0])).toBeLessThan(y(rows[4][0]));
+  });
+
+  it("places locked gems and slot clues on their slots", () => {
+    const challenge: Challenge = {
+      ...EMPTY_CHALLENGE,
+      prePlaced: [{ pieceId: "piece-red-round", slotId: "slot-7" }],
+      constraints: [
+        { type: "slot-match", slotId: "slot-2", match: { color: "blue" } },
+      ],
+    };
+    const slots = layoutChallengeCard(challenge).slots;
+
+    expect(slots.find((s) => s.id === "slot-7")!.gem).toEqual({
+      id: "piece-red-round",
+      color: "red",
+      shape: "round",
+    });
+    expect(slots.find((s) => s.id === "slot-2")!.clue).toEqual({
+      color: "blue",
+    });
+    expect(slots.filter((s) => s.gem || s.clue)).toHaveLength(2);
+  });
+});
+
+describe("getGemPoints", () => {
+  it("traces the seated gem outline around a center", () => {
+    const points = getGemPoints("square", 1, 2, 0.5)
+      .split(" ")
+      .map((p) => p.split(",").map(Number));
+    const outline = getGemOutline("square");
+
+    expect(points).toHaveLength(outline.length);
+    expect(points[0][0]).toBeCloseTo(1 + outline[0].x * 0.5);
+    expect(points[0][1]).toBeCloseTo(2 + outline[0].z * 0.5);
+  });
+});
+
+describe("describeChallengeCard", () => {
+  it("lists locked gems by slot and then the clues", () => {
+    const challenge = getChallengeById("starter-01")!;
+    const text = describeChallengeCard(challenge);
+
+    expect(text).toMatch(/^Locked gems: slot 1: orange square diamond, /);
+    expect(text.indexOf("slot 3")).toBeLessThan(text.indexOf("slot 12"));
+  });
+
+  it("says when nothing is locked", () => {
+    expect(describeChallengeCard(EMPTY_CHALLENGE)).toBe(
+      "No gems are locked on the board.",
+    );
+  });
+});
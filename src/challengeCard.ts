@@ -0,0 +1,142 @@
+/**
+ * Challenge card layout
+ *
+ * ChallengeCard draws a challenge as a flat SVG card: the 13-slot diamond as
+ * seen from the default camera, the pre-placed gems in their colors and
+ * shapes, and markers for slot clues. This module works out what goes where
+ * and how to describe it in words; the component only draws it.
+ *
+ * Card coordinates are board units: x to the right and y down the screen
+ * (world z towards the player).
+ */
+
+import { getGemOutline } from "./gemAssets";
+import { describeConstraint } from "./challenges";
+import { generateBoardSlots, generateDiamondPieces } from "./gameStateUtils";
+import { PieceTraits, describeMatcher } from "./rules";
+import { Challenge, PieceMatcher } from "./types";
+
+/**
+ * Space left around the outermost slots, in board units
+ */
+export const CARD_PADDING = 0.9;
+
+/**
+ * One slot of the diamond on a card
+ */
+export interface CardSlot {
+  /** Slot ID */
+  id: string;
+
+  /** Number printed on the slot */
+  number: number;
+
+  /** Center of the slot */
+  x: number;
+  y: number;
+
+  /** Gem locked into the slot by the challenge, if any */
+  gem: PieceTraits | null;
+
+  /** Piece the slot must hold according to a slot clue, if any */
+  clue: PieceMatcher | null;
+}
+
+/**
+ * Everything a card draws, in card coordinates
+ */
+export interface ChallengeCardLayout {
+  /** SVG viewBox covering the diamond ("minX minY width height") */
+  viewBox: string;
+
+  slots: CardSlot[];
+}
+
+const PIECES = new Map(generateDiamondPieces().map((p) => [p.id, p]));
+
+/**
+ * Lays out a challenge's card
+ *
+ * @param challenge - Challenge to draw
+ * @returns The viewBox and each slot's position, gem and clue, in slot order
+ */
+export function layoutChallengeCard(challenge: Challenge): ChallengeCardLayout {
+  const slots = generateBoardSlots().map((slot): CardSlot => {
+    const placement = challenge.prePlaced.find((p) => p.slotId === slot.id);
+    const piece = placement ? PIECES.get(placement.pieceId) : undefined;
+    const clue = challenge.constraints.find(
+      (c) => c.type === "slot-match" && c.slotId === slot.id,
+    );
+
+    return {
+      id: slot.id,
+      number: Number(slot.id.replace("slot-", "")),
+      x: slot.position.x,
+      y: slot.position.z,
+      gem: piece
+        ? { id: piece.id, color: piece.color, shape: piece.shape }
+        : null,
+      clue: clue?.type === "slot-match" ? clue.match : null,
+    };
+  });
+
+  const xs = slots.map((s) => s.x);
+  const ys = slots.map((s) => s.y);
+  const minX = Math.min(...xs) - CARD_PADDING;
+  const minY = Math.min(...ys) - CARD_PADDING;
+  const width = Math.max(...xs) + CARD_PADDING - minX;
+  const height = Math.max(...ys) + CARD_PADDING - minY;
+
+  return {
+    viewBox: [minX, minY, width, height].map((n) => n.toFixed(3)).join(" "),
+    slots,
+  };
+}
+
+/**
+ * Builds the SVG points of a gem outline
+ *
+ * @param shape - Gem shape
+ * @param x - Center of the gem
+ * @param y - Center of the gem
+ * @param scale - Size relative to a gem on the board
+ */
+export function getGemPoints(
+  shape: PieceTraits["shape"],
+  x: number,
+  y: number,
+  scale: number = 1,
+): string {
+  return getGemOutline(shape)
+    .map(
+      (p) => `${(x + p.x * scale).toFixed(3)},${(y + p.z * scale).toFixed(3)}`,
+    )
+    .join(" ");
+}
+
+/**
+ * Describes a card in words for screen readers
+ * Lists the locked gems by slot, then the clues.
+ */
+export function describeChallengeCard(challenge: Challenge): string {
+  const locked = [...challenge.prePlaced]
+    .sort(
+      (a, b) =>
+        Number(a.slotId.replace("slot-", "")) -
+        Number(b.slotId.replace("slot-", "")),
+    )
+    .flatMap((placement) => {
+      const piece = PIECES.get(placement.pieceId);
+      if (!piece) return [];
+      const slotNumber = placement.slotId.replace("slot-", "");
+      return [`slot ${slotNumber}: ${describeMatcher(piece)}`];
+    });
+
+  const parts = [
+    locked.length > 0
+      ? `Locked gems: ${locked.join(", ")}.`
+      : "No gems are locked on the board.",
+    ...challenge.constraints.map((c) => `${describeConstraint(c)}.`),
+  ];
+  return parts.join(" ");
+}
@@ -0,0 +1,256 @@
+/**
+ * Unit tests for the challenge model and catalogue
+ *
+ * Tests verify:
+ * - The bundled catalogue parses into typed challenges
+ * - Invalid challenge data is rejected with a clear message
+ * - Loading a challenge locks its pre-placed pieces on the board
+ * - Challenge constraints decide what counts as solved
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  CHALLENGES,
+  parseChallenge,
+  parseChallengeCatalogue,
+  getChallengeById,
+  getNextChallenge,
+  loadChallenge,
+  describeConstraint,
+} from "./challenges";
+import { isChallengeSolved, validateChallenge } from "./rules";
+import { Challenge, GameState } from "./types";
+
+/**
+ * Places pieces directly on the board, bypassing drag logic
+ */
+function placeAll(state: GameState, placements: Record<string, string>) {
+  return {
+    ...state,
+    pieces: state.pieces.map((p) => {
+      const slotId = Object.keys(placements).find(
+        (s) => placements[s] === p.id,
+      );
+      return slotId ? { ...p, slotId } : p;
+    }),
+    slots: state.slots.map((s) =>
+      placements[s.id]
+        ? { ...s, occupied: true, pieceId: placements[s.id] }
+        : s,
+    ),
+  };
+}
+
+// The unique solution of the "starter-01" challenge
+const STARTER_01_SOLUTION: Record<string, string> = {
+  "slot-1": "piece-orange-square",
+  "slot-2": "piece-green-triangular",
+  "slot-3": "piece-yellow-round",
+  "slot-4": "piece-green-square",
+  "slot-5": "piece-blue-triangular",
+  "slot-6": "piece-orange-round",
+  "slot-7": "piece-blue-square",
+  "slot-8": "piece-yellow-triangular",
+  "slot-9": "piece-green-round",
+  "slot-10": "piece-yellow-square",
+  "slot-11": "piece-orange-triangular",
+  "slot-12": "piece-blue-round",
+  "slot-13": "piece-red-round",
+};
+
+const baseChallenge = {
+  id: "test-01",
+  name: "Test",
+  difficulty: "starter",
+  prePlaced: [],
+  excludedPieces: [],
+  constraints: [],
+};
+
+describe("Challenge catalogue", () => {
+  it("should bundle challenges with unique ids", () => {
+    expect(CHALLENGES.length).toBeGreaterThan(0);
+    expect(new Set(CHALLENGES.map((c) => c.id)).size).toBe(CHALLENGES.length);
+  });
+
+  it("should look up challenges by id and find the next one", () => {
+    const first = CHALLENGES[0];
+    expect(getChallengeById(first.id)).toBe(first);
+    expect(getNextChallenge(first.id)).toBe(CHALLENGES[1]);
+    expect(getNextChallenge(CHALLENGES[CHALLENGES.length - 1].id)).toBeNull();
+    expect(getChallengeById("missing")).toBeUndefined();
+  });
+
+  it("should reject an unsupported catalogue version", () => {
+    expect(() =>
+      parseChallengeCatalogue({ version: 99, challenges: [] }),
+    ).toThrow(/version/);
+  });
+});
+
+describe("parseChallenge", () => {
+  it("should parse a valid challenge", () => {
+    const challenge = parseChallenge({
+      ...baseChallenge,
+      prePlaced: [{ pieceId: "piece-red-round", slotId: "slot-7" }],
+      constraints: [
+        { type: "slot-match", slotId: "slot-1", match: { color: "blue" } },
+      ],
+      pdfPage: 3,
+    });
+
+    expect(challenge.prePlaced).toEqual([
+      { pieceId: "piece-red-round", slotId: "slot-7" },
+    ]);
+    // Challenge cards replaced the PDF pages, so page numbers are dropped
+    expect(challenge).not.toHaveProperty("pdfPage");
+  });
+
+  it("should reject unknown pieces and slots", () => {
+    expect(() =>
+      parseChallenge({
+        ...baseChallenge,
+        prePlaced: [{ pieceId: "piece-red-square", slotId: "slot-7" }],
+      }),
+    ).toThrow(/unknown piece "piece-red-square"/);
+
+    expect(() =>
+      parseChallenge({
+        ...baseChallenge,
+        prePlaced: [{ pieceId: "piece-red-round", slotId: "slot-14" }],
+      }),
+    ).toThrow(/unknown slot "slot-14"/);
+  });
+
+  it("should reject two pieces pre-placed in one slot", () => {
+    expect(() =>
+      parseChallenge({
+        ...baseChallenge,
+        prePlaced: [
+          { pieceId: "piece-red-round", slotId: "slot-7" },
+          { pieceId: "piece-blue-round", slotId: "slot-7" },
+        ],
+      }),
+    ).toThrow(/same slot/);
+  });
+
+  it("should reject constraints without a color or shape", () => {
+    expect(() =>
+      parseChallenge({
+        ...baseChallenge,
+        constraints: [{ type: "slot-match", slotId: "slot-1", match: {} }],
+      }),
+    ).toThrow(/needs a color or a shape/);
+  });
+});
+
+describe("loadChallenge", () => {
+  it("should lock pre-placed pieces into their slots", () => {
+    const challenge = getChallengeById("starter-01")!;
+    const state = loadChallenge(challenge);
+
+    for (const { pieceId, slotId } of challenge.prePlaced) {
+      const piece = state.pieces.find((p) => p.id === pieceId)!;
+      const slot = state.slots.find((s) => s.id === slotId)!;
+
+      expect(piece.slotId).toBe(slotId);
+      expect(piece.locked).toBe(true);
+      expect(piece.position.equals(slot.position)).toBe(true);
+      expect(slot.pieceId).toBe(pieceId);
+      expect(slot.occupied).toBe(true);
+    }
+
+    const free = state.pieces.filter((p) => !p.locked);
+    expect(free).toHaveLength(13 - challenge.prePlaced.length);
+    free.forEach((p) => expect(p.slotId).toBeNull());
+  });
+
+  it("should remove excluded pieces from play", () => {
+    const challenge = parseChallenge({
+      ...baseChallenge,
+      excludedPieces: ["piece-red-round"],
+    });
+
+    const state = loadChallenge(challenge);
+    expect(state.pieces).toHaveLength(12);
+    expect(state.pieces.some((p) => p.id === "piece-red-round")).toBe(false);
+  });
+});
+
+describe("Challenge validation", () => {
+  it("should accept the solution of a bundled challenge", () => {
+    const challenge = getChallengeById("starter-01")!;
+    const state = placeAll(loadChallenge(challenge), STARTER_01_SOLUTION);
+
+    expect(validateChallenge(state, challenge)).toEqual([]);
+    expect(isChallengeSolved(state, challenge)).toBe(true);
+  });
+
+  it("should report a slot that breaks a slot-match clue", () => {
+    const challenge: Challenge = parseChallenge({
+      ...baseChallenge,
+      constraints: [
+        { type: "slot-match", slotId: "slot-1", match: { shape: "square" } },
+      ],
+    });
+    const state = placeAll(loadChallenge(challenge), {
+      "slot-1": "piece-blue-round",
+    });
+
+    const violations = validateChallenge(state, challenge);
+    expect(violations.map((v) => v.ruleId)).toEqual(["slot-match"]);
+    expect(violations[0].slotIds).toEqual(["slot-1"]);
+  });
+
+  it("should report pieces too close for a not-near clue", () => {
+    const challenge: Challenge = parseChallenge({
+      ...baseChallenge,
+      constraints: [
+        {
+          type: "not-near",
+          subject: { color: "red" },
+          neighbor: { shape: "square" },
+          neighborhood: "surrounding",
+        },
+      ],
+    });
+    // slot-2 is diagonal to slot-7, so only the surrounding clue applies
+    const state = placeAll(loadChallenge(challenge), {
+      "slot-7": "piece-red-round",
+      "slot-2": "piece-blue-square",
+    });
+
+    const violations = validateChallenge(state, challenge);
+    expect(violations.map((v) => v.ruleId)).toEqual(["not-near"]);
+    expect(violations[0].pieceIds).toEqual([
+      "piece-red-round",
+      "piece-blue-square",
+    ]);
+  });
+
+  it("should not treat a board as solved while pieces are staged", () => {
+    const challenge = getChallengeById("starter-01")!;
+    expect(isChallengeSolved(loadChallenge(challenge), challenge)).toBe(false);
+  });
+});
+
+describe("describeConstraint", () => {
+  it("should describe clues in words", () => {
+    expect(
+      describeConstraint({
+        type: "slot-match",
+        slotId: "slot-4",
+        match: { color: "orange" },
+      }),
+    ).toBe("Slot 4 holds an orange diamond");
+
+    expect(
+      describeConstraint({
+        type: "not-near",
+        subject: { color: "red" },
+        neighbor: { shape: "round" },
+        neighborhood: "surrounding",
+      }),
+    ).toBe("No round diamond in the 8 spaces around the red diamond");
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Challenge catalogue and loading
+ *
+ * Parses the bundled challenges.json into typed Challenge definitions and
+ * turns a challenge into a playable GameState with its pre-placed gems
+ * locked in their slots.
+ */
+
+import catalogue from "./assets/challenges.json";
+import {
+  createInitialGameState,
+  generateBoardSlots,
+  generateDiamondPieces,
+  isValidPieceColor,
+  isValidPieceShape,
+} from "./gameStateUtils";
+import { describeMatcher } from "./rules";
+import {
+  Challenge,
+  ChallengeConstraint,
+  ChallengeDifficulty,
+  FixedPlacement,
+  GameState,
+  PieceMatcher,
+} from "./types";
+
+/**
+ * Schema version of the challenge catalogue format
+ */
+export const CHALLENGE_CATALOGUE_VERSION = 1;
+
+/**
+ * Difficulty tiers in ascending order
+ */
+export const CHALLENGE_DIFFICULTIES: ChallengeDifficulty[] = [
+  "starter",
+  "junior",
+  "expert",
+  "master",
+];
+
+const PIECE_IDS = new Set(generateDiamondPieces().map((p) => p.id));
+const SLOT_IDS = new Set(generateBoardSlots().map((s) => s.id));
+
+type RawObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseMatcher(raw: unknown, where: string): PieceMatcher {
+  if (!isObject(raw)) throw new Error(`${where} must be an object`);
+
+  const match: PieceMatcher = {};
+  if (raw.color !== undefined) {
+    if (typeof raw.color !== "string" || !isValidPieceColor(raw.color)) {
+      throw new Error(`${where} has an unknown color "${raw.color}"`);
+    }
+    match.color = raw.color;
+  }
+  if (raw.shape !== undefined) {
+    if (typeof raw.shape !== "string" || !isValidPieceShape(raw.shape)) {
+      throw new Error(`${where} has an unknown shape "${raw.shape}"`);
+    }
+    match.shape = raw.shape;
+  }
+  if (!match.color && !match.shape) {
+    throw new Error(`${where} needs a color or a shape`);
+  }
+
+  return match;
+}
+
+function parseSlotId(raw: unknown, where: string): string {
+  if (typeof raw !== "string" || !SLOT_IDS.has(raw)) {
+    throw new Error(`${where} references unknown slot "${raw}"`);
+  }
+  return raw;
+}
+
+function parsePieceId(raw: unknown, where: string): string {
+  if (typeof raw !== "string" || !PIECE_IDS.has(raw)) {
+    throw new Error(`${where} references unknown piece "${raw}"`);
+  }
+  return raw;
+}
+
+function parseConstraint(raw: unknown, where: string): ChallengeConstraint {
+  if (!isObject(raw)) throw new Error(`${where} must be an object`);
+
+  if (raw.type === "slot-match") {
+    return {
+      type: "slot-match",
+      slotId: parseSlotId(raw.slotId, where),
+      match: parseMatcher(raw.match, `${where}.match`),
+    };
+  }
+
+  if (raw.type === "not-near") {
+    if (raw.neighborhood !== "edge" && raw.neighborhood !== "surrounding") {
+      throw new Error(`${where} has an unknown neighborhood`);
+    }
+    return {
+      type: "not-near",
+      subject: parseMatcher(raw.subject, `${where}.subject`),
+      neighbor: parseMatcher(raw.neighbor, `${where}.neighbor`),
+      neighborhood: raw.neighborhood,
+    };
+  }
+
+  throw new Error(`${where} has an unknown type "${raw.type}"`);
+}
+
+/**
+ * Parses and validates a single challenge definition
+ *
+ * @param raw - Untrusted challenge data, e.g. from JSON
+ * @returns The typed challenge
+ * @throws Error describing the first problem found
+ */
+export function parseChallenge(raw: unknown): Challenge {
+  if (!isObject(raw)) throw new Error("Challenge must be an object");
+
+  // Other keys, such as the pdfPage of catalogues from before challenge
+  // cards, are ignored
+  const { id, name, difficulty } = raw;
+  if (typeof id !== "string" || id === "") {
+    throw new Error("Challenge needs a non-empty id");
+  }
+
+  const where = `Challenge "${id}"`;
+  if (typeof name !== "string" || name === "") {
+    throw new Error(`${where} needs a name`);
+  }
+  if (!CHALLENGE_DIFFICULTIES.includes(difficulty as ChallengeDifficulty)) {
+    throw new Error(`${where} has an unknown difficulty "${difficulty}"`);
+  }
+
+  const list = (key: string): unknown[] => {
+    const value = raw[key] ?? [];
+    if (!Array.isArray(value)) {
+      throw new Error(`${where}.${key} must be a list`);
+    }
+    return value;
+  };
+
+  const prePlaced: FixedPlacement[] = list("prePlaced").map((entry, i) => {
+    const at = `${where}.prePlaced[${i}]`;
+    if (!isObject(entry)) throw new Error(`${at} must be an object`);
+    return {
+      pieceId: parsePieceId(entry.pieceId, at),
+      slotId: parseSlotId(entry.slotId, at),
+    };
+  });
+
+  if (new Set(prePlaced.map((p) => p.slotId)).size !== prePlaced.length) {
+    throw new Error(`${where} pre-places two pieces in the same slot`);
+  }
+  if (new Set(prePlaced.map((p) => p.pieceId)).size !== prePlaced.length) {
+    throw new Error(`${where} pre-places the same piece twice`);
+  }
+
+  const excludedPieces = list("excludedPieces").map((entry, i) =>
+    parsePieceId(entry, `${where}.excludedPieces[${i}]`),
+  );
+
+  if (prePlaced.some((p) => excludedPieces.includes(p.pieceId))) {
+    throw new Error(`${where} pre-places an excluded piece`);
+  }
+
+  const constraints = list("constraints").map((entry, i) =>
+    parseConstraint(entry, `${where}.constraints[${i}]`),
+  );
+
+  return {
+    id,
+    name,
+    difficulty: difficulty as ChallengeDifficulty,
+    prePlaced,
+    excludedPieces,
+    constraints,
+  };
+}
+
+/**
+ * Parses and validates a versioned challenge catalogue
+ *
+ * @param raw - Untrusted catalogue data ({ version, challenges })
+ * @returns The typed challenges in catalogue order
+ * @throws Error when the version is unsupported or a challenge is invalid
+ */
+export function parseChallengeCatalogue(raw: unknown): Challenge[] {
+  if (!isObject(raw) || raw.version !== CHALLENGE_CATALOGUE_VERSION) {
+    throw new Error(
+      `Unsupported challenge catalogue version (expected ${CHALLENGE_CATALOGUE_VERSION})`,
+    );
+  }
+  if (!Array.isArray(raw.challenges)) {
+    throw new Error("Challenge catalogue needs a challenges list");
+  }
+
+  const challenges = raw.challenges.map(parseChallenge);
+  const ids = new Set(challenges.map((c) => c.id));
+  if (ids.size !== challenges.length) {
+    throw new Error("Challenge catalogue contains duplicate ids");
+  }
+
+  return challenges;
+}
+
+/**
+ * The bundled challenge catalogue, in play order
+ */
+export const CHALLENGES: Challenge[] = parseChallengeCatalogue(catalogue);
+
+/**
+ * Looks up a bundled challenge by ID
+ */
+export function getChallengeById(id: string): Challenge | undefined {
+  return CHALLENGES.find((c) => c.id === id);
+}
+
+/**
+ * Returns the bundled challenge after the given one, or null at the end
+ */
+export function getNextChallenge(id: string): Challenge | null {
+  const index = CHALLENGES.findIndex((c) => c.id === id);
+  return index >= 0 && index < CHALLENGES.length - 1
+    ? CHALLENGES[index + 1]
+    : null;
+}
+
+/**
+ * Sets up a board for a challenge
+ *
+ * Excluded pieces are removed from play, every other piece returns to the
+ * staging area, and pre-placed pieces are snapped into their slots and
+ * locked.
+ *
+ * @param state - Game state providing the pieces and slots
+ * @param challenge - Challenge to set up
+ * @returns A fresh game state for the challenge
+ */
+export function applyChallenge(
+  state: GameState,
+  challenge: Challenge,
+): GameState {
+  const fixedSlots = new Map(
+    challenge.prePlaced.map((p) => [p.pieceId, p.slotId]),
+  );
+  const fixedPieces = new Map(
+    challenge.prePlaced.map((p) => [p.slotId, p.pieceId]),
+  );
+
+  const pieces = state.pieces
+    .filter((p) => !challenge.excludedPieces.includes(p.id))
+    .map((piece) => {
+      const slotId = fixedSlots.get(piece.id);
+      const slot = state.slots.find((s) => s.id === slotId);
+      return slot
+        ? {
+            ...piece,
+            position: slot.position.clone(),
+            slotId: slot.id,
+            locked: true,
+          }
+        : {
+            ...piece,
+            position: piece.stagingPosition.clone(),
+            slotId: null,
+            locked: false,
+          };
+    });
+
+  const slots = state.slots.map((slot) => {
+    const pieceId = fixedPieces.get(slot.id) ?? null;
+    return { ...slot, occupied: pieceId !== null, pieceId };
+  });
+
+  return {
+    ...state,
+    pieces,
+    slots,
+    draggedPiece: null,
+    hoveredSlot: null,
+    hoveredPiece: null,
+  };
+}
+
+/**
+ * Creates a fresh game state set up for a challenge
+ */
+export function loadChallenge(challenge: Challenge): GameState {
+  return applyChallenge(createInitialGameState(), challenge);
+}
+
+/**
+ * Describes a challenge constraint in words for the challenge panel
+ */
+export function describeConstraint(constraint: ChallengeConstraint): string {
+  if (constraint.type === "slot-match") {
+    const slotNumber = constraint.slotId.replace("slot-", "");
+    return `Slot ${slotNumber} holds ${describeMatcher(constraint.match, true)}`;
+  }
+
+  const area =
+    constraint.neighborhood === "edge" ? "next to" : "in the 8 spaces around";
+  return `No ${describeMatcher(constraint.neighbor)} ${area} the ${describeMatcher(constraint.subject)}`;
+}
@@ -17,6 +17,16 @@ interface BoardSlotProps {
   isHovered?: boolean;
   /** Whether the hover is valid (slot is empty) or invalid (slot is occupied) */
   isValidDrop?: boolean;
+  /** Whether dropping here would swap the dragged piece with this slot's piece */
+  isSwapDrop?: boolean;
+  /** Whether dropping the dragged (or held) piece here would break a rule */
+  isRuleBreaking?: boolean;
+  /** Whether this slot's piece would conflict with the piece being dropped */
+  isConflicting?: boolean;
+  /** Whether a hint is currently pointing at this slot */
+  isHinted?: boolean;
+  /** Whether the keyboard cursor is on this slot */
+  isFocused?: boolean;
 }
 
 /**
@@ -32,6 +42,11 @@ interface BoardSlotProps {
  * - Empty slots: Light gray outline
  * - Hovered (valid): Green emissive glow
  * - Hovered (invalid/occupied): Red emissive glow
+ * - Hovered (swap): Purple emissive glow
+ * - Hovered or keyboard focus (breaks a rule): Amber emissive glow
+ * - Conflicting neighbour of the drop: Amber emissive glow
+ * - Hinted: Yellow emissive glow
+ * - Keyboard focus: Blue emissive glow (red if the slot is occupied)
  *
  * Position: Determined by slot.position from the board layout
  */
@@ -39,6 +54,11 @@ export const BoardSlot: React.FC<BoardSlotProps> = ({
   slot,
   isHovered = false,
   isValidDrop = true,
+  isSwapDrop = false,
+  isRuleBreaking = false,
+  isConflicting = false,
+  isHinted = false,
+  isFocused = false,
 }) => {
   // Slot geometry parameters - square outline
   const size = 1.1; // Larger to nearly touch adjacent slots (spacing is 1.2)
@@ -47,15 +67,32 @@ export const BoardSlot: React.FC<BoardSlotProps> = ({
   // Material properties based on state
   const getSlotColor = () => {
     if (isHovered) {
-      // Show green for valid drop, red for invalid/occupied
+      // Show amber for a rule-breaking drop, purple for a swap, green for
+      // valid drop, red for invalid/occupied
+      if (isRuleBreaking) return "#f59e0b";
+      if (isSwapDrop) return "#a855f7";
       return isValidDrop ? "#00ff00" : "#ff0000";
     }
+    if (isFocused) {
+      // Keyboard cursor, in the accent colour while the drop is valid
+      if (isRuleBreaking) return "#f59e0b";
+      return isValidDrop ? "#38bdf8" : "#ff0000";
+    }
+    if (isConflicting) {
+      // Neighbour the drop would break a rule with
+      return "#f59e0b";
+    }
+    if (isHinted) {
+      // Hint highlight
+      return "#facc15";
+    }
     // Default empty slot appearance - subtle outline
     return "#888888";
   };
 
   const color = getSlotColor();
-  const emissiveIntensity = isHovered ? 1.0 : 0.3;
+  const emissiveIntensity =
+    isHovered || isHinted || isFocused || isConflicting ? 1.0 : 0.3;
 
   // Create 4 thin boxes to form a square outline, rotated 45 degrees to match board
   return (
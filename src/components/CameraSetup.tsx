@@ -1,4 +1,5 @@
 import { OrbitControls } from "@react-three/drei";
+import * as THREE from "three";
 
 /**
  * CameraSetup component
@@ -10,6 +11,8 @@ import { OrbitControls } from "@react-three/drei";
  * Features:
  * - Right mouse drag for rotation
  * - Mouse wheel for zoom
+ * - Two-finger pinch/rotate on touch screens; one finger is left for moving
+ *   pieces, and the controls are disabled while a piece is held
  * - Distance constraints: min 8, max 25 units
  * - Polar angle constraints: 15° to 85° (prevents upside-down and flat views)
  * - Damping enabled with factor 0.05 for smooth motion
@@ -25,6 +28,8 @@ export function CameraSetup({ enabled = true }: { enabled?: boolean }) {
       enableRotate={true}
       // Enable zoom with mouse wheel (default behavior)
       enableZoom={true}
+      // Touch: one finger belongs to the pieces, two fingers pinch and rotate
+      touches={{ ONE: undefined, TWO: THREE.TOUCH.DOLLY_ROTATE }}
       // Disable panning to maintain board-centric view
       enablePan={false}
       // Distance constraints to prevent clipping and maintain visibility
@@ -0,0 +1,98 @@
+/**
+ * CandidateMarks Component
+ *
+ * Pencil marks over the empty board slots: a small grid of the staged gems
+ * that can still go in each slot, as worked out by the deduction assistant.
+ * Forced slots, with a single candidate, are outlined; a slot with no
+ * candidates left shows a cross. The marks ignore the pointer so they never
+ * get in the way of dragging.
+ */
+
+import React from "react";
+import { Html } from "@react-three/drei";
+import "./CandidateMarks.css";
+import { getGemPoints } from "../challengeCard";
+import { Deduction } from "../deduction";
+import { PIECE_COLOR_HEX } from "../gemAssets";
+import { BoardSlot } from "../types";
+
+interface CandidateMarksProps {
+  /** Candidates per empty slot */
+  deduction: Deduction;
+  /** Board slots, for their positions */
+  slots: BoardSlot[];
+}
+
+// Gems per row of a slot's grid
+const GRID_COLUMNS = 4;
+
+// Height of the marks above the board surface
+const MARK_HEIGHT = 0.15;
+
+export const CandidateMarks: React.FC<CandidateMarksProps> = ({
+  deduction,
+  slots,
+}) => {
+  return (
+    <group name="candidate-marks">
+      {deduction.slots.map(({ slotId, candidates, forced }) => {
+        const slot = slots.find((s) => s.id === slotId);
+        if (!slot) return null;
+
+        const rows = Math.max(1, Math.ceil(candidates.length / GRID_COLUMNS));
+        const label =
+          candidates.length === 0
+            ? "No gem fits here"
+            : `${forced ? "Forced: " : ""}${candidates
+                .map((p) => `${p.color} ${p.shape}`)
+                .join(", ")}`;
+
+        return (
+          <Html
+            key={slotId}
+            position={[
+              slot.position.x,
+              slot.position.y + MARK_HEIGHT,
+              slot.position.z,
+            ]}
+            center
+            distanceFactor={12}
+            zIndexRange={[10, 0]}
+            style={{ pointerEvents: "none" }}
+          >
+            <svg
+              className={`candidate-marks${forced ? " forced" : ""}${
+                candidates.length === 0 ? " empty" : ""
+              }`}
+              viewBox={`0 0 ${GRID_COLUMNS} ${rows}`}
+              role="img"
+              aria-label={`${slotId}: ${label}`}
+            >
+              <title>{label}</title>
+              {candidates.length === 0 ? (
+                <path
+                  className="candidate-cross"
+                  d={`M 1.6 ${rows / 2 - 0.4} l 0.8 0.8 m 0 -0.8 l -0.8 0.8`}
+                />
+              ) : (
+                candidates.map((piece, index) => (
+                  <polygon
+                    key={piece.id}
+                    className="candidate-gem"
+                    points={getGemPoints(
+                      piece.shape,
+                      (index % GRID_COLUMNS) + 0.5,
+                      Math.floor(index / GRID_COLUMNS) + 0.5,
+                      0.6,
+                    )}
+                    fill={PIECE_COLOR_HEX[piece.color]}
+                  />
+                ))
+              )}
+            </svg>
+          </Html>
+        );
+      })}
+    </group>
+  );
+};
@@ -0,0 +1,44 @@
+/**
+ * CandidatesToggle Component
+ *
+ * Switch for the deduction assistant. With it on, every empty slot shows
+ * pencil marks of the staged gems that can still go there, and forced
+ * slots are outlined. When the placed gems can no longer lead to a
+ * solution the toggle says so. Positioned at the bottom-right of the viewport, above
+ * the strict mode toggle.
+ */
+
+import React from "react";
+import "./CandidatesToggle.css";
+
+interface CandidatesToggleProps {
+  /** Whether the candidate marks are shown */
+  enabled: boolean;
+  /** Callback with the new setting when the toggle is clicked */
+  onToggle: (enabled: boolean) => void;
+  /** Whether the board as it stands cannot be completed */
+  stuck?: boolean;
+}
+
+export const CandidatesToggle: React.FC<CandidatesToggleProps> = ({
+  enabled,
+  onToggle,
+  stuck = false,
+}) => {
+  return (
+    <button
+      className={`candidates-toggle${enabled ? " active" : ""}${
+        stuck ? " stuck" : ""
+      }`}
+      onClick={() => onToggle(!enabled)}
+      aria-pressed={enabled}
+      title={
+        stuck
+          ? "The placed gems cannot lead to a solution"
+          : "Show which gems can still go in each empty slot"
+      }
+    >
+      Marks {stuck ? "Stuck" : enabled ? "On" : "Off"}
+    </button>
+  );
+};
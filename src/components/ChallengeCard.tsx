@@ -0,0 +1,188 @@
+/**
+ * ChallengeCard Component
+ *
+ * Draws a challenge as a crisp SVG card: the 13-slot diamond with the
+ * pre-placed gems in the same colors and shapes as the 3D pieces, dashed
+ * markers on slots that have a clue, and a list of the clues with icons.
+ * The drawing carries a text description (see describeChallengeCard), so
+ * screen readers get the same information as the picture.
+ */
+
+import React, { useId } from "react";
+import "./ChallengeCard.css";
+import {
+  describeChallengeCard,
+  getGemPoints,
+  layoutChallengeCard,
+} from "../challengeCard";
+import { describeConstraint } from "../challenges";
+import { PIECE_COLOR_HEX } from "../gemAssets";
+import { Challenge, ChallengeConstraint, PieceMatcher } from "../types";
+
+interface ChallengeCardProps {
+  /** Challenge to draw */
+  challenge: Challenge;
+}
+
+// Half the width of a slot square, in board units
+const SLOT_HALF_SIZE = 0.55;
+
+// Size of a clue icon relative to a gem on the board
+const ICON_SCALE = 0.55;
+
+/**
+ * Icon for a (partial) piece description
+ * Color only: a colored dot; shape only: an outline; both: a colored gem.
+ */
+const MatcherIcon: React.FC<{
+  match: PieceMatcher;
+  x: number;
+  y: number;
+  scale: number;
+}> = ({ match, x, y, scale }) => {
+  const fill = match.color ? PIECE_COLOR_HEX[match.color] : "none";
+  if (!match.shape) {
+    return (
+      <circle
+        className="card-matcher"
+        cx={x}
+        cy={y}
+        r={0.5 * scale}
+        fill={fill}
+      />
+    );
+  }
+  return (
+    <polygon
+      className="card-matcher"
+      points={getGemPoints(match.shape, x, y, scale)}
+      fill={fill}
+    />
+  );
+};
+
+/**
+ * Small standalone icon shown next to a clue in the list
+ */
+const ClueIcon: React.FC<{ constraint: ChallengeConstraint }> = ({
+  constraint,
+}) => {
+  if (constraint.type === "slot-match") {
+    return (
+      <svg className="clue-icon" viewBox="-1 -1 2 2" aria-hidden="true">
+        <rect
+          className="card-slot card-slot-clue"
+          x={-0.65}
+          y={-0.65}
+          width={1.3}
+          height={1.3}
+          transform="rotate(45)"
+        />
+        <MatcherIcon match={constraint.match} x={0} y={0} scale={1} />
+      </svg>
+    );
+  }
+
+  return (
+    <svg
+      className="clue-icon clue-icon-wide"
+      viewBox="-1 -1 4 2"
+      aria-hidden="true"
+    >
+      <MatcherIcon match={constraint.subject} x={0} y={0} scale={1.1} />
+      <MatcherIcon match={constraint.neighbor} x={2} y={0} scale={1.1} />
+      <g className="card-forbidden">
+        <circle cx={1} cy={0} r={0.4} />
+        <line x1={0.72} y1={0.28} x2={1.28} y2={-0.28} />
+      </g>
+      {constraint.neighborhood === "surrounding" && (
+        <circle className="card-area" cx={0} cy={0} r={0.95} />
+      )}
+    </svg>
+  );
+};
+
+export const ChallengeCard: React.FC<ChallengeCardProps> = ({ challenge }) => {
+  const titleId = useId();
+  const descriptionId = useId();
+  const layout = layoutChallengeCard(challenge);
+
+  return (
+    <figure className="challenge-card">
+      <svg
+        className="challenge-card-board"
+        viewBox={layout.viewBox}
+        role="img"
+        aria-labelledby={`${titleId} ${descriptionId}`}
+      >
+        <title id={titleId}>{challenge.name} board</title>
+        <desc id={descriptionId}>{describeChallengeCard(challenge)}</desc>
+
+        {layout.slots.map((slot) => (
+          <g key={slot.id}>
+            <rect
+              className={`card-slot${slot.clue ? " card-slot-clue" : ""}`}
+              x={-SLOT_HALF_SIZE}
+              y={-SLOT_HALF_SIZE}
+              width={SLOT_HALF_SIZE * 2}
+              height={SLOT_HALF_SIZE * 2}
+              rx={0.06}
+              transform={`translate(${slot.x} ${slot.y}) rotate(45)`}
+            />
+            {slot.gem && (
+              <>
+                <polygon
+                  className="card-gem"
+                  points={getGemPoints(slot.gem.shape, slot.x, slot.y, 0.8)}
+                  fill={PIECE_COLOR_HEX[slot.gem.color]}
+                />
+                <polygon
+                  className="card-gem-table"
+                  points={getGemPoints(slot.gem.shape, slot.x, slot.y, 0.6)}
+                />
+              </>
+            )}
+            {!slot.gem && slot.clue && (
+              <MatcherIcon
+                match={slot.clue}
+                x={slot.x}
+                y={slot.y}
+                scale={ICON_SCALE}
+              />
+            )}
+            <text
+              className="card-slot-number"
+              x={slot.x}
+              y={slot.y - SLOT_HALF_SIZE * 0.95}
+            >
+              {slot.number}
+            </text>
+          </g>
+        ))}
+      </svg>
+
+      <figcaption>
+        <ul className="challenge-clues">
+          <li>
+            {challenge.prePlaced.length} gem
+            {challenge.prePlaced.length === 1 ? "" : "s"} locked on the board
+          </li>
+          {challenge.constraints.map((constraint, index) => (
+            <li key={index}>
+              <ClueIcon constraint={constraint} />
+              {describeConstraint(constraint)}
+            </li>
+          ))}
+          {challenge.excludedPieces.length > 0 && (
+            <li>
+              Not used:{" "}
+              {challenge.excludedPieces
+                .map((id) => id.replace("piece-", "").replace("-", " "))
+                .join(", ")}
+            </li>
+          )}
+        </ul>
+      </figcaption>
+    </figure>
+  );
+};
@@ -1,93 +1,134 @@
 /**
  * ChallengeViewer Component
  *
- * Displays a specific challenge page from the challenges PDF.
- * Users can select different levels/challenges to view.
+ * Displays the active challenge: its name and difficulty, and a challenge
+ * card drawing its board and clues.
+ * Users can select different challenges to play, open today's daily
+ * challenge, or generate a new one.
  */
 
 import React, { useState } from "react";
-import { Document, Page, pdfjs } from "react-pdf";
-import "react-pdf/dist/Page/AnnotationLayer.css";
-import "react-pdf/dist/Page/TextLayer.css";
 import "./ChallengeViewer.css";
-import challengesPdf from "../assets/challenges.pdf";
-
-// Configure PDF.js worker
-pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+import { ChallengeCard } from "./ChallengeCard";
+import { CHALLENGE_DIFFICULTIES } from "../challenges";
+import { Challenge, ChallengeDifficulty } from "../types";
 
 interface ChallengeViewerProps {
-  /** Currently selected challenge/level number (1-based) */
-  selectedLevel: number;
-  /** Callback when level is changed */
-  onLevelChange: (level: number) => void;
+  /** All selectable challenges, in play order */
+  challenges: Challenge[];
+  /** ID of the currently selected challenge */
+  selectedChallengeId: string;
+  /** Callback when a different challenge is selected */
+  onChallengeChange: (challengeId: string) => void;
+  /** Callback to play a newly generated challenge (omit to hide) */
+  onGenerate?: (difficulty?: ChallengeDifficulty) => void;
+  /** Callback to play today's daily challenge (omit to hide) */
+  onPlayDaily?: () => void;
+  /** Consecutive days the daily challenge has been solved */
+  dailyStreak?: number;
+  /** Whether today's daily challenge has been solved */
+  isDailySolved?: boolean;
 }
 
 export const ChallengeViewer: React.FC<ChallengeViewerProps> = ({
-  selectedLevel,
-  onLevelChange,
+  challenges,
+  selectedChallengeId,
+  onChallengeChange,
+  onGenerate,
+  onPlayDaily,
+  dailyStreak = 0,
+  isDailySolved = false,
 }) => {
-  const [numPages, setNumPages] = useState<number>(0);
-  const [isLoading, setIsLoading] = useState(true);
-
-  const onDocumentLoadSuccess = ({ numPages }: { numPages: number }) => {
-    setNumPages(numPages);
-    setIsLoading(false);
-  };
+  const [generateDifficulty, setGenerateDifficulty] = useState<
+    ChallengeDifficulty | ""
+  >("");
 
-  const onDocumentLoadError = (error: Error) => {
-    console.error("Error loading PDF:", error);
-    setIsLoading(false);
-  };
+  const selectedIndex = Math.max(
+    0,
+    challenges.findIndex((c) => c.id === selectedChallengeId),
+  );
+  const challenge = challenges[selectedIndex];
 
   return (
     <div className="challenge-viewer">
       <div className="challenge-header">
-        <h2>Challenge {selectedLevel}</h2>
+        <h2>
+          {selectedIndex + 1}. {challenge.name}
+          <span
+            className={`difficulty-badge difficulty-${challenge.difficulty}`}
+          >
+            {challenge.difficulty}
+          </span>
+        </h2>
         <div className="level-selector">
           <button
-            onClick={() => onLevelChange(Math.max(1, selectedLevel - 1))}
-            disabled={selectedLevel <= 1}
+            onClick={() => onChallengeChange(challenges[selectedIndex - 1].id)}
+            disabled={selectedIndex <= 0}
             className="nav-button"
           >
             ← Previous
           </button>
           <select
-            value={selectedLevel}
-            onChange={(e) => onLevelChange(Number(e.target.value))}
+            value={challenge.id}
+            onChange={(e) => onChallengeChange(e.target.value)}
             className="level-dropdown"
           >
-            {Array.from({ length: numPages }, (_, i) => i + 1).map((level) => (
-              <option key={level} value={level}>
-                Level {level}
+            {challenges.map((c, index) => (
+              <option key={c.id} value={c.id}>
+                {index + 1}. {c.name}
               </option>
             ))}
           </select>
           <button
-            onClick={() => onLevelChange(Math.min(numPages, selectedLevel + 1))}
-            disabled={selectedLevel >= numPages}
+            onClick={() => onChallengeChange(challenges[selectedIndex + 1].id)}
+            disabled={selectedIndex >= challenges.length - 1}
             className="nav-button"
           >
             Next →
           </button>
+          {onPlayDaily && (
+            <button
+              onClick={onPlayDaily}
+              className="nav-button daily-button"
+              title={`Daily streak: ${dailyStreak} ${dailyStreak === 1 ? "day" : "days"}`}
+            >
+              Daily{isDailySolved && " ✓"}
+              {dailyStreak > 0 && (
+                <span className="daily-streak">{dailyStreak}</span>
+              )}
+            </button>
+          )}
         </div>
+        {onGenerate && (
+          <div className="level-selector generate-row">
+            <select
+              value={generateDifficulty}
+              onChange={(e) =>
+                setGenerateDifficulty(
+                  e.target.value as ChallengeDifficulty | "",
+                )
+              }
+              className="level-dropdown"
+              aria-label="Difficulty of the generated challenge"
+            >
+              <option value="">Any difficulty</option>
+              {CHALLENGE_DIFFICULTIES.map((difficulty) => (
+                <option key={difficulty} value={difficulty}>
+                  {difficulty}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => onGenerate(generateDifficulty || undefined)}
+              className="nav-button"
+            >
+              New random challenge
+            </button>
+          </div>
+        )}
       </div>
 
-      <div className="pdf-container">
-        {isLoading && <div className="loading">Loading challenges...</div>}
-        <Document
-          file={challengesPdf}
-          onLoadSuccess={onDocumentLoadSuccess}
-          onLoadError={onDocumentLoadError}
-          loading={<div className="loading">Loading PDF...</div>}
-        >
-          <Page
-            pageNumber={selectedLevel}
-            width={450}
-            renderTextLayer={false}
-            renderAnnotationLayer={false}
-          />
-        </Document>
-      </div>
+      <ChallengeCard challenge={challenge} />
     </div>
   );
 };
@@ -0,0 +1,103 @@
+/**
+ * CompletionOverlay Component
+ *
+ * Modal overlay shown when the active challenge has been solved.
+ * Reports the star score, elapsed time, move count and hints used, and
+ * offers to watch the replay or move on to the next challenge.
+ */
+
+import React from "react";
+import "./CompletionOverlay.css";
+import { formatDuration } from "../timeUtils";
+
+interface CompletionOverlayProps {
+  /** Name of the solved challenge */
+  challengeName: string;
+  /** Time taken to solve the challenge, in milliseconds */
+  elapsedMs: number;
+  /** Number of moves made while solving */
+  moves: number;
+  /** Number of hints used while solving */
+  hints: number;
+  /** Star score, from 1 to 3 */
+  stars: number;
+  /** Callback to watch the replay of the solve, omitted without one */
+  onWatchReplay?: () => void;
+  /** Callback to load the next challenge, omitted on the last challenge */
+  onNext?: () => void;
+  /** Callback to dismiss the overlay and keep looking at the board */
+  onClose: () => void;
+}
+
+export const CompletionOverlay: React.FC<CompletionOverlayProps> = ({
+  challengeName,
+  elapsedMs,
+  moves,
+  hints,
+  stars,
+  onWatchReplay,
+  onNext,
+  onClose,
+}) => {
+  return (
+    <div className="completion-backdrop">
+      <div
+        className="completion-overlay"
+        role="dialog"
+        aria-labelledby="completion-title"
+      >
+        <h2 id="completion-title">Challenge solved!</h2>
+        <p className="completion-name">{challengeName}</p>
+        <p className="completion-stars" aria-label={`${stars} of 3 stars`}>
+          {[1, 2, 3].map((star) => (
+            <span
+              key={star}
+              className={star <= stars ? "star earned" : "star"}
+              aria-hidden="true"
+            >
+              ★
+            </span>
+          ))}
+        </p>
+
+        <dl className="completion-stats">
+          <div>
+            <dt>Time</dt>
+            <dd>{formatDuration(elapsedMs)}</dd>
+          </div>
+          <div>
+            <dt>Moves</dt>
+            <dd>{moves}</dd>
+          </div>
+          <div>
+            <dt>Hints</dt>
+            <dd>{hints}</dd>
+          </div>
+        </dl>
+
+        <div className="completion-actions">
+          <button className="completion-button secondary" onClick={onClose}>
+            View board
+          </button>
+          {onWatchReplay && (
+            <button
+              className="completion-button secondary"
+              onClick={onWatchReplay}
+            >
+              Watch replay
+            </button>
+          )}
+          {onNext && (
+            <button
+              className="completion-button primary"
+              onClick={onNext}
+              autoFocus
+            >
+              Next challenge →
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
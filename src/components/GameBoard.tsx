@@ -30,13 +30,37 @@ import { BoardSlot } from "./BoardSlot";
  *
  * @param slots - Array of 13 board slots to render
  * @param hoveredSlot - ID of currently hovered slot (for visual feedback)
+ * @param hintedSlot - ID of the slot a hint is pointing at
+ * @param swapSlot - ID of the slot a drop would swap pieces with
+ * @param focusedSlot - ID of the slot under the keyboard cursor
+ * @param ruleBreakingSlot - ID of the slot where the drop being previewed
+ * would break an adjacency rule
+ * @param conflictingSlots - IDs of the slots whose pieces that drop would
+ * break a rule with
+ * @param strictMode - Whether rule-breaking drops are refused, which shows
+ * them as invalid rather than amber
  */
 interface GameBoardProps {
   slots: BoardSlotType[];
   hoveredSlot?: string | null;
+  hintedSlot?: string | null;
+  swapSlot?: string | null;
+  focusedSlot?: string | null;
+  ruleBreakingSlot?: string | null;
+  conflictingSlots?: string[];
+  strictMode?: boolean;
 }
 
-export const GameBoard: React.FC<GameBoardProps> = ({ slots, hoveredSlot }) => {
+export const GameBoard: React.FC<GameBoardProps> = ({
+  slots,
+  hoveredSlot,
+  hintedSlot,
+  swapSlot,
+  focusedSlot,
+  ruleBreakingSlot,
+  conflictingSlots = [],
+  strictMode = false,
+}) => {
   // Board dimensions based on slot layout
   // The diamond shape requires careful sizing to accommodate all slots
   const spacing = 1.2;
@@ -92,7 +116,10 @@ export const GameBoard: React.FC<GameBoardProps> = ({ slots, hoveredSlot }) => {
       {/* Render all 13 board slots - NOT inside rotated group since positions are already rotated */}
       {slots.map((slot) => {
         const isHovered = hoveredSlot === slot.id;
-        const isValidDrop = !slot.occupied; // Valid drop only if slot is empty
+        // Strict mode refuses drops that break a rule
+        const isRefused = strictMode && ruleBreakingSlot === slot.id;
+        // Valid drop only if slot is empty and strict mode allows it
+        const isValidDrop = !slot.occupied && !isRefused;
 
         return (
           <BoardSlot
@@ -100,6 +127,11 @@ export const GameBoard: React.FC<GameBoardProps> = ({ slots, hoveredSlot }) => {
             slot={slot}
             isHovered={isHovered}
             isValidDrop={isValidDrop}
+            isSwapDrop={swapSlot === slot.id && !isRefused}
+            isRuleBreaking={ruleBreakingSlot === slot.id && !strictMode}
+            isConflicting={conflictingSlots.includes(slot.id)}
+            isHinted={hintedSlot === slot.id}
+            isFocused={focusedSlot === slot.id}
           />
         );
       })}
@@ -0,0 +1,102 @@
+/**
+ * GemInstances Component
+ *
+ * Draws many gems at once with one instanced mesh per shape and color,
+ * sharing the cached geometry and materials from gemAssets.ts. Used for
+ * gems that never move or glow, such as a challenge's locked pieces on the
+ * board; pieces the player moves use DiamondPiece, which animates and
+ * highlights each gem.
+ *
+ * Picking still works per gem: the pointer event's instance index leads
+ * back to the gem, and onPick receives its ID.
+ */
+
+import React, { useLayoutEffect, useMemo, useRef } from "react";
+import { ThreeEvent } from "@react-three/fiber";
+import * as THREE from "three";
+import {
+  GemBatch,
+  GemDescriptor,
+  findBatchGem,
+  getBatchMatrices,
+  getGemGeometry,
+  getGemMaterial,
+  groupGemsForBatching,
+} from "../gemAssets";
+
+interface GemInstancesProps {
+  /** Gems to draw */
+  gems: GemDescriptor[];
+  /** Uniform scale applied to every gem */
+  scale?: number;
+  /** Called with the ID of the gem pressed and the pointer event behind it */
+  onPick?: (gemId: string, event: PointerEvent) => void;
+}
+
+interface GemBatchMeshProps {
+  batch: GemBatch;
+  scale: number;
+  onPick?: (gemId: string, event: PointerEvent) => void;
+}
+
+/**
+ * One instanced mesh for a batch of gems of the same shape and color
+ */
+function GemBatchMesh({ batch, scale, onPick }: GemBatchMeshProps) {
+  const ref = useRef<THREE.InstancedMesh>(null);
+
+  // Write every gem's transform into the instance matrices
+  useLayoutEffect(() => {
+    const mesh = ref.current;
+    if (!mesh) return;
+
+    getBatchMatrices(batch, scale).forEach((matrix, index) =>
+      mesh.setMatrixAt(index, matrix),
+    );
+    mesh.instanceMatrix.needsUpdate = true;
+    mesh.computeBoundingSphere();
+  }, [batch, scale]);
+
+  const handlePointerDown = (event: ThreeEvent<PointerEvent>) => {
+    const gem = findBatchGem(batch, event.instanceId);
+    if (!onPick || !gem) return;
+
+    // Stop propagation to prevent camera rotation/pan, as DiamondPiece does
+    event.stopPropagation();
+    onPick(gem.id, event.nativeEvent);
+  };
+
+  return (
+    <instancedMesh
+      ref={ref}
+      args={[
+        getGemGeometry(batch.shape),
+        getGemMaterial(batch.color),
+        batch.gems.length,
+      ]}
+      onPointerDown={handlePointerDown}
+    />
+  );
+}
+
+export const GemInstances: React.FC<GemInstancesProps> = ({
+  gems,
+  scale = 1,
+  onPick,
+}) => {
+  const batches = useMemo(() => groupGemsForBatching(gems), [gems]);
+
+  return (
+    <group name="gem-instances">
+      {batches.map((batch) => (
+        <GemBatchMesh
+          // The instance count is fixed per mesh, so a new count remounts it
+          key={`${batch.shape}:${batch.color}:${batch.gems.length}`}
+          batch={batch}
+          scale={scale}
+          onPick={onPick}
+        />
+      ))}
+    </group>
+  );
+};
@@ -0,0 +1,46 @@
+/**
+ * HintButton Component
+ *
+ * UI button that asks for the next hint, with a speech bubble showing the
+ * current hint text. Positioned below the reset button.
+ */
+
+import React from "react";
+import "./HintButton.css";
+
+interface HintButtonProps {
+  /** Callback to request the next hint */
+  onHint: () => void;
+  /** Text of the current hint, or null when no hint is showing */
+  message: string | null;
+  /** Whether a hint is being worked out */
+  isBusy?: boolean;
+  /** Number of hints used on the active challenge */
+  hintsUsed: number;
+}
+
+export const HintButton: React.FC<HintButtonProps> = ({
+  onHint,
+  message,
+  isBusy = false,
+  hintsUsed,
+}) => {
+  return (
+    <div className="hint-container">
+      <button
+        className="hint-button"
+        onClick={onHint}
+        disabled={isBusy}
+        title="Each press reveals a little more"
+      >
+        {isBusy ? "Thinking..." : "Hint"}
+        {hintsUsed > 0 && <span className="hint-count">{hintsUsed}</span>}
+      </button>
+      {message && (
+        <div className="hint-message" role="status">
+          {message}
+        </div>
+      )}
+    </div>
+  );
+};
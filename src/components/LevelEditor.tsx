@@ -0,0 +1,187 @@
+/**
+ * LevelEditor Component
+ *
+ * Side panel for authoring custom challenges. The author arranges gems on
+ * the board with the usual controls, then uses this panel to name the
+ * challenge, mark placed gems as fixed clues, check the clues with the
+ * solver and save. Custom challenges can be exported to and imported from
+ * JSON challenge packs. Replaces the challenge viewer at the top-left of
+ * the viewport while editing.
+ */
+
+import React, { useRef } from "react";
+import "./LevelEditor.css";
+import { CHALLENGE_DIFFICULTIES } from "../challenges";
+import { DraftCheck, EditorDraft, toggleClue } from "../levelEditor";
+import { ChallengeDifficulty, DiamondPiece } from "../types";
+
+interface LevelEditorProps {
+  /** Name, difficulty and clue marks entered so far */
+  draft: EditorDraft;
+  /** Callback with the updated draft */
+  onDraftChange: (draft: EditorDraft) => void;
+  /** Gems on the board, in slot order */
+  boardPieces: DiamondPiece[];
+  /** What stops the draft from being checked, if anything */
+  problem: string | null;
+  /** Solver verdict for the current draft, null until checked */
+  check: DraftCheck | null;
+  /** Whether the solver is still checking */
+  isChecking: boolean;
+  /** Callback to check the draft with the solver */
+  onCheck: () => void;
+  /** Callback to save the draft as a custom challenge */
+  onSave: () => void;
+  /** Number of saved custom challenges */
+  customCount: number;
+  /** Callback to download the custom challenges as a pack */
+  onExport: () => void;
+  /** Callback with a pack file chosen for import */
+  onImport: (file: File) => void;
+  /** Result of the last save, export or import, if any */
+  message: string | null;
+  /** Callback to leave the editor */
+  onExit: () => void;
+}
+
+export const LevelEditor: React.FC<LevelEditorProps> = ({
+  draft,
+  onDraftChange,
+  boardPieces,
+  problem,
+  check,
+  isChecking,
+  onCheck,
+  onSave,
+  customCount,
+  onExport,
+  onImport,
+  message,
+  onExit,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onImport(file);
+    // Allow the same file to be chosen again
+    event.target.value = "";
+  };
+
+  return (
+    <div className="level-editor" aria-label="Level editor">
+      <div className="level-editor-header">
+        <h2>Level editor</h2>
+        <button className="editor-button secondary" onClick={onExit}>
+          Exit
+        </button>
+      </div>
+
+      <p className="editor-help">
+        Arrange gems on the board, then mark the ones players start with as
+        fixed clues.
+      </p>
+
+      <div className="editor-fields">
+        <label>
+          Name
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => onDraftChange({ ...draft, name: e.target.value })}
+            placeholder="My challenge"
+          />
+        </label>
+        <label>
+          Difficulty
+          <select
+            value={draft.difficulty}
+            onChange={(e) =>
+              onDraftChange({
+                ...draft,
+                difficulty: e.target.value as ChallengeDifficulty,
+              })
+            }
+          >
+            {CHALLENGE_DIFFICULTIES.map((difficulty) => (
+              <option key={difficulty} value={difficulty}>
+                {difficulty}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <fieldset className="editor-clues">
+        <legend>Fixed clues</legend>
+        {boardPieces.length === 0 && (
+          <p className="editor-empty">No gems on the board yet.</p>
+        )}
+        {boardPieces.map((piece) => (
+          <label key={piece.id} className="editor-clue">
+            <input
+              type="checkbox"
+              checked={draft.clues.includes(piece.id)}
+              onChange={() => onDraftChange(toggleClue(draft, piece.id))}
+            />
+            Slot {piece.slotId?.replace("slot-", "")}: {piece.color}{" "}
+            {piece.shape}
+          </label>
+        ))}
+      </fieldset>
+
+      <div className="editor-actions">
+        <button
+          className="editor-button"
+          onClick={onCheck}
+          disabled={problem !== null || isChecking}
+        >
+          {isChecking ? "Checking..." : "Check solution"}
+        </button>
+        <button
+          className="editor-button"
+          onClick={onSave}
+          disabled={check?.status !== "unique"}
+        >
+          Save challenge
+        </button>
+      </div>
+
+      <p
+        className={`editor-status${check ? ` editor-status-${check.status}` : ""}`}
+        role="status"
+      >
+        {problem ?? check?.message ?? "Check the clues before saving."}
+      </p>
+
+      <div className="editor-actions">
+        <button
+          className="editor-button secondary"
+          onClick={onExport}
+          disabled={customCount === 0}
+        >
+          Export pack ({customCount})
+        </button>
+        <button
+          className="editor-button secondary"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          Import pack
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          hidden
+        />
+      </div>
+
+      {message && (
+        <p className="editor-message" role="status">
+          {message}
+        </p>
+      )}
+    </div>
+  );
+};
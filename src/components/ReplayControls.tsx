@@ -0,0 +1,121 @@
+/**
+ * ReplayControls Component
+ *
+ * Control bar for watching a replay: play/pause, a scrub bar over the
+ * whole recording, the playback speed and the time. The bar runs the
+ * playback clock itself and reports each new time through onSeek; the
+ * board shows the replayed state meanwhile. Positioned at the bottom
+ * center of the viewport.
+ */
+
+import React, { useEffect, useRef, useState } from "react";
+import "./ReplayControls.css";
+import { formatDuration } from "../timeUtils";
+
+interface ReplayControlsProps {
+  /** Name of the challenge played */
+  challengeName: string;
+  /** Length of the recording, in milliseconds */
+  durationMs: number;
+  /** Time shown on the board, in milliseconds */
+  timeMs: number;
+  /** Callback to show another time */
+  onSeek: (timeMs: number) => void;
+  /** Callback to download the replay as JSON */
+  onExport: () => void;
+  /** Callback to stop watching and return to the game */
+  onClose: () => void;
+}
+
+// Playback speeds on offer, as multiples of real time
+const SPEEDS = [0.5, 1, 2, 4];
+
+export const ReplayControls: React.FC<ReplayControlsProps> = ({
+  challengeName,
+  durationMs,
+  timeMs,
+  onSeek,
+  onExport,
+  onClose,
+}) => {
+  const [isPlaying, setIsPlaying] = useState<boolean>(true);
+  const [speed, setSpeed] = useState<number>(1);
+  const atEnd = timeMs >= durationMs;
+
+  // The clock reads the latest time and callback without restarting
+  const timeRef = useRef(timeMs);
+  const onSeekRef = useRef(onSeek);
+  timeRef.current = timeMs;
+  onSeekRef.current = onSeek;
+
+  // Advance the playback every frame while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const next = timeRef.current + (now - last) * speed;
+      last = now;
+      onSeekRef.current(Math.min(next, durationMs));
+      if (next >= durationMs) {
+        setIsPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, speed, durationMs]);
+
+  const togglePlaying = () => {
+    // Playing from the end starts over
+    if (!isPlaying && atEnd) onSeek(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  return (
+    <div className="replay-controls" role="group" aria-label="Replay controls">
+      <span className="replay-title">Replay: {challengeName}</span>
+      <button
+        className="replay-button"
+        onClick={togglePlaying}
+        aria-label={isPlaying ? "Pause" : "Play"}
+      >
+        {isPlaying ? "❚❚" : "▶"}
+      </button>
+      <input
+        className="replay-scrub"
+        type="range"
+        min={0}
+        max={durationMs}
+        step={10}
+        value={Math.min(timeMs, durationMs)}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        aria-label="Replay position"
+      />
+      <span className="replay-time">
+        {formatDuration(timeMs)} / {formatDuration(durationMs)}
+      </span>
+      <select
+        className="replay-speed"
+        value={speed}
+        onChange={(e) => setSpeed(Number(e.target.value))}
+        aria-label="Playback speed"
+      >
+        {SPEEDS.map((s) => (
+          <option key={s} value={s}>
+            {s}×
+          </option>
+        ))}
+      </select>
+      <button className="replay-button secondary" onClick={onExport}>
+        Export
+      </button>
+      <button className="replay-button secondary" onClick={onClose}>
+        Close
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+/**
+ * ResumePrompt Component
+ *
+ * Panel shown when a challenge is opened with a saved board in progress.
+ * The saved board is already on screen; the player either keeps it or
+ * starts the challenge over.
+ */
+
+import React from "react";
+import "./ResumePrompt.css";
+
+interface ResumePromptProps {
+  /** Name of the challenge with a saved board */
+  challengeName: string;
+  /** Number of pieces the player had placed */
+  placedCount: number;
+  /** Callback to keep playing the saved board */
+  onContinue: () => void;
+  /** Callback to discard the saved board */
+  onStartOver: () => void;
+}
+
+export const ResumePrompt: React.FC<ResumePromptProps> = ({
+  challengeName,
+  placedCount,
+  onContinue,
+  onStartOver,
+}) => {
+  return (
+    <div
+      className="resume-prompt"
+      role="dialog"
+      aria-labelledby="resume-prompt-title"
+    >
+      <h3 id="resume-prompt-title">Welcome back!</h3>
+      <p>
+        You have {placedCount} {placedCount === 1 ? "gem" : "gems"} placed on{" "}
+        <strong>{challengeName}</strong>.
+      </p>
+      <div className="resume-actions">
+        <button className="resume-button secondary" onClick={onStartOver}>
+          Start over
+        </button>
+        <button
+          className="resume-button primary"
+          onClick={onContinue}
+          autoFocus
+        >
+          Continue
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+/**
+ * ShareButton Component
+ *
+ * UI button that copies a link to the current board, with a message bubble
+ * for the result. The bubble also explains why a shared link that failed to
+ * open was rejected. Positioned above the undo/redo buttons.
+ */
+
+import React from "react";
+import "./ShareButton.css";
+
+interface ShareButtonProps {
+  /** Callback to copy a link to the current board */
+  onShare: () => void;
+  /** Message about the last share or shared link, or null for none */
+  message: string | null;
+  /** Callback to hide the message */
+  onDismiss: () => void;
+}
+
+export const ShareButton: React.FC<ShareButtonProps> = ({
+  onShare,
+  message,
+  onDismiss,
+}) => {
+  return (
+    <div className="share-container">
+      {message && (
+        <div className="share-message" role="status">
+          <span>{message}</span>
+          <button
+            className="share-dismiss"
+            onClick={onDismiss}
+            aria-label="Dismiss"
+          >
+            ×
+          </button>
+        </div>
+      )}
+      <button
+        className="share-button"
+        onClick={onShare}
+        title="Copy a link to this board"
+      >
+        Share
+      </button>
+    </div>
+  );
+};
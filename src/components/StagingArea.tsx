@@ -27,8 +27,14 @@ interface StagingAreaProps {
   hoveredPiece: string | null;
   /** ID of the piece currently being dragged, or null */
   draggedPiece: string | null;
+  /** ID of the piece a hint is pointing at, or null */
+  hintedPiece?: string | null;
+  /** ID of the piece with keyboard focus, or null */
+  focusedPiece?: string | null;
+  /** Seconds between pieces starting to move, e.g. to stagger a reset */
+  staggerDelay?: number;
   /** Click handler for piece interaction */
-  onPieceClick?: (pieceId: string) => void;
+  onPieceClick?: (pieceId: string, event: PointerEvent) => void;
 }
 
 /**
@@ -43,13 +49,18 @@ interface StagingAreaProps {
  *
  * Visual feedback:
  * - Hovered pieces are highlighted
+ * - The piece with keyboard focus is ringed
  * - Dragged pieces are elevated and scaled
+ * - Pieces returning together (after a reset) can be staggered
  * - Pieces on the board are not rendered in the staging area
  */
 export const StagingArea: React.FC<StagingAreaProps> = ({
   pieces,
   hoveredPiece,
   draggedPiece,
+  hintedPiece = null,
+  focusedPiece = null,
+  staggerDelay = 0,
   onPieceClick,
 }) => {
   // Filter to only show pieces that are not on the board
@@ -58,12 +69,15 @@ export const StagingArea: React.FC<StagingAreaProps> = ({
 
   return (
     <group name="staging-area">
-      {stagedPieces.map((piece) => (
+      {stagedPieces.map((piece, index) => (
         <DiamondPiece
           key={piece.id}
           piece={piece}
           isHovered={hoveredPiece === piece.id}
           isDragged={draggedPiece === piece.id}
+          isHinted={hintedPiece === piece.id}
+          isFocused={focusedPiece === piece.id}
+          animationDelay={index * staggerDelay}
           onClick={onPieceClick}
         />
       ))}
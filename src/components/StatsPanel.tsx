@@ -0,0 +1,257 @@
+/**
+ * StatsPanel Component
+ *
+ * Modal dashboard of the player's statistics, built from the stored session
+ * records: solves and times per difficulty, hint usage, star average, play
+ * streaks and a chart of one challenge's solve times. The records can be
+ * downloaded as CSV or JSON.
+ *
+ * The latest replay of the charted challenge can be watched from here, and
+ * replays exported elsewhere can be imported to watch them.
+ */
+
+import React, { useRef, useState } from "react";
+import "./StatsPanel.css";
+import { CHALLENGE_DIFFICULTIES } from "../challenges";
+import { getDateKey } from "../daily";
+import {
+  SessionRecord,
+  SolveSummary,
+  getChallengeHistory,
+  listRecordedChallenges,
+  summarizeStats,
+} from "../stats";
+import { Replay } from "../replay";
+import { formatDuration } from "../timeUtils";
+
+interface StatsPanelProps {
+  /** Every stored session record */
+  records: SessionRecord[];
+  /** Callback to download the records as CSV */
+  onExportCsv: () => void;
+  /** Callback to download the records as JSON */
+  onExportJson: () => void;
+  /** Callback to watch a stored replay */
+  onWatchReplay: (replay: Replay) => void;
+  /** Callback with a replay file chosen for import */
+  onImportReplay: (file: File) => void;
+  /** Result of the last replay import, if any */
+  message: string | null;
+  /** Callback to close the panel */
+  onClose: () => void;
+}
+
+// Size of the history chart's drawing area, in SVG units
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 100;
+
+const formatTime = (ms: number | null) =>
+  ms === null ? "–" : formatDuration(ms);
+
+/**
+ * Bar chart of a challenge's solve times, oldest on the left
+ */
+const HistoryChart: React.FC<{ history: SessionRecord[] }> = ({ history }) => {
+  const longest = Math.max(...history.map((r) => r.elapsedMs), 1);
+  const slot = CHART_WIDTH / history.length;
+  const barWidth = Math.min(slot * 0.7, 40);
+
+  return (
+    <svg
+      className="stats-chart"
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      role="img"
+      aria-label={`Solve times: ${history
+        .map((r) => formatDuration(r.elapsedMs))
+        .join(", ")}`}
+    >
+      {history.map((record, index) => {
+        const height = Math.max(2, (record.elapsedMs / longest) * CHART_HEIGHT);
+        return (
+          <rect
+            key={`${record.solvedAt}-${index}`}
+            className={`stats-bar stars-${record.stars}`}
+            x={index * slot + (slot - barWidth) / 2}
+            y={CHART_HEIGHT - height}
+            width={barWidth}
+            height={height}
+            rx={2}
+          >
+            <title>
+              {new Date(record.solvedAt).toLocaleString()}:{" "}
+              {formatDuration(record.elapsedMs)}, {record.moves} moves,{" "}
+              {record.hints} hints, {record.stars}★
+            </title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+};
+
+export const StatsPanel: React.FC<StatsPanelProps> = ({
+  records,
+  onExportCsv,
+  onExportJson,
+  onWatchReplay,
+  onImportReplay,
+  message,
+  onClose,
+}) => {
+  const stats = summarizeStats(records, getDateKey(new Date()));
+  const recorded = listRecordedChallenges(records);
+  const [chartChallengeId, setChartChallengeId] = useState<string>(
+    () => recorded[0]?.id ?? "",
+  );
+  const history = getChallengeHistory(records, chartChallengeId);
+  const latestReplay = [...history].reverse().find((r) => r.replay)?.replay;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onImportReplay(file);
+    // Allow the same file to be chosen again
+    event.target.value = "";
+  };
+
+  const summaryRow = (label: string, summary: SolveSummary) => (
+    <tr key={label}>
+      <th scope="row">{label}</th>
+      <td>{summary.solved}</td>
+      <td>{summary.attempts}</td>
+      <td>{formatTime(summary.bestMs)}</td>
+      <td>{formatTime(summary.medianMs)}</td>
+    </tr>
+  );
+
+  return (
+    <div className="stats-backdrop">
+      <div className="stats-panel" role="dialog" aria-labelledby="stats-title">
+        <div className="stats-header">
+          <h2 id="stats-title">Statistics</h2>
+          <button className="stats-button secondary" onClick={onClose}>
+            Close
+          </button>
+        </div>
+
+        {records.length === 0 ? (
+          <p className="stats-empty">
+            Solve a challenge to start collecting statistics.
+          </p>
+        ) : (
+          <>
+            <dl className="stats-highlights">
+              <div>
+                <dt>Current streak</dt>
+                <dd>
+                  {stats.currentStreak}{" "}
+                  {stats.currentStreak === 1 ? "day" : "days"}
+                </dd>
+              </div>
+              <div>
+                <dt>Longest streak</dt>
+                <dd>
+                  {stats.longestStreak}{" "}
+                  {stats.longestStreak === 1 ? "day" : "days"}
+                </dd>
+              </div>
+              <div>
+                <dt>Average stars</dt>
+                <dd>{stats.averageStars?.toFixed(1) ?? "–"}</dd>
+              </div>
+              <div>
+                <dt>Hints used</dt>
+                <dd>
+                  {stats.totalHints}
+                  <span className="stats-note">
+                    {" "}
+                    in {stats.hintedSolves} of {stats.overall.attempts} solves
+                  </span>
+                </dd>
+              </div>
+            </dl>
+
+            <table className="stats-table">
+              <thead>
+                <tr>
+                  <th scope="col">Difficulty</th>
+                  <th scope="col">Solved</th>
+                  <th scope="col">Solves</th>
+                  <th scope="col">Best</th>
+                  <th scope="col">Median</th>
+                </tr>
+              </thead>
+              <tbody>
+                {CHALLENGE_DIFFICULTIES.map((difficulty) =>
+                  summaryRow(difficulty, stats.byDifficulty[difficulty]),
+                )}
+              </tbody>
+              <tfoot>{summaryRow("All", stats.overall)}</tfoot>
+            </table>
+
+            <div className="stats-history">
+              <label>
+                History
+                <select
+                  value={chartChallengeId}
+                  onChange={(e) => setChartChallengeId(e.target.value)}
+                >
+                  {recorded.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {history.length > 0 && <HistoryChart history={history} />}
+              {latestReplay && (
+                <button
+                  className="stats-button secondary"
+                  onClick={() => onWatchReplay(latestReplay)}
+                >
+                  Watch latest replay
+                </button>
+              )}
+            </div>
+          </>
+        )}
+
+        <div className="stats-actions">
+          <button
+            className="stats-button"
+            onClick={onExportCsv}
+            disabled={records.length === 0}
+          >
+            Export CSV
+          </button>
+          <button
+            className="stats-button"
+            onClick={onExportJson}
+            disabled={records.length === 0}
+          >
+            Export JSON
+          </button>
+          <button
+            className="stats-button secondary"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            Import replay
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileChange}
+            hidden
+          />
+        </div>
+
+        {message && (
+          <p className="stats-message" role="status">
+            {message}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
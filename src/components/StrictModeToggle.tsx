@@ -0,0 +1,34 @@
+/**
+ * StrictModeToggle Component
+ *
+ * Switch for strict mode. With strict mode on, a diamond dropped where it
+ * would break an adjacency rule goes back where it came from instead of
+ * being placed. Positioned at the bottom-right of the viewport, above the
+ * swap mode toggle.
+ */
+
+import React from "react";
+import "./StrictModeToggle.css";
+
+interface StrictModeToggleProps {
+  /** Whether strict mode is on */
+  enabled: boolean;
+  /** Callback with the new setting when the toggle is clicked */
+  onToggle: (enabled: boolean) => void;
+}
+
+export const StrictModeToggle: React.FC<StrictModeToggleProps> = ({
+  enabled,
+  onToggle,
+}) => {
+  return (
+    <button
+      className={`strict-mode-toggle${enabled ? " active" : ""}`}
+      onClick={() => onToggle(!enabled)}
+      aria-pressed={enabled}
+      title="Refuse drops that break a rule"
+    >
+      Strict {enabled ? "On" : "Off"}
+    </button>
+  );
+};
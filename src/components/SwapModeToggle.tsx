@@ -0,0 +1,34 @@
+/**
+ * SwapModeToggle Component
+ *
+ * Switch for swap mode. With swap mode on, dropping a piece onto another
+ * piece on the board exchanges the two instead of sending the dragged piece
+ * back to the staging area. Positioned at the bottom-right of the viewport,
+ * above the share button.
+ */
+
+import React from "react";
+import "./SwapModeToggle.css";
+
+interface SwapModeToggleProps {
+  /** Whether swap mode is on */
+  enabled: boolean;
+  /** Callback with the new setting when the toggle is clicked */
+  onToggle: (enabled: boolean) => void;
+}
+
+export const SwapModeToggle: React.FC<SwapModeToggleProps> = ({
+  enabled,
+  onToggle,
+}) => {
+  return (
+    <button
+      className={`swap-mode-toggle${enabled ? " active" : ""}`}
+      onClick={() => onToggle(!enabled)}
+      aria-pressed={enabled}
+      title="Drop a diamond onto another to swap them"
+    >
+      Swap {enabled ? "On" : "Off"}
+    </button>
+  );
+};
@@ -0,0 +1,49 @@
+/**
+ * UndoRedoButtons Component
+ *
+ * Pair of buttons that step backwards and forwards through the board history.
+ * Positioned at the bottom-right of the viewport; Ctrl+Z and Ctrl+Shift+Z do
+ * the same from the keyboard.
+ */
+
+import React from "react";
+import "./UndoRedoButtons.css";
+
+interface UndoRedoButtonsProps {
+  /** Callback to undo the last board action */
+  onUndo: () => void;
+  /** Callback to redo the last undone action */
+  onRedo: () => void;
+  /** Whether there is anything to undo */
+  canUndo: boolean;
+  /** Whether there is anything to redo */
+  canRedo: boolean;
+}
+
+export const UndoRedoButtons: React.FC<UndoRedoButtonsProps> = ({
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+}) => {
+  return (
+    <div className="undo-redo-container">
+      <button
+        className="undo-redo-button"
+        onClick={onUndo}
+        disabled={!canUndo}
+        title="Undo (Ctrl+Z)"
+      >
+        Undo
+      </button>
+      <button
+        className="undo-redo-button"
+        onClick={onRedo}
+        disabled={!canRedo}
+        title="Redo (Ctrl+Shift+Z)"
+      >
+        Redo
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+/**
+ * usePieceAnimation Hook
+ *
+ * Eases the object it is attached to towards a target position, one tween
+ * per change of target (see animation.ts). Runs inside the render loop with
+ * useFrame and writes the drawn position straight onto the object, so the
+ * game state is never touched.
+ *
+ * A piece is drawn by a different component on the board than in the
+ * staging area, so drawn positions are kept per piece ID outside React: a
+ * piece picks up its movement where it was last drawn when it is remounted.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { useFrame } from "@react-three/fiber";
+import * as THREE from "three";
+import {
+  PieceTween,
+  REDUCED_MOTION_QUERY,
+  areAnimationsEnabled,
+  createTween,
+  isTweenFinished,
+  prefersReducedMotion,
+  sampleTween,
+} from "../animation";
+
+// Last drawn position of every animated piece, by piece ID
+const drawnPositions = new Map<string, THREE.Vector3>();
+
+interface PieceAnimationOptions {
+  /** Follow the target without easing, e.g. while the piece is dragged */
+  immediate?: boolean;
+  /** Height of the arc for the next movement */
+  arcHeight?: number;
+  /** Seconds to wait before the next movement starts */
+  delay?: number;
+}
+
+/**
+ * Tracks the player's reduced motion preference as it changes
+ */
+function useReducedMotion(): boolean {
+  const [reduced, setReduced] = useState(prefersReducedMotion);
+
+  useEffect(() => {
+    if (typeof window === "undefined" || !window.matchMedia) return;
+
+    const query = window.matchMedia(REDUCED_MOTION_QUERY);
+    const update = () => setReduced(query.matches);
+    query.addEventListener("change", update);
+    return () => query.removeEventListener("change", update);
+  }, []);
+
+  return reduced;
+}
+
+/**
+ * Animates an object towards a target position
+ *
+ * @param id - ID of the piece being animated
+ * @param target - Where the object should end up
+ * @param options - Whether to skip easing, and the arc and delay to use
+ * @returns A ref to attach to the object, and its initial position
+ */
+export function usePieceAnimation<T extends THREE.Object3D>(
+  id: string,
+  target: THREE.Vector3,
+  { immediate = false, arcHeight = 0, delay = 0 }: PieceAnimationOptions = {},
+) {
+  const ref = useRef<T>(null);
+  const reducedMotion = useReducedMotion();
+  const [initialPosition] = useState(() =>
+    (drawnPositions.get(id) ?? target).clone(),
+  );
+
+  const shown = useRef(initialPosition.clone());
+  const tween = useRef<PieceTween | null>(null);
+  const elapsed = useRef(0);
+
+  useFrame((_, delta) => {
+    const object = ref.current;
+    if (!object) return;
+
+    drawnPositions.set(id, shown.current);
+
+    if (immediate || reducedMotion || !areAnimationsEnabled()) {
+      tween.current = null;
+      shown.current.copy(target);
+      object.position.copy(target);
+      return;
+    }
+
+    // Start a new movement from wherever the piece is drawn now
+    if (!tween.current || !tween.current.to.equals(target)) {
+      if (shown.current.equals(target)) return;
+      tween.current = createTween(shown.current, target, { arcHeight, delay });
+      elapsed.current = 0;
+    }
+
+    elapsed.current += delta;
+    shown.current.copy(sampleTween(tween.current, elapsed.current));
+    object.position.copy(shown.current);
+
+    if (isTweenFinished(tween.current, elapsed.current)) {
+      tween.current = null;
+    }
+  });
+
+  return { ref, initialPosition };
+}
@@ -0,0 +1,122 @@
+/**
+ * Unit tests for the daily challenge
+ *
+ * Tests verify:
+ * - Dates map to local date keys and back, across month ends
+ * - Each date gets one fixed challenge, different from other days
+ * - Results are kept per date and make up the streak
+ * - Stored results are validated
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  DailyResult,
+  addDays,
+  getDailyChallenge,
+  getDailyChallengeById,
+  getDailyChallengeId,
+  getDailySeed,
+  getDailyStreak,
+  getDateKey,
+  parseDailyChallengeId,
+  parseDailyResults,
+  recordDailyResult,
+} from "./daily";
+
+const result = (date: string): DailyResult => ({
+  date,
+  elapsedMs: 60000,
+  moves: 12,
+  hints: 0,
+});
+
+describe("date keys", () => {
+  it("use the local calendar date", () => {
+    expect(getDateKey(new Date(2024, 0, 5, 23, 59))).toBe("2024-01-05");
+  });
+
+  it("move across month and year ends", () => {
+    expect(addDays("2024-02-28", 1)).toBe("2024-02-29");
+    expect(addDays("2024-03-01", -1)).toBe("2024-02-29");
+    expect(addDays("2024-12-31", 1)).toBe("2025-01-01");
+  });
+});
+
+describe("daily challenge IDs", () => {
+  it("round-trip the date", () => {
+    expect(parseDailyChallengeId(getDailyChallengeId("2024-05-01"))).toBe(
+      "2024-05-01",
+    );
+  });
+
+  it("reject other IDs and impossible dates", () => {
+    expect(parseDailyChallengeId("starter-01")).toBeNull();
+    expect(parseDailyChallengeId("daily-2024-02-31")).toBeNull();
+    expect(parseDailyChallengeId("daily-yesterday")).toBeNull();
+    expect(getDailyChallengeById("generated-5")).toBeUndefined();
+  });
+});
+
+describe("getDailyChallenge", () => {
+  it("gives everyone the same board for a date", () => {
+    const challenge = getDailyChallenge("2024-05-01");
+
+    expect(challenge.id).toBe("daily-2024-05-01");
+    expect(challenge.name).toBe("Daily 2024-05-01");
+    expect(getDailyChallengeById("daily-2024-05-01")).toEqual(challenge);
+    expect(challenge.prePlaced.length).toBeGreaterThan(0);
+  });
+
+  it("changes from day to day", () => {
+    expect(getDailySeed("2024-05-01")).not.toBe(getDailySeed("2024-05-02"));
+    expect(getDailyChallenge("2024-05-02").prePlaced).not.toEqual(
+      getDailyChallenge("2024-05-01").prePlaced,
+    );
+  });
+});
+
+describe("recordDailyResult", () => {
+  it("keeps the first result for a date", () => {
+    const first = recordDailyResult({}, result("2024-05-01"));
+    const replay = recordDailyResult(first, {
+      ...result("2024-05-01"),
+      moves: 99,
+    });
+
+    expect(replay).toBe(first);
+    expect(replay["2024-05-01"].moves).toBe(12);
+  });
+});
+
+describe("getDailyStreak", () => {
+  const results = {
+    "2024-04-28": result("2024-04-28"),
+    "2024-04-30": result("2024-04-30"),
+    "2024-05-01": result("2024-05-01"),
+  };
+
+  it("counts consecutive solved days up to today", () => {
+    expect(getDailyStreak(results, "2024-05-01")).toBe(2);
+  });
+
+  it("keeps yesterday's streak while today is unsolved", () => {
+    expect(getDailyStreak(results, "2024-05-02")).toBe(2);
+  });
+
+  it("resets after a missed day", () => {
+    expect(getDailyStreak(results, "2024-05-03")).toBe(0);
+  });
+});
+
+describe("parseDailyResults", () => {
+  it("drops malformed entries", () => {
+    expect(
+      parseDailyResults({
+        "2024-05-01": result("2024-05-01"),
+        "2024-05-02": { date: "2024-05-02", moves: "many" },
+        nonsense: result("nonsense"),
+      }),
+    ).toEqual({ "2024-05-01": result("2024-05-01") });
+    expect(parseDailyResults(null)).toEqual({});
+  });
+});
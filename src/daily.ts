@@ -0,0 +1,182 @@
+/**
+ * Daily challenge
+ *
+ * Each local calendar day has its own generated challenge. The seed comes
+ * from the date alone, so everyone gets the same board on the same day
+ * without a server. Results are kept per date, and consecutive solved days
+ * make up the player's streak.
+ */
+
+import { generateChallenge } from "./generator";
+import { fnv1a } from "./hash";
+import { Challenge } from "./types";
+
+/**
+ * Prefix of daily challenge IDs, followed by the date ("daily-2024-05-01")
+ */
+export const DAILY_CHALLENGE_PREFIX = "daily-";
+
+/**
+ * How a daily challenge was solved
+ */
+export interface DailyResult {
+  /** Local date of the challenge (YYYY-MM-DD) */
+  date: string;
+
+  /** Time taken to solve it (milliseconds) */
+  elapsedMs: number;
+
+  /** Moves made */
+  moves: number;
+
+  /** Hints used */
+  hints: number;
+}
+
+/**
+ * Results of every solved daily challenge, keyed by date
+ */
+export type DailyResults = Record<string, DailyResult>;
+
+const DATE_KEY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Formats a date as a local YYYY-MM-DD key
+ */
+export function getDateKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Moves a date key by a number of days
+ *
+ * @param dateKey - Date as YYYY-MM-DD
+ * @param days - Days to add (negative to go back)
+ */
+export function addDays(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  // Noon keeps daylight saving changes from moving the date
+  return getDateKey(new Date(year, month - 1, day + days, 12));
+}
+
+/**
+ * Derives the generator seed for a date
+ * A 32-bit FNV-1a hash of the date key, limited to the seeds challenge IDs
+ * can carry.
+ */
+export function getDailySeed(dateKey: string): number {
+  return fnv1a(`daily:${dateKey}`) % 1_000_000_000;
+}
+
+/**
+ * Builds the challenge ID for a date
+ */
+export function getDailyChallengeId(dateKey: string): string {
+  return `${DAILY_CHALLENGE_PREFIX}${dateKey}`;
+}
+
+/**
+ * Reads the date back from a daily challenge ID
+ *
+ * @returns The date key, or null when the ID is not a valid daily one
+ */
+export function parseDailyChallengeId(id: string): string | null {
+  if (!id.startsWith(DAILY_CHALLENGE_PREFIX)) return null;
+
+  const dateKey = id.slice(DAILY_CHALLENGE_PREFIX.length);
+  const match = DATE_KEY_PATTERN.exec(dateKey);
+  if (!match) return null;
+
+  // Reject dates such as 2024-02-31 that roll over into another month
+  const [, year, month, day] = match.map(Number);
+  return getDateKey(new Date(year, month - 1, day, 12)) === dateKey
+    ? dateKey
+    : null;
+}
+
+const dailyByDate = new Map<string, Challenge>();
+
+/**
+ * Returns the daily challenge for a date, generating it on first use
+ */
+export function getDailyChallenge(dateKey: string): Challenge {
+  let challenge = dailyByDate.get(dateKey);
+  if (!challenge) {
+    challenge = {
+      ...generateChallenge(getDailySeed(dateKey)).challenge,
+      id: getDailyChallengeId(dateKey),
+      name: `Daily ${dateKey}`,
+    };
+    dailyByDate.set(dateKey, challenge);
+  }
+  return challenge;
+}
+
+/**
+ * Looks up a daily challenge by ID
+ *
+ * @returns The challenge, or undefined when the ID is not a daily one
+ */
+export function getDailyChallengeById(id: string): Challenge | undefined {
+  const dateKey = parseDailyChallengeId(id);
+  return dateKey ? getDailyChallenge(dateKey) : undefined;
+}
+
+/**
+ * Records a solved daily challenge
+ * Only the first result for a date counts; replays leave it unchanged.
+ */
+export function recordDailyResult(
+  results: DailyResults,
+  result: DailyResult,
+): DailyResults {
+  if (results[result.date]) return results;
+  return { ...results, [result.date]: result };
+}
+
+/**
+ * Counts consecutive solved days up to today
+ * An unsolved today does not break the streak until the day is over.
+ *
+ * @param results - Results by date
+ * @param today - Today's date key
+ */
+export function getDailyStreak(results: DailyResults, today: string): number {
+  let day = results[today] ? today : addDays(today, -1);
+  let streak = 0;
+  while (results[day]) {
+    streak++;
+    day = addDays(day, -1);
+  }
+  return streak;
+}
+
+/**
+ * Validates stored daily results, dropping malformed entries
+ */
+export function parseDailyResults(raw: unknown): DailyResults {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return {};
+  }
+
+  const results: DailyResults = {};
+  for (const [date, value] of Object.entries(raw)) {
+    const entry = value as Partial<DailyResult> | null;
+    if (
+      DATE_KEY_PATTERN.test(date) &&
+      entry?.date === date &&
+      typeof entry.elapsedMs === "number" &&
+      typeof entry.moves === "number" &&
+      typeof entry.hints === "number"
+    ) {
+      results[date] = {
+        date,
+        elapsedMs: entry.elapsedMs,
+        moves: entry.moves,
+        hints: entry.hints,
+      };
+    }
+  }
+  return results;
+}
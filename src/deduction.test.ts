@@ -0,0 +1,117 @@
+/**
+ * Unit tests for the deduction assistant
+ *
+ * Tests verify:
+ * - Candidates follow the rules, the placed gems and the slot clues
+ * - Propagation narrows candidates without ever losing a solution
+ * - Slots with a single candidate are forced
+ * - Boards that cannot be completed are reported
+ */
+
+import { describe, it, expect } from "vitest";
+import { deduceCandidates } from "./deduction";
+import { createInitialGameState } from "./gameStateUtils";
+import { generateChallenge } from "./generator";
+import { SolverPuzzle, createSolverPuzzle } from "./solver";
+
+const emptyPuzzle = (): SolverPuzzle =>
+  createSolverPuzzle(createInitialGameState());
+
+const candidateIds = (puzzle: SolverPuzzle, slotId: string) =>
+  deduceCandidates(puzzle)
+    .slots.find((s) => s.slotId === slotId)!
+    .candidates.map((p) => p.id);
+
+describe("deduceCandidates", () => {
+  it("allows every piece in every slot of the empty board", () => {
+    const deduction = deduceCandidates(emptyPuzzle());
+
+    expect(deduction.slots).toHaveLength(13);
+    expect(deduction.slots.every((s) => s.candidates.length === 13)).toBe(true);
+    expect(deduction.slots.some((s) => s.forced)).toBe(false);
+    expect(deduction.contradiction).toBe(false);
+  });
+
+  it("leaves out pieces that clash with a placed neighbour", () => {
+    // slot-3 touches slot-1
+    const puzzle = { ...emptyPuzzle(), fixed: { "slot-1": "piece-red-round" } };
+    const candidates = candidateIds(puzzle, "slot-3");
+
+    expect(candidates).not.toContain("piece-red-round");
+    expect(candidates).not.toContain("piece-blue-round");
+    expect(candidates).not.toContain("piece-red-square");
+    expect(candidates).toContain("piece-blue-square");
+  });
+
+  it("follows slot clues", () => {
+    const puzzle: SolverPuzzle = {
+      ...emptyPuzzle(),
+      constraints: [
+        { type: "slot-match", slotId: "slot-7", match: { color: "green" } },
+      ],
+    };
+
+    expect(candidateIds(puzzle, "slot-7")).toEqual([
+      "piece-green-round",
+      "piece-green-triangular",
+      "piece-green-square",
+    ]);
+  });
+
+  it("forces the last empty slot", () => {
+    const { solution } = generateChallenge(42);
+    const { "slot-7": missing, ...rest } = solution;
+    const deduction = deduceCandidates({ ...emptyPuzzle(), fixed: rest });
+
+    expect(deduction.slots).toEqual([
+      {
+        slotId: "slot-7",
+        candidates: [expect.objectContaining({ id: missing })],
+        forced: true,
+      },
+    ]);
+  });
+
+  it("narrows a generated challenge without losing its solution", () => {
+    const { challenge, solution } = generateChallenge(7);
+    const fixed = Object.fromEntries(
+      challenge.prePlaced.map((p) => [p.slotId, p.pieceId]),
+    );
+    const deduction = deduceCandidates({ ...emptyPuzzle(), fixed });
+
+    for (const slot of deduction.slots) {
+      expect(slot.candidates.map((p) => p.id)).toContain(solution[slot.slotId]);
+      if (slot.forced) expect(slot.candidates).toHaveLength(1);
+    }
+    expect(
+      deduction.slots.reduce((total, s) => total + s.candidates.length, 0),
+    ).toBeLessThan(deduction.slots.length * (13 - challenge.prePlaced.length));
+    expect(deduction.contradiction).toBe(false);
+  });
+
+  it("reports a board that cannot be completed", () => {
+    const puzzle: SolverPuzzle = {
+      ...emptyPuzzle(),
+      constraints: [
+        {
+          type: "slot-match",
+          slotId: "slot-1",
+          match: { color: "red", shape: "square" },
+        },
+      ],
+    };
+
+    expect(deduceCandidates(puzzle).contradiction).toBe(true);
+  });
+
+  it("does not force slots that may stay empty", () => {
+    const puzzle = emptyPuzzle();
+    const deduction = deduceCandidates({
+      ...puzzle,
+      pieces: puzzle.pieces.slice(1),
+    });
+
+    expect(deduction.slots.some((s) => s.forced)).toBe(false);
+    expect(deduction.contradiction).toBe(false);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Deduction assistant
+ *
+ * Works out, like pencil marks, which staged pieces can still go in each
+ * empty slot. Unlike the solver it never guesses: it only removes
+ * candidates by constraint propagation, the same reasoning a player can do
+ * on paper.
+ * 1. A piece is a candidate for a slot if it breaks no rule with the placed
+ *    gems and matches the slot's clues
+ * 2. A candidate is dropped when some other slot would be left with no
+ *    piece that can go alongside it
+ * 3. A piece that fits only one slot must go there, since every piece is
+ *    placed
+ * Steps 2 and 3 repeat until nothing changes. A slot with a single
+ * candidate left is forced. The candidates always include the pieces of
+ * every solution, so the marks never give a wrong answer.
+ */
+
+import {
+  ADJACENCY_RULES,
+  AdjacencyRule,
+  PieceTraits,
+  computeSlotAdjacency,
+  matchesPiece,
+} from "./rules";
+import { SolverPuzzle } from "./solver";
+
+/**
+ * The pieces that can still go in an empty slot
+ */
+export interface SlotCandidates {
+  slotId: string;
+
+  /** Pieces still possible here, in piece order */
+  candidates: PieceTraits[];
+
+  /** Whether the slot must hold its only candidate */
+  forced: boolean;
+}
+
+/**
+ * Result of propagating a puzzle's constraints
+ */
+export interface Deduction {
+  /** Every empty slot, in board order */
+  slots: SlotCandidates[];
+
+  /**
+   * Whether the placed gems cannot lead to a solution: a slot that must be
+   * filled has no candidates, or a staged piece fits nowhere
+   */
+  contradiction: boolean;
+}
+
+/**
+ * Works out the candidates of every empty slot of a puzzle
+ *
+ * @param puzzle - Puzzle to deduce from; its fixed pieces are the gems on
+ * the board (see createSolverPuzzle)
+ * @param rules - Adjacency rules to apply (defaults to ADJACENCY_RULES)
+ * @returns Candidates per empty slot and whether the board is stuck
+ */
+export function deduceCandidates(
+  puzzle: SolverPuzzle,
+  rules: readonly AdjacencyRule[] = ADJACENCY_RULES,
+): Deduction {
+  const { slots, pieces, fixed } = puzzle;
+  const slotIndex = new Map(slots.map((s, i) => [s.id, i]));
+  const toIndices = (adjacency: Record<string, string[]>) =>
+    slots.map((s) => new Set(adjacency[s.id].map((id) => slotIndex.get(id)!)));
+
+  const edgeNeighbors = toIndices(computeSlotAdjacency(slots, "edge"));
+  const surroundingNeighbors = toIndices(
+    computeSlotAdjacency(slots, "surrounding"),
+  );
+
+  const slotMatches = slots.map((slot) =>
+    puzzle.constraints.flatMap((c) =>
+      c.type === "slot-match" && c.slotId === slot.id ? [c.match] : [],
+    ),
+  );
+  const notNear = puzzle.constraints.flatMap((c) =>
+    c.type === "not-near"
+      ? [
+          {
+            ...c,
+            neighbors:
+              c.neighborhood === "edge" ? edgeNeighbors : surroundingNeighbors,
+          },
+        ]
+      : [],
+  );
+
+  // Whether two pieces can sit in two different slots at the same time
+  const compatible = (
+    slotA: number,
+    a: PieceTraits,
+    slotB: number,
+    b: PieceTraits,
+  ): boolean => {
+    if (a.id === b.id) return false;
+    if (
+      edgeNeighbors[slotA].has(slotB) &&
+      rules.some((rule) => rule.conflicts(a, b))
+    ) {
+      return false;
+    }
+    return !notNear.some(
+      (c) =>
+        c.neighbors[slotA].has(slotB) &&
+        ((matchesPiece(a, c.subject) && matchesPiece(b, c.neighbor)) ||
+          (matchesPiece(a, c.neighbor) && matchesPiece(b, c.subject))),
+    );
+  };
+
+  const piecesById = new Map(pieces.map((p) => [p.id, p]));
+  const placed = Object.entries(fixed).flatMap(([slotId, pieceId]) => {
+    const slot = slotIndex.get(slotId);
+    const piece = piecesById.get(pieceId);
+    return slot !== undefined && piece ? [{ slot, piece }] : [];
+  });
+  const placedIds = new Set(placed.map(({ piece }) => piece.id));
+  const staged = pieces.filter((p) => !placedIds.has(p.id));
+  const empty = slots.flatMap((s, i) => (s.id in fixed ? [] : [i]));
+
+  // With fewer pieces than slots some slots stay empty, so a slot only
+  // needs a piece once it is known to be filled
+  const mayStayEmpty = staged.length < empty.length;
+  const mustFill = new Set(mayStayEmpty ? [] : empty);
+
+  // Step 1: candidates that fit the clues and the gems already placed
+  const domains = new Map(
+    empty.map((slot) => [
+      slot,
+      staged.filter(
+        (piece) =>
+          slotMatches[slot].every((match) => matchesPiece(piece, match)) &&
+          placed.every((other) =>
+            compatible(slot, piece, other.slot, other.piece),
+          ),
+      ),
+    ]),
+  );
+
+  const isStuck = () =>
+    empty.some(
+      (slot) => mustFill.has(slot) && domains.get(slot)!.length === 0,
+    ) ||
+    staged.some((piece) =>
+      empty.every((slot) => !domains.get(slot)!.includes(piece)),
+    );
+
+  // Propagation stops at a contradiction, which would otherwise empty
+  // every slot
+  let changed = true;
+  while (changed && !isStuck()) {
+    changed = false;
+
+    // Step 2: every slot that must be filled needs a piece that can go
+    // alongside each candidate
+    for (const slot of empty) {
+      const domain = domains.get(slot)!;
+      const supported = domain.filter((piece) =>
+        empty.every(
+          (other) =>
+            other === slot ||
+            !mustFill.has(other) ||
+            domains
+              .get(other)!
+              .some((candidate) => compatible(slot, piece, other, candidate)),
+        ),
+      );
+      if (supported.length < domain.length) {
+        domains.set(slot, supported);
+        changed = true;
+      }
+    }
+
+    // Step 3: a piece with a single possible slot goes there
+    for (const piece of staged) {
+      const homes = empty.filter((slot) => domains.get(slot)!.includes(piece));
+      if (homes.length !== 1) continue;
+
+      const [home] = homes;
+      if (domains.get(home)!.length > 1 || !mustFill.has(home)) {
+        domains.set(home, [piece]);
+        mustFill.add(home);
+        changed = true;
+      }
+    }
+  }
+
+  return {
+    slots: empty.map((slot) => ({
+      slotId: slots[slot].id,
+      candidates: domains.get(slot)!,
+      forced: mustFill.has(slot) && domains.get(slot)!.length === 1,
+    })),
+    contradiction: isStuck(),
+  };
+}
@@ -13,6 +13,7 @@
 
 import { describe, it, expect } from "vitest";
 import { Vector3 } from "three";
+import { gameReducer } from "./gameStore";
 import { GameState, DiamondPiece, BoardSlot } from "./types";
 
 describe("Drag Initiation", () => {
@@ -47,49 +48,9 @@ describe("Drag Initiation", () => {
     pieceId,
   });
 
-  // Helper function to simulate startDrag
-  const startDrag = (gameState: GameState, pieceId: string): GameState => {
-    // Find the piece
-    const piece = gameState.pieces.find((p) => p.id === pieceId);
-
-    if (!piece) {
-      return gameState;
-    }
-
-    // If piece is on a slot, clear the slot
-    let updatedSlots = gameState.slots;
-    if (piece.slotId) {
-      updatedSlots = gameState.slots.map((s) => {
-        if (s.id === piece.slotId) {
-          return {
-            ...s,
-            occupied: false,
-            pieceId: null,
-          };
-        }
-        return s;
-      });
-    }
-
-    // Elevate piece (y += 1.0) for visual feedback
-    const updatedPieces = gameState.pieces.map((p) => {
-      if (p.id === pieceId) {
-        return {
-          ...p,
-          position: p.position.clone().setY(p.position.y + 1.0),
-          slotId: null,
-        };
-      }
-      return p;
-    });
-
-    return {
-      ...gameState,
-      pieces: updatedPieces,
-      slots: updatedSlots,
-      draggedPiece: pieceId,
-    };
-  };
+  // Helper function to dispatch DRAG_START to the game reducer
+  const startDrag = (gameState: GameState, pieceId: string): GameState =>
+    gameReducer(gameState, { type: "DRAG_START", pieceId });
 
   describe("Drag Initiation from Staging Area", () => {
     it("should set draggedPiece state when piece is clicked", () => {
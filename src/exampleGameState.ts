@@ -140,4 +140,9 @@ export const exampleGameStateWithDrag: GameState = {
   draggedPiece: "piece-1", // Piece is being dragged
   hoveredSlot: "slot-1", // Hovering over a slot
   hoveredPiece: null,
+  dragSession: {
+    pieceId: "piece-1",
+    origin: { type: "staging" }, // Picked up from the staging area
+    startPosition: new Vector3(-3, -4, 0),
+  },
 };
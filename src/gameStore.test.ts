@@ -0,0 +1,538 @@
+/**
+ * Unit tests for the game store
+ *
+ * Tests verify:
+ * - Dragging follows the pointer and tracks the hovered slot
+ * - Drops snap into free slots and send pieces home otherwise
+ * - Board pieces let go over the staging area are removed
+ * - Locked pieces cannot be picked up or removed
+ * - Each committed action is one history entry; a drag is one move
+ * - Undo and redo restore recorded arrangements
+ * - Swap drops exchange pieces, leaving locked pieces alone
+ * - Drops are previewed against the adjacency rules; strict drops that
+ *   break a rule are refused, including for the piece a swap displaces
+ */
+
+import { describe, it, expect } from "vitest";
+import { getChallengeById, loadChallenge } from "./challenges";
+import { createInitialGameState } from "./gameStateUtils";
+import {
+  GameStore,
+  GameStoreAction,
+  createGameStore,
+  findHoveredSlot,
+  gameReducer,
+  gameStoreReducer,
+  selectBoardPieces,
+  selectCanRedo,
+  selectCanUndo,
+  selectDraggedPiece,
+  selectDropViolations,
+  selectIsStagingDrop,
+  selectPiece,
+  selectPlacementViolations,
+  selectSlot,
+  selectSwapSlot,
+} from "./gameStore";
+import { takeSnapshot } from "./history";
+
+const run = (store: GameStore, ...actions: GameStoreAction[]) =>
+  actions.reduce(gameStoreReducer, store);
+
+// Drags a piece to a slot, passing over another slot on the way
+const dragTo = (
+  store: GameStore,
+  pieceId: string,
+  slotId: string,
+  swap: boolean = false,
+): GameStore => {
+  const slot = selectSlot(store.game, slotId)!;
+  return run(
+    store,
+    { type: "DRAG_START", pieceId },
+    { type: "DRAG_MOVE", x: 0, z: 0 },
+    { type: "DRAG_MOVE", x: slot.position.x, z: slot.position.z },
+    { type: "DROP", swap },
+  );
+};
+
+describe("findHoveredSlot", () => {
+  const slots = createInitialGameState().slots;
+
+  it("should find the slot under the point", () => {
+    const slot = selectSlot(createInitialGameState(), "slot-3")!;
+    expect(
+      findHoveredSlot(slot.position.x + 0.3, slot.position.z, slots)?.id,
+    ).toBe("slot-3");
+  });
+
+  it("should return null away from the board", () => {
+    expect(findHoveredSlot(20, 20, slots)).toBeNull();
+  });
+});
+
+describe("gameReducer", () => {
+  it("should move the dragged piece and track the hovered slot", () => {
+    const slot = selectSlot(createInitialGameState(), "slot-7")!;
+    const state = [
+      { type: "DRAG_START", pieceId: "piece-red-round" } as const,
+      { type: "DRAG_MOVE", x: slot.position.x, z: slot.position.z } as const,
+    ].reduce(gameReducer, createInitialGameState());
+
+    const piece = selectDraggedPiece(state)!;
+    expect(piece.position.y).toBe(1.0);
+    expect(piece.position.x).toBe(slot.position.x);
+    expect(state.hoveredSlot).toBe("slot-7");
+  });
+
+  it("should ignore DRAG_MOVE when nothing is dragged", () => {
+    const state = createInitialGameState();
+    expect(gameReducer(state, { type: "DRAG_MOVE", x: 0, z: 0 })).toBe(state);
+  });
+
+  it("should snap a dropped piece into a free hovered slot", () => {
+    const { game } = dragTo(
+      createGameStore(createInitialGameState()),
+      "piece-red-round",
+      "slot-7",
+    );
+
+    expect(selectSlot(game, "slot-7")!.pieceId).toBe("piece-red-round");
+    expect(selectBoardPieces(game).map((p) => p.id)).toEqual([
+      "piece-red-round",
+    ]);
+    expect(game.draggedPiece).toBeNull();
+    expect(game.hoveredSlot).toBeNull();
+  });
+
+  it("should send a piece dropped on an occupied slot to staging", () => {
+    let store = createGameStore(createInitialGameState());
+    store = dragTo(store, "piece-red-round", "slot-7");
+    store = dragTo(store, "piece-blue-round", "slot-7");
+
+    const blue = store.game.pieces.find((p) => p.id === "piece-blue-round")!;
+    expect(blue.slotId).toBeNull();
+    expect(blue.position.equals(blue.stagingPosition)).toBe(true);
+    expect(selectSlot(store.game, "slot-7")!.pieceId).toBe("piece-red-round");
+  });
+
+  it("should record where a dragged piece came from", () => {
+    const placed = gameReducer(createInitialGameState(), {
+      type: "PLACE",
+      pieceId: "piece-red-round",
+      slotId: "slot-3",
+    });
+    const fromSlot = gameReducer(placed, {
+      type: "DRAG_START",
+      pieceId: "piece-red-round",
+    });
+    const fromStaging = gameReducer(placed, {
+      type: "DRAG_START",
+      pieceId: "piece-blue-round",
+    });
+
+    expect(fromSlot.dragSession?.origin).toEqual({
+      type: "slot",
+      slotId: "slot-3",
+    });
+    expect(
+      fromSlot.dragSession?.startPosition.equals(
+        selectSlot(placed, "slot-3")!.position,
+      ),
+    ).toBe(true);
+    expect(fromStaging.dragSession?.origin).toEqual({ type: "staging" });
+  });
+
+  it("should return a piece dropped off the board to the slot it came from", () => {
+    let store = createGameStore(createInitialGameState());
+    store = dragTo(store, "piece-red-round", "slot-3");
+    store = run(
+      store,
+      { type: "DRAG_START", pieceId: "piece-red-round" },
+      { type: "DRAG_MOVE", x: 20, z: 20 },
+      { type: "DROP" },
+    );
+
+    const red = selectPiece(store.game, "piece-red-round")!;
+    expect(red.slotId).toBe("slot-3");
+    expect(
+      red.position.equals(selectSlot(store.game, "slot-3")!.position),
+    ).toBe(true);
+    expect(selectSlot(store.game, "slot-3")!.pieceId).toBe("piece-red-round");
+    expect(store.game.dragSession).toBeNull();
+    expect(store.history.past).toHaveLength(1);
+  });
+
+  it("should return a piece to its origin when a drag is cancelled", () => {
+    let store = createGameStore(createInitialGameState());
+    store = dragTo(store, "piece-red-round", "slot-3");
+    const slot = selectSlot(store.game, "slot-7")!;
+    store = run(
+      store,
+      { type: "DRAG_START", pieceId: "piece-red-round" },
+      { type: "DRAG_MOVE", x: slot.position.x, z: slot.position.z },
+      { type: "CANCEL_DRAG" },
+    );
+
+    expect(selectSlot(store.game, "slot-3")!.pieceId).toBe("piece-red-round");
+    expect(selectSlot(store.game, "slot-7")!.pieceId).toBeNull();
+    expect(store.game.draggedPiece).toBeNull();
+    expect(store.history.past).toHaveLength(1);
+  });
+
+  it("should not pick up or remove locked pieces", () => {
+    const state = loadChallenge(getChallengeById("starter-01")!);
+    const locked = state.pieces.find((p) => p.locked)!;
+
+    expect(gameReducer(state, { type: "DRAG_START", pieceId: locked.id })).toBe(
+      state,
+    );
+    expect(gameReducer(state, { type: "REMOVE", pieceId: locked.id })).toBe(
+      state,
+    );
+  });
+
+  it("should keep pre-placed pieces when resetting a challenge", () => {
+    const challenge = getChallengeById("starter-01")!;
+    const start = loadChallenge(challenge);
+    const free = start.pieces.find((p) => !p.locked)!;
+    const empty = start.slots.find((s) => !s.occupied)!;
+
+    const played = gameReducer(start, {
+      type: "PLACE",
+      pieceId: free.id,
+      slotId: empty.id,
+    });
+    const reset = gameReducer(played, { type: "RESET", challenge });
+
+    expect(takeSnapshot(reset)).toEqual(takeSnapshot(start));
+  });
+});
+
+describe("removing by dragging", () => {
+  // The red diamond placed in slot-1 and held over a point
+  const holdAt = (pieceId: string, x: number, z: number) =>
+    run(
+      createGameStore(createInitialGameState()),
+      { type: "PLACE", pieceId: "piece-red-round", slotId: "slot-1" },
+      { type: "DRAG_START", pieceId },
+      { type: "DRAG_MOVE", x, z },
+    );
+  const { stagingPosition } = selectPiece(
+    createInitialGameState(),
+    "piece-blue-round",
+  )!;
+
+  it("should remove a board piece let go over the staging area", () => {
+    const holding = holdAt(
+      "piece-red-round",
+      stagingPosition.x,
+      stagingPosition.z,
+    );
+    expect(selectIsStagingDrop(holding.game)).toBe(true);
+
+    const store = run(holding, {
+      type: "REMOVE",
+      pieceId: "piece-red-round",
+    });
+    const piece = selectPiece(store.game, "piece-red-round")!;
+    expect(piece.slotId).toBeNull();
+    expect(piece.position.equals(piece.stagingPosition)).toBe(true);
+    expect(selectSlot(store.game, "slot-1")!.occupied).toBe(false);
+    expect(store.game.draggedPiece).toBeNull();
+
+    const undone = run(store, { type: "UNDO" });
+    expect(selectSlot(undone.game, "slot-1")!.pieceId).toBe("piece-red-round");
+  });
+
+  it("should only remove board pieces over the staging area", () => {
+    expect(selectIsStagingDrop(holdAt("piece-red-round", 0, 100).game)).toBe(
+      false,
+    );
+    expect(
+      selectIsStagingDrop(
+        holdAt("piece-blue-round", stagingPosition.x, stagingPosition.z).game,
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("swap drops", () => {
+  const pieceIn = (store: GameStore, slotId: string) =>
+    selectSlot(store.game, slotId)!.pieceId;
+
+  const twoPlaced = () =>
+    run(
+      createGameStore(createInitialGameState()),
+      { type: "PLACE", pieceId: "piece-red-round", slotId: "slot-1" },
+      { type: "PLACE", pieceId: "piece-blue-square", slotId: "slot-2" },
+    );
+
+  it("should exchange two pieces on the board", () => {
+    const store = dragTo(twoPlaced(), "piece-red-round", "slot-2", true);
+
+    expect(pieceIn(store, "slot-2")).toBe("piece-red-round");
+    expect(pieceIn(store, "slot-1")).toBe("piece-blue-square");
+    expect(selectPiece(store.game, "piece-blue-square")!.slotId).toBe("slot-1");
+    expect(
+      selectPiece(store.game, "piece-blue-square")!.position.equals(
+        selectSlot(store.game, "slot-1")!.position,
+      ),
+    ).toBe(true);
+    expect(store.game.dragSession).toBeNull();
+  });
+
+  it("should send the displaced piece to staging when the dragged piece came from there", () => {
+    const store = dragTo(twoPlaced(), "piece-green-round", "slot-1", true);
+    const displaced = selectPiece(store.game, "piece-red-round")!;
+
+    expect(pieceIn(store, "slot-1")).toBe("piece-green-round");
+    expect(displaced.slotId).toBeNull();
+    expect(displaced.position.equals(displaced.stagingPosition)).toBe(true);
+  });
+
+  it("should not swap without swap mode", () => {
+    const store = dragTo(twoPlaced(), "piece-red-round", "slot-2");
+
+    expect(pieceIn(store, "slot-2")).toBe("piece-blue-square");
+    expect(pieceIn(store, "slot-1")).toBe("piece-red-round");
+  });
+
+  it("should never displace a locked piece", () => {
+    const game = loadChallenge(getChallengeById("starter-01")!);
+    const locked = selectSlot(game, "slot-1")!.pieceId;
+    const staged = game.pieces.find((p) => p.slotId === null)!.id;
+    const slot = selectSlot(game, "slot-1")!;
+
+    const hovering = run(
+      createGameStore(game),
+      { type: "DRAG_START", pieceId: staged },
+      { type: "DRAG_MOVE", x: slot.position.x, z: slot.position.z },
+    );
+    expect(selectSwapSlot(hovering.game)).toBeNull();
+
+    const store = run(hovering, { type: "DROP", swap: true });
+    expect(pieceIn(store, "slot-1")).toBe(locked);
+    expect(selectPiece(store.game, staged)!.slotId).toBeNull();
+  });
+
+  it("should report the slot a drop would swap with", () => {
+    const slot = selectSlot(createInitialGameState(), "slot-2")!;
+    const hovering = run(
+      twoPlaced(),
+      { type: "DRAG_START", pieceId: "piece-red-round" },
+      { type: "DRAG_MOVE", x: slot.position.x, z: slot.position.z },
+    );
+
+    expect(selectSwapSlot(hovering.game)).toBe("slot-2");
+    expect(selectSwapSlot(twoPlaced().game)).toBeNull();
+  });
+
+  it("should undo a swap in one step", () => {
+    const before = twoPlaced();
+    const store = run(dragTo(before, "piece-red-round", "slot-2", true), {
+      type: "UNDO",
+    });
+
+    expect(takeSnapshot(store.game)).toEqual(takeSnapshot(before.game));
+  });
+});
+
+describe("rule previews", () => {
+  // A round red diamond in slot-1, which touches slot-3
+  const redPlaced = () =>
+    run(createGameStore(createInitialGameState()), {
+      type: "PLACE",
+      pieceId: "piece-red-round",
+      slotId: "slot-1",
+    });
+
+  const hoverOver = (store: GameStore, pieceId: string, slotId: string) => {
+    const slot = selectSlot(store.game, slotId)!;
+    return run(
+      store,
+      { type: "DRAG_START", pieceId },
+      { type: "DRAG_MOVE", x: slot.position.x, z: slot.position.z },
+    );
+  };
+
+  it("should list the neighbours a drop would conflict with", () => {
+    const hovering = hoverOver(redPlaced(), "piece-blue-round", "slot-3");
+    const violations = selectDropViolations(hovering.game)!;
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0].ruleId).toBe("same-shape-adjacent");
+    expect(violations[0].slotIds).toEqual(["slot-3", "slot-1"]);
+  });
+
+  it("should report a legal drop as no violations", () => {
+    const hovering = hoverOver(redPlaced(), "piece-blue-square", "slot-3");
+
+    expect(selectDropViolations(hovering.game)).toEqual([]);
+  });
+
+  it("should have nothing to preview away from a free slot", () => {
+    const hovering = hoverOver(redPlaced(), "piece-blue-round", "slot-1");
+
+    expect(selectDropViolations(hovering.game)).toBeNull();
+    expect(selectDropViolations(redPlaced().game)).toBeNull();
+  });
+
+  it("should refuse a strict drop that breaks a rule", () => {
+    const hovering = hoverOver(redPlaced(), "piece-blue-round", "slot-3");
+
+    const strict = run(hovering, { type: "DROP", strict: true });
+    expect(selectPiece(strict.game, "piece-blue-round")!.slotId).toBeNull();
+    expect(selectSlot(strict.game, "slot-3")!.occupied).toBe(false);
+
+    const lenient = run(hovering, { type: "DROP" });
+    expect(selectPiece(lenient.game, "piece-blue-round")!.slotId).toBe(
+      "slot-3",
+    );
+  });
+
+  it("should allow a legal strict drop", () => {
+    const hovering = hoverOver(redPlaced(), "piece-blue-square", "slot-3");
+    const store = run(hovering, { type: "DROP", strict: true });
+
+    expect(selectPiece(store.game, "piece-blue-square")!.slotId).toBe("slot-3");
+  });
+
+  it("should check the piece a swap displaces in its new slot", () => {
+    // The square leaves slot-3, next to the red round diamond, and the blue
+    // round diamond it swaps with would take its place
+    const placed = run(
+      redPlaced(),
+      { type: "PLACE", pieceId: "piece-yellow-square", slotId: "slot-3" },
+      { type: "PLACE", pieceId: "piece-blue-round", slotId: "slot-13" },
+    );
+    const hovering = hoverOver(placed, "piece-yellow-square", "slot-13");
+
+    expect(selectDropViolations(hovering.game)).toBeNull();
+    const violations = selectDropViolations(hovering.game, true)!;
+    expect(violations).toHaveLength(1);
+    expect(violations[0].slotIds).toEqual(["slot-3", "slot-1"]);
+    expect(violations[0].pieceIds[0]).toBe("piece-blue-round");
+
+    const strict = run(hovering, { type: "DROP", swap: true, strict: true });
+    expect(selectPiece(strict.game, "piece-yellow-square")!.slotId).toBe(
+      "slot-3",
+    );
+    expect(selectPiece(strict.game, "piece-blue-round")!.slotId).toBe(
+      "slot-13",
+    );
+
+    const lenient = run(hovering, { type: "DROP", swap: true });
+    expect(selectPiece(lenient.game, "piece-blue-round")!.slotId).toBe(
+      "slot-3",
+    );
+  });
+
+  it("should preview direct placements", () => {
+    const { game } = redPlaced();
+
+    expect(
+      selectPlacementViolations(game, "piece-blue-round", "slot-3"),
+    ).toHaveLength(1);
+    expect(
+      selectPlacementViolations(game, "piece-blue-round", "slot-1"),
+    ).toBeNull();
+  });
+});
+
+describe("gameStoreReducer", () => {
+  it("should record a whole drag as a single move", () => {
+    const store = dragTo(
+      createGameStore(createInitialGameState()),
+      "piece-red-round",
+      "slot-7",
+    );
+
+    expect(store.history.past).toHaveLength(1);
+    expect(store.history.past[0].type).toBe("move");
+    expect(store.history.past[0].after).toEqual({
+      "slot-7": "piece-red-round",
+    });
+  });
+
+  it("should not record anything mid-drag", () => {
+    const store = run(
+      createGameStore(createInitialGameState()),
+      { type: "DRAG_START", pieceId: "piece-red-round" },
+      { type: "DRAG_MOVE", x: 0, z: 0 },
+    );
+
+    expect(selectCanUndo(store)).toBe(false);
+  });
+
+  it("should not record a drop back into the same slot", () => {
+    let store = dragTo(
+      createGameStore(createInitialGameState()),
+      "piece-red-round",
+      "slot-7",
+    );
+    store = dragTo(store, "piece-red-round", "slot-7");
+
+    expect(store.history.past).toHaveLength(1);
+  });
+
+  it("should undo and redo placements and resets", () => {
+    let store = run(
+      createGameStore(createInitialGameState()),
+      { type: "PLACE", pieceId: "piece-red-round", slotId: "slot-7" },
+      { type: "PLACE", pieceId: "piece-blue-square", slotId: "slot-1" },
+      { type: "RESET" },
+    );
+    expect(store.history.past.map((e) => e.type)).toEqual([
+      "place",
+      "place",
+      "reset",
+    ]);
+
+    store = run(store, { type: "UNDO" });
+    expect(takeSnapshot(store.game)).toEqual({
+      "slot-7": "piece-red-round",
+      "slot-1": "piece-blue-square",
+    });
+
+    store = run(store, { type: "UNDO" }, { type: "UNDO" });
+    expect(takeSnapshot(store.game)).toEqual({});
+    expect(selectCanUndo(store)).toBe(false);
+
+    store = run(store, { type: "REDO" });
+    expect(takeSnapshot(store.game)).toEqual({ "slot-7": "piece-red-round" });
+    expect(selectCanRedo(store)).toBe(true);
+  });
+
+  it("should not record the undone arrangement as a new action", () => {
+    const store = run(
+      createGameStore(createInitialGameState()),
+      { type: "PLACE", pieceId: "piece-red-round", slotId: "slot-7" },
+      { type: "UNDO" },
+    );
+
+    expect(store.history.past).toHaveLength(0);
+    expect(store.history.future).toHaveLength(1);
+  });
+
+  it("should ignore undo while a piece is being dragged", () => {
+    const store = run(
+      createGameStore(createInitialGameState()),
+      { type: "PLACE", pieceId: "piece-red-round", slotId: "slot-7" },
+      { type: "DRAG_START", pieceId: "piece-blue-round" },
+    );
+
+    expect(gameStoreReducer(store, { type: "UNDO" })).toBe(store);
+  });
+
+  it("should start a fresh history when a game is loaded", () => {
+    const store = run(
+      createGameStore(createInitialGameState()),
+      { type: "PLACE", pieceId: "piece-red-round", slotId: "slot-7" },
+      { type: "LOAD", state: createInitialGameState() },
+    );
+
+    expect(selectCanUndo(store)).toBe(false);
+    expect(selectBoardPieces(store.game)).toEqual([]);
+  });
+});
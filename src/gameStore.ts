@@ -0,0 +1,748 @@
+/**
+ * Reducer-based game store
+ *
+ * Every change to the game goes through a typed action. gameReducer applies
+ * actions to a GameState; gameStoreReducer wraps it with the undo/redo
+ * history so React, tests, the solver and command-line tools all share the
+ * same logic. Selectors read common values out of the state.
+ */
+
+import { Vector3 } from "three";
+import { applyChallenge } from "./challenges";
+import { Hint, applyHint } from "./hints";
+import {
+  BoardSnapshot,
+  History,
+  HistoryActionType,
+  canRedo,
+  canUndo,
+  createHistory,
+  recordAction,
+  redo,
+  restoreSnapshot,
+  takeSnapshot,
+  undo,
+} from "./history";
+import { RuleViolation, findPlacementViolations } from "./rules";
+import {
+  BoardSlot,
+  Challenge,
+  DiamondPiece,
+  DragSession,
+  GameState,
+} from "./types";
+
+/**
+ * Height a dragged piece floats at above the board
+ */
+export const DRAG_HEIGHT = 1.0;
+
+/**
+ * Distance (in x/z) within which a dragged piece counts as over a slot
+ */
+export const HOVER_THRESHOLD = 0.8;
+
+/**
+ * Actions that change the board or the interaction state
+ */
+export type GameAction =
+  /** Put a piece straight into an empty slot */
+  | { type: "PLACE"; pieceId: string; slotId: string }
+  /** Return a piece on the board, or dragged off it, to the staging area */
+  | { type: "REMOVE"; pieceId: string }
+  /** Pick up a piece */
+  | { type: "DRAG_START"; pieceId: string }
+  /** Move the dragged piece to a point on the board plane */
+  | { type: "DRAG_MOVE"; x: number; z: number }
+  /**
+   * Let go of the dragged piece
+   * With swap set, dropping onto a piece on the board exchanges the two;
+   * with strict set, a drop that would break an adjacency rule is refused
+   */
+  | { type: "DROP"; swap?: boolean; strict?: boolean }
+  /** Put the dragged piece back where it was picked up from */
+  | { type: "CANCEL_DRAG" }
+  /** Clear the board, keeping a challenge's pre-placed pieces */
+  | { type: "RESET"; challenge?: Challenge }
+  /** Carry out a level 3 hint */
+  | { type: "APPLY_HINT"; hint: Hint }
+  /** Move a piece without changing where it is placed, e.g. while animating */
+  | { type: "MOVE_PIECE"; pieceId: string; position: Vector3 };
+
+/**
+ * Actions handled by the store on top of the game actions
+ */
+export type GameStoreAction =
+  | GameAction
+  /** Replace the whole game, e.g. when another challenge is loaded */
+  | { type: "LOAD"; state: GameState }
+  | { type: "UNDO" }
+  | { type: "REDO" };
+
+/**
+ * Game state together with its undo/redo history
+ */
+export interface GameStore {
+  /** Current game state */
+  game: GameState;
+
+  /** Recorded board actions */
+  history: History;
+
+  /** Arrangement the last recorded action left behind */
+  committed: BoardSnapshot;
+}
+
+// History entry type recorded for each action that can change the board
+const HISTORY_TYPES: Partial<Record<GameAction["type"], HistoryActionType>> = {
+  PLACE: "place",
+  REMOVE: "remove",
+  DROP: "move",
+  RESET: "reset",
+  APPLY_HINT: "hint",
+};
+
+/**
+ * Finds the slot under a point on the board plane
+ * Only x and z are compared; returns null when no slot is within reach
+ */
+export function findHoveredSlot(
+  x: number,
+  z: number,
+  slots: BoardSlot[],
+): BoardSlot | null {
+  for (const slot of slots) {
+    const dx = x - slot.position.x;
+    const dz = z - slot.position.z;
+    const distance = Math.sqrt(dx * dx + dz * dz);
+
+    if (distance < HOVER_THRESHOLD) {
+      return slot;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Checks whether a point on the board plane is over the staging area
+ * The area is the rectangle around the staging positions, widened by the
+ * hover threshold so a piece dropped next to its neighbours still counts.
+ */
+export function isOverStagingArea(
+  x: number,
+  z: number,
+  pieces: DiamondPiece[],
+): boolean {
+  const xs = pieces.map((p) => p.stagingPosition.x);
+  const zs = pieces.map((p) => p.stagingPosition.z);
+  return (
+    pieces.length > 0 &&
+    x > Math.min(...xs) - HOVER_THRESHOLD &&
+    x < Math.max(...xs) + HOVER_THRESHOLD &&
+    z > Math.min(...zs) - HOVER_THRESHOLD &&
+    z < Math.max(...zs) + HOVER_THRESHOLD
+  );
+}
+
+/**
+ * Places a piece on a board slot
+ * Updates both piece and slot state bidirectionally
+ *
+ * Validates: Requirement 3.3 (Piece placement)
+ */
+function placePiece(
+  state: GameState,
+  pieceId: string,
+  slotId: string,
+): GameState {
+  const piece = state.pieces.find((p) => p.id === pieceId);
+  const slot = state.slots.find((s) => s.id === slotId);
+
+  // Validate piece and slot exist
+  if (!piece || !slot) {
+    console.error("Invalid piece or slot ID");
+    return state;
+  }
+
+  // Validate slot is not occupied (Requirement 3.5)
+  if (slot.occupied) {
+    console.error("Slot is already occupied");
+    return state;
+  }
+
+  return {
+    ...state,
+    pieces: state.pieces.map((p) =>
+      p.id === pieceId
+        ? { ...p, position: slot.position.clone(), slotId: slotId }
+        : p,
+    ),
+    slots: state.slots.map((s) =>
+      s.id === slotId ? { ...s, occupied: true, pieceId: pieceId } : s,
+    ),
+  };
+}
+
+/**
+ * Removes a piece from a board slot and returns it to the staging area
+ * Pieces locked by a challenge stay where they are. A piece being dragged
+ * off the board is removed from the slot it was picked up from, which ends
+ * the drag.
+ *
+ * Validates: Requirement 3.6 (Remove piece from slot)
+ */
+function removePiece(state: GameState, pieceId: string): GameState {
+  const piece = state.pieces.find((p) => p.id === pieceId);
+
+  if (!piece) {
+    console.error("Invalid piece ID");
+    return state;
+  }
+
+  const isDraggedOff =
+    state.draggedPiece === pieceId && findOriginSlot(state) !== undefined;
+
+  // If piece is not on a slot or is locked by the challenge, nothing to do
+  if ((!piece.slotId && !isDraggedOff) || piece.locked) {
+    return state;
+  }
+
+  return {
+    ...state,
+    pieces: state.pieces.map((p) =>
+      p.id === pieceId
+        ? { ...p, position: p.stagingPosition.clone(), slotId: null }
+        : p,
+    ),
+    slots: state.slots.map((s) =>
+      s.pieceId === pieceId ? { ...s, occupied: false, pieceId: null } : s,
+    ),
+    ...(isDraggedOff && {
+      draggedPiece: null,
+      hoveredSlot: null,
+      dragSession: null,
+    }),
+  };
+}
+
+/**
+ * Picks up a piece: lifts it and clears its slot if it was on the board
+ *
+ * Validates: Requirements 3.1, 3.6 (Drag initiation)
+ */
+function startDrag(state: GameState, pieceId: string): GameState {
+  const piece = state.pieces.find((p) => p.id === pieceId);
+
+  if (!piece) {
+    console.error("Invalid piece ID");
+    return state;
+  }
+
+  // Pieces pre-placed by the challenge cannot be picked up
+  if (piece.locked) {
+    return state;
+  }
+
+  // Remember where the piece came from so a missed drop can put it back
+  const dragSession: DragSession = {
+    pieceId,
+    origin: piece.slotId
+      ? { type: "slot", slotId: piece.slotId }
+      : { type: "staging" },
+    startPosition: piece.position.clone(),
+  };
+
+  return {
+    ...state,
+    pieces: state.pieces.map((p) =>
+      p.id === pieceId
+        ? {
+            ...p,
+            position: p.position.clone().setY(p.position.y + DRAG_HEIGHT),
+            slotId: null, // Clear slot reference when dragging starts
+          }
+        : p,
+    ),
+    slots: piece.slotId
+      ? state.slots.map((s) =>
+          s.id === piece.slotId ? { ...s, occupied: false, pieceId: null } : s,
+        )
+      : state.slots,
+    draggedPiece: pieceId,
+    dragSession,
+  };
+}
+
+/**
+ * Moves the dragged piece to follow the pointer and tracks the slot below it
+ *
+ * Validates: Requirement 3.2 (Drag movement)
+ */
+function dragMove(state: GameState, x: number, z: number): GameState {
+  if (!state.draggedPiece) return state;
+
+  const hoveredSlot = findHoveredSlot(x, z, state.slots);
+
+  return {
+    ...state,
+    pieces: state.pieces.map((p) =>
+      p.id === state.draggedPiece
+        ? { ...p, position: new Vector3(x, DRAG_HEIGHT, z) }
+        : p,
+    ),
+    hoveredSlot: hoveredSlot ? hoveredSlot.id : null,
+  };
+}
+
+/**
+ * Finds the piece a drop onto a slot would swap with
+ * Only unlocked pieces can be swapped
+ */
+function findSwapPiece(
+  state: GameState,
+  slot: BoardSlot | undefined,
+): DiamondPiece | undefined {
+  if (!slot?.pieceId) return undefined;
+
+  const piece = state.pieces.find((p) => p.id === slot.pieceId);
+  return piece && !piece.locked ? piece : undefined;
+}
+
+/**
+ * Finds the free slot the dragged piece was picked up from
+ * Returns undefined when it came from the staging area
+ */
+function findOriginSlot(state: GameState): BoardSlot | undefined {
+  const session = state.dragSession;
+  if (session?.pieceId !== state.draggedPiece) return undefined;
+  if (session?.origin.type !== "slot") return undefined;
+
+  const { slotId } = session.origin;
+  return state.slots.find((s) => s.id === slotId && !s.occupied);
+}
+
+/**
+ * Drops the dragged piece
+ * Snaps it into the hovered slot if that slot is free, otherwise sends it
+ * back where it came from: its old slot or the staging area. With swap, a
+ * drop onto an unlocked piece puts the dragged piece in its slot and moves
+ * that piece to the dragged piece's origin instead.
+ *
+ * Validates: Requirements 3.3, 3.4, 3.5 (Drop placement and validation)
+ */
+function drop(state: GameState, swap: boolean = false): GameState {
+  if (!state.draggedPiece) {
+    return state;
+  }
+
+  const draggedPiece = state.pieces.find((p) => p.id === state.draggedPiece);
+  const hoveredSlot = state.slots.find((s) => s.id === state.hoveredSlot);
+
+  if (!draggedPiece) {
+    return state;
+  }
+
+  // Check if drop is valid: hoveredSlot exists and is unoccupied
+  const isValidDrop = hoveredSlot && !hoveredSlot.occupied;
+  const swapPiece = swap ? findSwapPiece(state, hoveredSlot) : undefined;
+
+  const originSlot = findOriginSlot(state);
+
+  let pieces = state.pieces;
+  let slots = state.slots;
+
+  if ((isValidDrop || swapPiece) && hoveredSlot) {
+    // The displaced piece takes the dragged piece's old slot, if it had one
+    pieces = state.pieces.map((p) => {
+      if (p.id === draggedPiece.id) {
+        // Valid drop: snap piece to slot position
+        return {
+          ...p,
+          position: hoveredSlot.position.clone(),
+          slotId: hoveredSlot.id,
+        };
+      }
+      if (p.id === swapPiece?.id) {
+        return originSlot
+          ? {
+              ...p,
+              position: originSlot.position.clone(),
+              slotId: originSlot.id,
+            }
+          : { ...p, position: p.stagingPosition.clone(), slotId: null };
+      }
+      return p;
+    });
+    slots = state.slots.map((s) => {
+      if (s.id === hoveredSlot.id) {
+        return { ...s, occupied: true, pieceId: draggedPiece.id };
+      }
+      if (swapPiece && s.id === originSlot?.id) {
+        return { ...s, occupied: true, pieceId: swapPiece.id };
+      }
+      return s;
+    });
+  } else if (originSlot) {
+    // Invalid drop: return piece to the slot it was picked up from
+    pieces = state.pieces.map((p) =>
+      p.id === draggedPiece.id
+        ? { ...p, position: originSlot.position.clone(), slotId: originSlot.id }
+        : p,
+    );
+    slots = state.slots.map((s) =>
+      s.id === originSlot.id
+        ? { ...s, occupied: true, pieceId: draggedPiece.id }
+        : s,
+    );
+  } else {
+    // Invalid drop: return piece to the staging area
+    pieces = state.pieces.map((p) =>
+      p.id === draggedPiece.id
+        ? { ...p, position: p.stagingPosition.clone(), slotId: null }
+        : p,
+    );
+  }
+
+  // Clear drag state
+  return {
+    ...state,
+    pieces,
+    slots,
+    draggedPiece: null,
+    hoveredSlot: null,
+    dragSession: null,
+  };
+}
+
+/**
+ * Lists the adjacency rules a piece breaks in the slot an action put it in
+ *
+ * @param before - State before the action
+ * @param after - State after the action
+ * @param pieceId - Piece the action moved
+ * @param slotId - Slot the piece was meant to land in
+ * @returns The violations, or null when the piece did not land in the slot
+ */
+function findLandingViolations(
+  before: GameState,
+  after: GameState,
+  pieceId: string,
+  slotId: string,
+): RuleViolation[] | null {
+  if (after === before) return null;
+
+  const piece = after.pieces.find((p) => p.id === pieceId);
+  if (piece?.slotId !== slotId) return null;
+  return findPlacementViolations(after, pieceId, slotId);
+}
+
+/**
+ * Lists the adjacency rules dropping the dragged piece now would break
+ * Swaps are played out, so the piece a swap displaces into the dragged
+ * piece's old slot is checked there too.
+ *
+ * @returns The violations, or null when the drop would not place the piece
+ * in the hovered slot
+ */
+function findDropViolations(
+  state: GameState,
+  swap: boolean,
+): RuleViolation[] | null {
+  const { draggedPiece, hoveredSlot } = state;
+  if (!draggedPiece || !hoveredSlot) return null;
+
+  const after = drop(state, swap);
+  const violations = findLandingViolations(
+    state,
+    after,
+    draggedPiece,
+    hoveredSlot,
+  );
+  if (!violations) return null;
+
+  const swapPiece = swap
+    ? findSwapPiece(state, selectSlot(state, hoveredSlot))
+    : undefined;
+  const swapSlot = after.pieces.find((p) => p.id === swapPiece?.id)?.slotId;
+  if (!swapPiece || !swapSlot) return violations;
+
+  // A clash between the two swapped pieces is already listed
+  const displaced = findPlacementViolations(after, swapPiece.id, swapSlot);
+  return [
+    ...violations,
+    ...displaced.filter((v) => !v.pieceIds.includes(draggedPiece)),
+  ];
+}
+
+/**
+ * Drops the dragged piece, refusing drops that would break an adjacency
+ * rule, for it or for a piece it swaps with: those send the piece back where
+ * it came from, as a missed drop does
+ */
+function strictDrop(state: GameState, swap: boolean = false): GameState {
+  const violations = findDropViolations(state, swap);
+  return violations?.length
+    ? drop({ ...state, hoveredSlot: null })
+    : drop(state, swap);
+}
+
+/**
+ * Clears the board
+ * With a challenge, its pre-placed pieces go back into their slots locked;
+ * without one every piece returns to the staging area
+ *
+ * Validates: Requirements 5.1-5.3 (Reset functionality)
+ */
+function resetBoard(state: GameState, challenge?: Challenge): GameState {
+  if (challenge) {
+    return applyChallenge(state, challenge);
+  }
+
+  return {
+    ...state,
+    pieces: state.pieces.map((piece) => ({
+      ...piece,
+      position: piece.stagingPosition.clone(),
+      slotId: null,
+    })),
+    slots: state.slots.map((slot) => ({
+      ...slot,
+      occupied: false,
+      pieceId: null,
+    })),
+    draggedPiece: null,
+    hoveredSlot: null,
+    hoveredPiece: null,
+    dragSession: null,
+  };
+}
+
+/**
+ * Applies a game action to a game state
+ *
+ * Invalid actions (unknown IDs, occupied slots, locked pieces) return the
+ * state unchanged.
+ *
+ * @param state - Current game state
+ * @param action - Action to apply
+ * @returns The new game state
+ */
+export function gameReducer(state: GameState, action: GameAction): GameState {
+  switch (action.type) {
+    case "PLACE":
+      return placePiece(state, action.pieceId, action.slotId);
+    case "REMOVE":
+      return removePiece(state, action.pieceId);
+    case "DRAG_START":
+      return startDrag(state, action.pieceId);
+    case "DRAG_MOVE":
+      return dragMove(state, action.x, action.z);
+    case "DROP":
+      return action.strict
+        ? strictDrop(state, action.swap)
+        : drop(state, action.swap);
+    case "CANCEL_DRAG":
+      // Dropping away from every slot sends the piece back to its origin
+      return state.draggedPiece ? drop({ ...state, hoveredSlot: null }) : state;
+    case "RESET":
+      return resetBoard(state, action.challenge);
+    case "APPLY_HINT":
+      return applyHint(state, action.hint);
+    case "MOVE_PIECE":
+      return {
+        ...state,
+        pieces: state.pieces.map((p) =>
+          p.id === action.pieceId ? { ...p, position: action.position } : p,
+        ),
+      };
+  }
+}
+
+/**
+ * Creates a store for a game state with an empty history
+ */
+export function createGameStore(game: GameState): GameStore {
+  return { game, history: createHistory(), committed: takeSnapshot(game) };
+}
+
+/**
+ * Puts the board back into a recorded arrangement after an undo or redo
+ */
+function restore(
+  store: GameStore,
+  step: { history: History; snapshot: BoardSnapshot } | null,
+): GameStore {
+  if (!step) return store;
+
+  return {
+    game: restoreSnapshot(store.game, step.snapshot),
+    history: step.history,
+    committed: step.snapshot,
+  };
+}
+
+/**
+ * Applies an action to the store, recording board changes in the history
+ *
+ * Changes are recorded once no piece is being dragged, so a whole drag
+ * counts as a single move. Undo and redo are ignored mid-drag.
+ *
+ * @param store - Current store
+ * @param action - Action to apply
+ * @returns The new store
+ */
+export function gameStoreReducer(
+  store: GameStore,
+  action: GameStoreAction,
+): GameStore {
+  switch (action.type) {
+    case "LOAD":
+      return createGameStore(action.state);
+    case "UNDO":
+      return store.game.draggedPiece
+        ? store
+        : restore(store, undo(store.history));
+    case "REDO":
+      return store.game.draggedPiece
+        ? store
+        : restore(store, redo(store.history));
+  }
+
+  const game = gameReducer(store.game, action);
+  if (game === store.game) return store;
+  if (game.draggedPiece !== null) return { ...store, game };
+
+  const after = takeSnapshot(game);
+  return {
+    game,
+    history: recordAction(store.history, {
+      type: HISTORY_TYPES[action.type] ?? "move",
+      before: store.committed,
+      after,
+    }),
+    committed: after,
+  };
+}
+
+/**
+ * Finds a piece by ID
+ */
+export function selectPiece(
+  state: GameState,
+  pieceId: string | null,
+): DiamondPiece | undefined {
+  return state.pieces.find((p) => p.id === pieceId);
+}
+
+/**
+ * Finds a slot by ID
+ */
+export function selectSlot(
+  state: GameState,
+  slotId: string | null,
+): BoardSlot | undefined {
+  return state.slots.find((s) => s.id === slotId);
+}
+
+/**
+ * Returns the piece being dragged, if any
+ */
+export function selectDraggedPiece(state: GameState): DiamondPiece | undefined {
+  return selectPiece(state, state.draggedPiece);
+}
+
+/**
+ * Returns the pieces placed on the board
+ */
+export function selectBoardPieces(state: GameState): DiamondPiece[] {
+  return state.pieces.filter((p) => p.slotId !== null);
+}
+
+/**
+ * Checks whether the dragged piece is held over the staging area after
+ * being picked up from the board, so letting go should remove it (with a
+ * REMOVE action) rather than drop it back into its slot
+ */
+export function selectIsStagingDrop(state: GameState): boolean {
+  const piece = selectDraggedPiece(state);
+  return (
+    !!piece &&
+    state.hoveredSlot === null &&
+    findOriginSlot(state) !== undefined &&
+    isOverStagingArea(piece.position.x, piece.position.z, state.pieces)
+  );
+}
+
+/**
+ * Returns the slot a swap-mode drop would swap with: the hovered slot while
+ * it holds a piece that can be moved, otherwise null
+ */
+export function selectSwapSlot(state: GameState): string | null {
+  if (!state.draggedPiece) return null;
+
+  const slot = selectSlot(state, state.hoveredSlot);
+  return slot && findSwapPiece(state, slot) ? slot.id : null;
+}
+
+/**
+ * Previews the adjacency rules the dragged piece would break if dropped now
+ * Swaps are played out, so a piece swapped away no longer counts as a
+ * neighbour, the piece it displaces can become one, and that piece's own
+ * clashes in its new slot are listed after the dragged piece's.
+ *
+ * @param state - Current game state
+ * @param swap - Whether swap mode is on
+ * @returns The violations (empty for a legal drop), or null when the drop
+ * would not place the piece in the hovered slot
+ */
+export function selectDropViolations(
+  state: GameState,
+  swap: boolean = false,
+): RuleViolation[] | null {
+  return findDropViolations(state, swap);
+}
+
+/**
+ * Previews the adjacency rules a piece would break if placed in a slot
+ *
+ * @returns The violations (empty for a legal placement), or null when the
+ * piece cannot be placed there
+ */
+export function selectPlacementViolations(
+  state: GameState,
+  pieceId: string,
+  slotId: string,
+): RuleViolation[] | null {
+  // Checked first so previews never log the store's placement errors
+  const slot = selectSlot(state, slotId);
+  if (!slot || slot.occupied) return null;
+
+  return findLandingViolations(
+    state,
+    placePiece(state, pieceId, slotId),
+    pieceId,
+    slotId,
+  );
+}
+
+/**
+ * Checks whether a piece is being dragged
+ */
+export function selectIsDragging(state: GameState): boolean {
+  return state.draggedPiece !== null;
+}
+
+/**
+ * Checks whether there is a board action to undo
+ */
+export function selectCanUndo(store: GameStore): boolean {
+  return canUndo(store.history);
+}
+
+/**
+ * Checks whether there is an undone board action to redo
+ */
+export function selectCanRedo(store: GameStore): boolean {
+  return canRedo(store.history);
+}
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for the shared gem assets
+ *
+ * Tests verify:
+ * - Geometries are built once per shape and shared
+ * - Materials are shared per color and glow
+ * - Flat outlines follow the seated gems
+ * - Gems are grouped into batches by shape and color, in order
+ * - Instance transforms seat each gem, and instance indices pick it back
+ */
+
+import { describe, it, expect } from "vitest";
+import { Euler, Quaternion, Vector3 } from "three";
+import {
+  GemDescriptor,
+  PIECE_COLOR_HEX,
+  findBatchGem,
+  getBatchMatrices,
+  getGemGeometry,
+  getGemMaterial,
+  getGemOutline,
+  getGemRotation,
+  groupGemsForBatching,
+} from "./gemAssets";
+import { generateDiamondPieces } from "./gameStateUtils";
+
+// A blue round gem at x on the x-axis
+const gem = (id: string, x: number = 0): GemDescriptor => ({
+  id,
+  color: "blue",
+  shape: "round",
+  position: new Vector3(x, 0, 0),
+});
+const other: GemDescriptor = { ...gem("other"), color: "red" };
+
+describe("getGemGeometry", () => {
+  it("should return the same geometry for the same shape", () => {
+    expect(getGemGeometry("round")).toBe(getGemGeometry("round"));
+    expect(getGemGeometry("round")).not.toBe(getGemGeometry("square"));
+  });
+
+  it("should build four triangles per girdle vertex", () => {
+    // Pavilion, two crown triangles and the table for each of 12 vertices
+    expect(getGemGeometry("round").attributes.position.count).toBe(12 * 4 * 3);
+    expect(getGemGeometry("square").attributes.position.count).toBe(8 * 4 * 3);
+    expect(getGemGeometry("triangular").attributes.position.count).toBe(
+      6 * 4 * 3,
+    );
+  });
+});
+
+describe("getGemMaterial", () => {
+  it("should share materials per color and glow", () => {
+    expect(getGemMaterial("green")).toBe(getGemMaterial("green", 0));
+    expect(getGemMaterial("green", 0.5)).not.toBe(getGemMaterial("green"));
+    expect(getGemMaterial("blue")).not.toBe(getGemMaterial("green"));
+  });
+
+  it("should use the piece color and stay glassy", () => {
+    const material = getGemMaterial("red", 0.3);
+
+    expect(`#${material.color.getHexString()}`).toBe(PIECE_COLOR_HEX.red);
+    expect(material.emissiveIntensity).toBe(0.3);
+    expect(material.transmission).toBe(0.6);
+  });
+});
+
+describe("getGemRotation", () => {
+  it("should turn squares into diamonds and point triangles down", () => {
+    expect(getGemRotation("square")).toEqual([0, Math.PI / 4, 0]);
+    expect(getGemRotation("triangular")).toEqual([0, Math.PI, 0]);
+    expect(getGemRotation("round")).toEqual([0, 0, 0]);
+  });
+});
+
+describe("getGemOutline", () => {
+  it("should point triangles towards the player", () => {
+    const zs = getGemOutline("triangular").map((p) => p.z);
+
+    expect(Math.max(...zs)).toBeGreaterThan(-Math.min(...zs));
+  });
+
+  it("should have one point per girdle vertex", () => {
+    expect(getGemOutline("round")).toHaveLength(12);
+    expect(getGemOutline("square")).toHaveLength(8);
+  });
+});
+
+describe("groupGemsForBatching", () => {
+  it("should put each shape and color in its own batch", () => {
+    const batches = groupGemsForBatching(generateDiamondPieces());
+
+    expect(batches).toHaveLength(13);
+    expect(batches.every((b) => b.gems.length === 1)).toBe(true);
+  });
+
+  it("should keep gems in order within a batch", () => {
+    const batches = groupGemsForBatching([gem("a"), other, gem("b")]);
+
+    expect(batches.map((b) => b.gems.map((g) => g.id))).toEqual([
+      ["a", "b"],
+      ["other"],
+    ]);
+  });
+});
+
+describe("instanced batches", () => {
+  const [batch] = groupGemsForBatching([gem("a", 1), gem("b", 2)]);
+
+  it("should seat each instance at its gem's position and rotation", () => {
+    const position = new Vector3();
+    const rotation = new Quaternion();
+    const scale = new Vector3();
+
+    const matrices = getBatchMatrices(batch, 0.5);
+    expect(matrices).toHaveLength(2);
+
+    matrices[1].decompose(position, rotation, scale);
+    expect(position.equals(new Vector3(2, 0, 0))).toBe(true);
+    expect(scale.x).toBeCloseTo(0.5);
+    expect(
+      rotation.angleTo(
+        new Quaternion().setFromEuler(new Euler(...getGemRotation("round"))),
+      ),
+    ).toBeCloseTo(0);
+  });
+
+  it("should pick the gem drawn by an instance", () => {
+    expect(findBatchGem(batch, 1)?.id).toBe("b");
+    expect(findBatchGem(batch, 0)?.id).toBe("a");
+    expect(findBatchGem(batch, undefined)).toBeUndefined();
+    expect(findBatchGem(batch, 2)).toBeUndefined();
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Shared geometry and materials for gems
+ *
+ * Building a faceted gem geometry and a transmissive physical material is
+ * costly, and every gem of a shape (or color) looks the same, so both are
+ * created once and cached: geometries by PieceShape, materials by PieceColor
+ * and glow. Everything that draws gems (DiamondPiece, GemInstances) takes
+ * them from here. Cached assets are shared, so callers must not dispose or
+ * mutate them.
+ */
+
+import * as THREE from "three";
+import { DiamondPiece, PieceColor, PieceShape } from "./types";
+
+/**
+ * What is needed to draw one gem
+ */
+export type GemDescriptor = Pick<
+  DiamondPiece,
+  "id" | "color" | "shape" | "position"
+>;
+
+/**
+ * Gems that share a geometry and material and can be drawn as one batch
+ */
+export interface GemBatch {
+  shape: PieceShape;
+  color: PieceColor;
+  gems: GemDescriptor[];
+}
+
+/**
+ * Display color of each piece color
+ */
+export const PIECE_COLOR_HEX: Record<PieceColor, string> = {
+  orange: "#ff8c00",
+  yellow: "#ffd700",
+  green: "#32cd32",
+  blue: "#1e90ff",
+  red: "#dc143c",
+};
+
+const geometryCache = new Map<PieceShape, THREE.BufferGeometry>();
+const materialCache = new Map<string, THREE.MeshPhysicalMaterial>();
+
+/**
+ * Creates a "Brilliant Cut" style geometry
+ * Structure: Tip (Bottom) -> Girdle (Middle Ring) -> Table (Top Ring) ->
+ * Center (Top Point)
+ *
+ * @param girdleVertices - Outline of the widest ring, in CCW order
+ */
+function createGemGeometry(
+  girdleVertices: { x: number; z: number }[],
+): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry();
+  const positions: number[] = [];
+
+  // Vertical dimensions (Reduced total height for balance)
+  const tipY = -0.6; // Bottom point (Shortened depth)
+  const girdleY = 0.2; // Wide point (Lowered)
+  const tableY = 0.45; // Top flat edge (Lowered)
+
+  // Pop the center just slightly above the table edge for a "convex" look
+  const centerY = 0.55; // Higher peak (0.1 above table)
+
+  // Scale factor for the table (top) relative to girdle (middle)
+  // A value of 0.75 means the top flat face is 75% size of the widest part
+  const tableScale = 0.75;
+
+  const tip = { x: 0, y: tipY, z: 0 };
+  const centerTop = { x: 0, y: centerY, z: 0 };
+
+  const numPoints = girdleVertices.length;
+
+  // 1. Pavilion Faces (Tip -> Girdle -> Girdle)
+  // Connects the bottom point to the outer ring
+  for (let i = 0; i < numPoints; i++) {
+    const d1 = girdleVertices[i];
+    const d2 = girdleVertices[(i + 1) % numPoints];
+
+    // Push Triangle: Tip -> D1 -> D2 (CCW Order for outer normal)
+    positions.push(d1.x, girdleY, d1.z);
+    positions.push(d2.x, girdleY, d2.z);
+    positions.push(tip.x, tip.y, tip.z);
+  }
+
+  // 2. Crown Faces (Girdle -> Girdle -> Table -> Table)
+  // Connects outer ring to inner top ring. Quads split into 2 triangles.
+  for (let i = 0; i < numPoints; i++) {
+    const g1 = girdleVertices[i];
+    const g2 = girdleVertices[(i + 1) % numPoints];
+
+    const t1 = { x: g1.x * tableScale, z: g1.z * tableScale };
+    const t2 = { x: g2.x * tableScale, z: g2.z * tableScale };
+
+    // Tri 1: G1 -> G2 -> T2
+    positions.push(g1.x, girdleY, g1.z);
+    positions.push(g2.x, girdleY, g2.z);
+    positions.push(t2.x, tableY, t2.z);
+
+    // Tri 2: G1 -> T2 -> T1
+    positions.push(g1.x, girdleY, g1.z);
+    positions.push(t2.x, tableY, t2.z);
+    positions.push(t1.x, tableY, t1.z);
+  }
+
+  // 3. Table Faces (Table -> Table -> Center)
+  // Fills the top hole
+  for (let i = 0; i < numPoints; i++) {
+    const g1 = girdleVertices[i];
+    const g2 = girdleVertices[(i + 1) % numPoints];
+
+    const t1 = { x: g1.x * tableScale, z: g1.z * tableScale };
+    const t2 = { x: g2.x * tableScale, z: g2.z * tableScale };
+
+    // Tri: Center -> T1 -> T2 (CCW looking from top)
+    positions.push(centerTop.x, centerTop.y, centerTop.z);
+    positions.push(t1.x, tableY, t1.z);
+    positions.push(t2.x, tableY, t2.z);
+  }
+
+  geometry.setAttribute(
+    "position",
+    new THREE.Float32BufferAttribute(positions, 3),
+  );
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+/**
+ * Outline of the girdle (widest ring) of each shape
+ */
+function getGirdleVertices(shape: PieceShape): { x: number; z: number }[] {
+  // 1. Round (12-sided)
+  if (shape === "round") {
+    const vertices = [];
+    const segments = 12;
+    const radius = 0.55;
+    for (let i = 0; i < segments; i++) {
+      const theta = (i / segments) * Math.PI * 2;
+      // Invert Sine (z = -sin) for correct CCW winding order
+      vertices.push({
+        x: Math.cos(theta) * radius,
+        z: -Math.sin(theta) * radius,
+      });
+    }
+    return vertices;
+  }
+
+  // 2. Square (Chamfered)
+  if (shape === "square") {
+    const w = 0.55; // Half width
+    const c = 0.15; // Chamfer amount
+    // 8 points CCW
+    return [
+      { x: w - c, z: -w }, // Top Right Start
+      { x: -w + c, z: -w }, // Top Left End
+      { x: -w, z: -w + c }, // Top Left Start
+      { x: -w, z: w - c }, // Bottom Left End
+      { x: -w + c, z: w }, // Bottom Left Start
+      { x: w - c, z: w }, // Bottom Right End
+      { x: w, z: w - c }, // Bottom Right Start
+      { x: w, z: -w + c }, // Top Right End
+    ];
+  }
+
+  // 3. Triangle (Chamfered)
+  const R = 0.6;
+  const delta = 0.25; // radians spread for chamfer
+
+  // 3 Corners at 90, 210, 330 degrees
+  const angles = [
+    Math.PI / 2, // Top
+    Math.PI / 2 + (2 * Math.PI) / 3, // Left Bottom
+    Math.PI / 2 + (4 * Math.PI) / 3, // Right Bottom
+  ];
+
+  // Generate pairs around each corner
+  // Invert Sine (z = -sin) for correct CCW winding order
+  return angles.flatMap((a) => [
+    { x: R * Math.cos(a - delta), z: -R * Math.sin(a - delta) },
+    { x: R * Math.cos(a + delta), z: -R * Math.sin(a + delta) },
+  ]);
+}
+
+/**
+ * Returns the shared faceted geometry for a shape
+ */
+export function getGemGeometry(shape: PieceShape): THREE.BufferGeometry {
+  let geometry = geometryCache.get(shape);
+  if (!geometry) {
+    geometry = createGemGeometry(getGirdleVertices(shape));
+    geometryCache.set(shape, geometry);
+  }
+  return geometry;
+}
+
+/**
+ * Returns the shared glassy material for a color
+ *
+ * @param color - Piece color
+ * @param emissiveIntensity - Glow used to highlight the gem (0 for none);
+ * each distinct value gets its own cached material
+ */
+export function getGemMaterial(
+  color: PieceColor,
+  emissiveIntensity: number = 0,
+): THREE.MeshPhysicalMaterial {
+  const key = `${color}:${emissiveIntensity}`;
+  let material = materialCache.get(key);
+  if (!material) {
+    const hex = PIECE_COLOR_HEX[color];
+    material = new THREE.MeshPhysicalMaterial({
+      color: hex,
+      emissive: hex,
+      emissiveIntensity,
+      metalness: 0.1,
+      roughness: 0.1,
+      transmission: 0.6, // Glassy look
+      thickness: 1.5,
+      clearcoat: 1.0,
+      flatShading: true, // Emphasize the facets
+    });
+    materialCache.set(key, material);
+  }
+  return material;
+}
+
+/**
+ * Rotation that seats each shape nicely in a slot
+ * Square: 45deg to be diamond; Triangle: 180deg to point down
+ */
+export function getGemRotation(shape: PieceShape): [number, number, number] {
+  if (shape === "square") return [0, Math.PI / 4, 0];
+  if (shape === "triangular") return [0, Math.PI, 0];
+  return [0, 0, 0];
+}
+
+/**
+ * Outline of a seated gem seen from above, for flat drawings such as
+ * challenge cards
+ * Points are in board units (x to the right, z towards the player) with the
+ * shape's seating rotation applied, so they match the 3D gem on the board.
+ */
+export function getGemOutline(shape: PieceShape): { x: number; z: number }[] {
+  const angle = getGemRotation(shape)[1];
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return getGirdleVertices(shape).map(({ x, z }) => ({
+    x: x * cos + z * sin,
+    z: -x * sin + z * cos,
+  }));
+}
+
+/**
+ * Groups gems by shape and color so each group can be drawn in one call
+ * Gems keep their order within a group, so an instance index maps back to
+ * its gem.
+ */
+export function groupGemsForBatching(gems: GemDescriptor[]): GemBatch[] {
+  const batches = new Map<string, GemBatch>();
+  for (const gem of gems) {
+    const key = `${gem.shape}:${gem.color}`;
+    let batch = batches.get(key);
+    if (!batch) {
+      batch = { shape: gem.shape, color: gem.color, gems: [] };
+      batches.set(key, batch);
+    }
+    batch.gems.push(gem);
+  }
+  return [...batches.values()];
+}
+
+/**
+ * Builds the instance transforms of a batch, one per gem and in its order
+ * Each matrix seats the gem at its position with its shape's rotation, as
+ * DiamondPiece does for a single gem.
+ *
+ * @param batch - Batch to draw
+ * @param scale - Uniform scale applied to every gem
+ */
+export function getBatchMatrices(
+  batch: GemBatch,
+  scale: number = 1,
+): THREE.Matrix4[] {
+  const dummy = new THREE.Object3D();
+  dummy.rotation.set(...getGemRotation(batch.shape));
+  dummy.scale.setScalar(scale);
+
+  return batch.gems.map((gem) => {
+    dummy.position.copy(gem.position);
+    dummy.updateMatrix();
+    return dummy.matrix.clone();
+  });
+}
+
+/**
+ * Finds the gem drawn by an instance of a batch's instanced mesh
+ *
+ * @param batch - Batch the mesh draws
+ * @param instanceId - Instance index reported by the pointer event, if any
+ * @returns The gem, or undefined when the index does not match one
+ */
+export function findBatchGem(
+  batch: GemBatch,
+  instanceId: number | undefined,
+): GemDescriptor | undefined {
+  return instanceId === undefined ? undefined : batch.gems[instanceId];
+}
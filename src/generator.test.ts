@@ -0,0 +1,129 @@
+/**
+ * Unit tests for the procedural challenge generator
+ *
+ * Tests verify:
+ * - The seeded random numbers and shuffles are reproducible
+ * - Generated challenges have exactly one solution and no spare clues
+ * - The same seed gives the same challenge
+ * - Difficulty follows the solver's effort and requested tiers are met
+ * - Generated challenge IDs carry the generator inputs
+ */
+
+import { describe, it, expect } from "vitest";
+import { loadChallenge } from "./challenges";
+import {
+  DIFFICULTY_NODE_THRESHOLDS,
+  createRandom,
+  generateChallenge,
+  getGeneratedChallenge,
+  getGeneratedChallengeId,
+  parseGeneratedChallengeId,
+  rateDifficulty,
+  shuffle,
+} from "./generator";
+import { createSolverPuzzle, findAllSolutions } from "./solver";
+import { Challenge } from "./types";
+
+const solutionsOf = (challenge: Challenge) =>
+  findAllSolutions(
+    createSolverPuzzle(loadChallenge(challenge), challenge, "locked"),
+    2,
+  );
+
+describe("createRandom", () => {
+  it("repeats the same sequence for the same seed", () => {
+    const a = createRandom(7);
+    const b = createRandom(7);
+    const sequence = Array.from({ length: 5 }, a);
+
+    expect(Array.from({ length: 5 }, b)).toEqual(sequence);
+    expect(sequence.every((n) => n >= 0 && n < 1)).toBe(true);
+    expect(createRandom(8)()).not.toBe(sequence[0]);
+  });
+});
+
+describe("shuffle", () => {
+  it("returns a reordered copy", () => {
+    const items = [1, 2, 3, 4, 5, 6, 7, 8];
+    const shuffled = shuffle(items, createRandom(1));
+
+    expect([...shuffled].sort()).toEqual(items);
+    expect(items).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+  });
+});
+
+describe("generateChallenge", () => {
+  const generated = generateChallenge(42);
+
+  it("has exactly one solution, matching the generated board", () => {
+    const solutions = solutionsOf(generated.challenge);
+
+    expect(solutions).toEqual([generated.solution]);
+    expect(Object.keys(generated.solution)).toHaveLength(13);
+  });
+
+  it("keeps only clues the solution depends on", () => {
+    const { challenge } = generated;
+    for (const clue of challenge.prePlaced) {
+      const fewer = {
+        ...challenge,
+        prePlaced: challenge.prePlaced.filter((p) => p !== clue),
+      };
+      expect(solutionsOf(fewer).length).toBeGreaterThan(1);
+    }
+  });
+
+  it("gives the same challenge for the same seed", () => {
+    expect(generateChallenge(42)).toEqual(generated);
+    expect(generateChallenge(43).challenge.prePlaced).not.toEqual(
+      generated.challenge.prePlaced,
+    );
+  });
+
+  it("rates the challenge by the solver effort", () => {
+    expect(generated.challenge.difficulty).toBe(
+      rateDifficulty(generated.nodes),
+    );
+  });
+
+  it("aims for a requested difficulty", () => {
+    const { challenge } = generateChallenge(42, "junior");
+
+    expect(challenge.difficulty).toBe("junior");
+    expect(challenge.id).toBe("generated-42-junior");
+  });
+});
+
+describe("rateDifficulty", () => {
+  it("maps node counts onto the tiers", () => {
+    expect(rateDifficulty(0)).toBe("starter");
+    expect(rateDifficulty(DIFFICULTY_NODE_THRESHOLDS.junior)).toBe("junior");
+    expect(rateDifficulty(DIFFICULTY_NODE_THRESHOLDS.master - 1)).toBe(
+      "expert",
+    );
+    expect(rateDifficulty(1e6)).toBe("master");
+  });
+});
+
+describe("generated challenge IDs", () => {
+  it("round-trip the seed and difficulty", () => {
+    expect(parseGeneratedChallengeId(getGeneratedChallengeId(5))).toEqual({
+      seed: 5,
+    });
+    expect(
+      parseGeneratedChallengeId(getGeneratedChallengeId(5, "master")),
+    ).toEqual({ seed: 5, difficulty: "master" });
+  });
+
+  it("reject other IDs", () => {
+    expect(parseGeneratedChallengeId("starter-01")).toBeNull();
+    expect(parseGeneratedChallengeId("generated-5-legendary")).toBeNull();
+    expect(getGeneratedChallenge("starter-01")).toBeUndefined();
+  });
+
+  it("look up the same challenge as the generator", () => {
+    expect(getGeneratedChallenge("generated-42")).toEqual(
+      generateChallenge(42).challenge,
+    );
+  });
+});
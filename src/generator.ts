@@ -0,0 +1,235 @@
+/**
+ * Procedural challenge generator
+ *
+ * Builds challenges beyond the bundled catalogue from a seed:
+ * 1. Shuffle the piece set and let the solver find a full legal board, so
+ *    each seed starts from a different board
+ * 2. Visit the gems in a random order and take each one off the board when
+ *    the remaining clues still leave exactly one solution
+ * 3. Rate the result by the solver's effort (nodes visited) to prove that
+ *    the solution is unique from the clues
+ *
+ * The same seed always gives the same challenge, so a generated challenge
+ * is shared by its ID alone (see getGeneratedChallengeId).
+ */
+
+import { CHALLENGE_DIFFICULTIES } from "./challenges";
+import { generateBoardSlots, generateDiamondPieces } from "./gameStateUtils";
+import { Solution, SolverPuzzle, solvePuzzle } from "./solver";
+import { Challenge, ChallengeDifficulty } from "./types";
+
+/**
+ * Prefix of generated challenge IDs
+ */
+export const GENERATED_CHALLENGE_PREFIX = "generated-";
+
+/**
+ * Fewest solver nodes a challenge needs to reach each difficulty tier
+ */
+export const DIFFICULTY_NODE_THRESHOLDS: Record<ChallengeDifficulty, number> = {
+  starter: 0,
+  junior: 150,
+  expert: 400,
+  master: 900,
+};
+
+/**
+ * Boards tried when looking for a requested difficulty before settling for
+ * the closest one
+ */
+export const MAX_GENERATION_ATTEMPTS = 25;
+
+/**
+ * A generated challenge with its solution and rating
+ */
+export interface GeneratedChallenge {
+  challenge: Challenge;
+
+  /** The only completion of the challenge's clues */
+  solution: Solution;
+
+  /** Solver nodes needed to prove the solution unique */
+  nodes: number;
+}
+
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32)
+ *
+ * @param seed - Any 32-bit integer
+ * @returns Function returning numbers in [0, 1), the same sequence for the
+ * same seed
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed | 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Returns a shuffled copy of a list (Fisher-Yates)
+ */
+export function shuffle<T>(items: readonly T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Rates a challenge by the solver nodes needed to solve it from its clues
+ */
+export function rateDifficulty(nodes: number): ChallengeDifficulty {
+  return CHALLENGE_DIFFICULTIES.reduce(
+    (rating, difficulty) =>
+      nodes >= DIFFICULTY_NODE_THRESHOLDS[difficulty] ? difficulty : rating,
+    CHALLENGE_DIFFICULTIES[0],
+  );
+}
+
+/**
+ * Builds the ID of a generated challenge, e.g. "generated-42" or
+ * "generated-42-expert"
+ */
+export function getGeneratedChallengeId(
+  seed: number,
+  difficulty?: ChallengeDifficulty,
+): string {
+  return `${GENERATED_CHALLENGE_PREFIX}${seed}${difficulty ? `-${difficulty}` : ""}`;
+}
+
+/**
+ * Reads the seed and requested difficulty back from a generated challenge ID
+ *
+ * @returns The generator inputs, or null when the ID is not a generated one
+ */
+export function parseGeneratedChallengeId(
+  id: string,
+): { seed: number; difficulty?: ChallengeDifficulty } | null {
+  const match = /^generated-(\d{1,9})(?:-([a-z]+))?$/.exec(id);
+  if (!match) return null;
+
+  const difficulty = match[2] as ChallengeDifficulty | undefined;
+  if (difficulty && !CHALLENGE_DIFFICULTIES.includes(difficulty)) return null;
+
+  return { seed: Number(match[1]), ...(difficulty ? { difficulty } : {}) };
+}
+
+/**
+ * The full piece set on the empty board
+ */
+function createEmptyPuzzle(): SolverPuzzle {
+  return {
+    pieces: generateDiamondPieces().map(({ id, color, shape }) => ({
+      id,
+      color,
+      shape,
+    })),
+    slots: generateBoardSlots().map(({ id, position }) => ({
+      id,
+      position: { x: position.x, z: position.z },
+    })),
+    fixed: {},
+    constraints: [],
+  };
+}
+
+/**
+ * Makes one puzzle: a random full board thinned to a minimal set of clues
+ */
+function generateOnce(
+  puzzle: SolverPuzzle,
+  random: () => number,
+): { clues: Solution; solution: Solution; nodes: number } {
+  // The solver tries pieces in list order, so shuffling them gives a
+  // different full board
+  const pieces = shuffle(puzzle.pieces, random);
+  const solution = solvePuzzle({ ...puzzle, pieces }, { limit: 1 })
+    .solutions[0];
+
+  let clues: Solution = { ...solution };
+  for (const slotId of shuffle(Object.keys(solution), random)) {
+    const { [slotId]: _removed, ...fewer } = clues;
+    if (solvePuzzle({ ...puzzle, fixed: fewer }, { limit: 2 }).count === 1) {
+      clues = fewer;
+    }
+  }
+
+  const { nodes } = solvePuzzle({ ...puzzle, fixed: clues }, { limit: 2 });
+  return { clues, solution, nodes };
+}
+
+/**
+ * Generates a challenge from a seed
+ *
+ * @param seed - Seed for the random choices; the same seed (and difficulty)
+ * always gives the same challenge
+ * @param difficulty - Tier to aim for; boards are generated until one is
+ * rated at this tier, or the closest of MAX_GENERATION_ATTEMPTS is used
+ * @returns The challenge with its solution and solver effort
+ */
+export function generateChallenge(
+  seed: number,
+  difficulty?: ChallengeDifficulty,
+): GeneratedChallenge {
+  const random = createRandom(seed);
+  const puzzle = createEmptyPuzzle();
+  const distance = (nodes: number) =>
+    difficulty
+      ? Math.abs(
+          CHALLENGE_DIFFICULTIES.indexOf(rateDifficulty(nodes)) -
+            CHALLENGE_DIFFICULTIES.indexOf(difficulty),
+        )
+      : 0;
+
+  let best = generateOnce(puzzle, random);
+  for (
+    let attempt = 1;
+    attempt < MAX_GENERATION_ATTEMPTS && distance(best.nodes) > 0;
+    attempt++
+  ) {
+    const next = generateOnce(puzzle, random);
+    if (distance(next.nodes) < distance(best.nodes)) best = next;
+  }
+
+  const rating = rateDifficulty(best.nodes);
+  return {
+    challenge: {
+      id: getGeneratedChallengeId(seed, difficulty),
+      name: `Generated #${seed}`,
+      difficulty: rating,
+      prePlaced: Object.entries(best.clues).map(([slotId, pieceId]) => ({
+        pieceId,
+        slotId,
+      })),
+      excludedPieces: [],
+      constraints: [],
+    },
+    solution: best.solution,
+    nodes: best.nodes,
+  };
+}
+
+const generatedById = new Map<string, Challenge>();
+
+/**
+ * Looks up a generated challenge by ID, generating it on first use
+ *
+ * @returns The challenge, or undefined when the ID is not a generated one
+ */
+export function getGeneratedChallenge(id: string): Challenge | undefined {
+  const cached = generatedById.get(id);
+  if (cached) return cached;
+
+  const inputs = parseGeneratedChallengeId(id);
+  if (!inputs) return undefined;
+
+  const { challenge } = generateChallenge(inputs.seed, inputs.difficulty);
+  generatedById.set(id, challenge);
+  return challenge;
+}
@@ -0,0 +1,22 @@
+/**
+ * String hashing
+ *
+ * A small, fast, non-cryptographic hash shared by the daily challenge seeds
+ * (daily.ts) and the board code checksum (boardCodec.ts). Results must stay
+ * the same between releases: they pick each day's challenge and validate
+ * shared links.
+ */
+
+/**
+ * Computes the 32-bit FNV-1a hash of a string
+ *
+ * @returns The hash as an unsigned integer
+ */
+export function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (const char of text) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,153 @@
+/**
+ * Unit tests for the progressive hint system
+ *
+ * Tests verify:
+ * - Hints point at wrong slots before empty ones
+ * - Asking again about the same slot escalates the hint level
+ * - Level 3 hints move the right piece into the slot
+ * - Hint usage is counted per challenge
+ */
+
+import { describe, it, expect } from "vitest";
+import { getChallengeById, loadChallenge } from "./challenges";
+import {
+  Hint,
+  applyHint,
+  findHintTarget,
+  getNextHint,
+  isHintResolved,
+  recordHintUsed,
+} from "./hints";
+import { applySolution, createSolverPuzzle, findFirstSolution } from "./solver";
+
+const challenge = getChallengeById("starter-01")!;
+const solution = findFirstSolution(
+  createSolverPuzzle(loadChallenge(challenge), challenge),
+)!;
+const lockedSlots = Object.fromEntries(
+  challenge.prePlaced.map((p) => [p.slotId, p.pieceId]),
+);
+
+describe("findHintTarget", () => {
+  it("should point at the first empty slot of a fresh board", () => {
+    const target = findHintTarget(loadChallenge(challenge), solution);
+    const firstEmpty = loadChallenge(challenge).slots.find((s) => !s.occupied)!;
+
+    expect(target).toEqual({
+      slotId: firstEmpty.id,
+      pieceId: solution[firstEmpty.id],
+    });
+  });
+
+  it("should point at a wrong slot before any empty slot", () => {
+    // The red diamond belongs in slot-13, not slot-4
+    const state = applySolution(loadChallenge(challenge), {
+      ...lockedSlots,
+      "slot-4": "piece-red-round",
+    });
+
+    expect(findHintTarget(state, solution)).toEqual({
+      slotId: "slot-4",
+      pieceId: solution["slot-4"],
+    });
+  });
+
+  it("should return null once the board matches the solution", () => {
+    const state = applySolution(loadChallenge(challenge), solution);
+    expect(findHintTarget(state, solution)).toBeNull();
+    expect(getNextHint(state, solution, null)).toBeNull();
+  });
+});
+
+describe("getNextHint", () => {
+  it("should escalate from highlighting to naming to placing", () => {
+    const state = loadChallenge(challenge);
+
+    const first = getNextHint(state, solution, null)!;
+    const second = getNextHint(state, solution, first)!;
+    const third = getNextHint(state, solution, second)!;
+    const fourth = getNextHint(state, solution, third)!;
+
+    expect([first, second, third, fourth].map((h) => h.level)).toEqual([
+      1, 2, 3, 3,
+    ]);
+    expect(second.slotId).toBe(first.slotId);
+    expect(second.message).toContain(
+      solution[first.slotId].replace("piece-", "").replace("-", " "),
+    );
+  });
+
+  it("should start over at level 1 for a different slot", () => {
+    const state = loadChallenge(challenge);
+    const stale: Hint = {
+      level: 2,
+      slotId: "slot-13",
+      pieceId: "piece-red-round",
+      message: "",
+    };
+
+    const next = getNextHint(state, solution, stale)!;
+    expect(next.level).toBe(1);
+    expect(next.slotId).not.toBe("slot-13");
+  });
+});
+
+describe("applyHint", () => {
+  it("should place the hinted piece and send the wrong piece to staging", () => {
+    const state = applySolution(loadChallenge(challenge), {
+      ...lockedSlots,
+      "slot-4": "piece-red-round",
+    });
+    const hint: Hint = {
+      level: 3,
+      slotId: "slot-4",
+      pieceId: solution["slot-4"],
+      message: "",
+    };
+
+    const next = applyHint(state, hint);
+    const red = next.pieces.find((p) => p.id === "piece-red-round")!;
+    const placed = next.pieces.find((p) => p.id === hint.pieceId)!;
+
+    expect(red.slotId).toBeNull();
+    expect(red.position.equals(red.stagingPosition)).toBe(true);
+    expect(placed.slotId).toBe("slot-4");
+    expect(
+      placed.position.equals(
+        next.slots.find((s) => s.id === "slot-4")!.position,
+      ),
+    ).toBe(true);
+    expect(next.slots.find((s) => s.id === "slot-4")!.pieceId).toBe(
+      hint.pieceId,
+    );
+    expect(isHintResolved(next, hint)).toBe(true);
+  });
+
+  it("should free the slot the hinted piece came from", () => {
+    const state = applySolution(loadChallenge(challenge), {
+      ...lockedSlots,
+      "slot-2": "piece-red-round",
+    });
+    const hint: Hint = {
+      level: 3,
+      slotId: "slot-13",
+      pieceId: "piece-red-round",
+      message: "",
+    };
+
+    const next = applyHint(state, hint);
+    const slot2 = next.slots.find((s) => s.id === "slot-2")!;
+    expect(slot2.occupied).toBe(false);
+    expect(slot2.pieceId).toBeNull();
+  });
+});
+
+describe("recordHintUsed", () => {
+  it("should count hints per challenge", () => {
+    let usage = recordHintUsed({}, "starter-01");
+    usage = recordHintUsed(usage, "starter-01");
+    usage = recordHintUsed(usage, "junior-01");
+
+    expect(usage).toEqual({ "starter-01": 2, "junior-01": 1 });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Progressive hint system
+ *
+ * Compares the board with the challenge's solution and escalates help in
+ * three steps for the same slot:
+ * 1. point at a slot that is wrong or still empty
+ * 2. name the piece that belongs there
+ * 3. move that piece into the slot
+ *
+ * Everything here is pure; the solution comes from the solver and hint
+ * usage is persisted by the caller.
+ */
+
+import { Solution } from "./solver";
+import { GameState } from "./types";
+
+/**
+ * How much a hint gives away
+ * 1 = highlight slot, 2 = name piece, 3 = place piece
+ */
+export type HintLevel = 1 | 2 | 3;
+
+/**
+ * A hint about one slot of the board
+ */
+export interface Hint {
+  /** How much of the answer is revealed */
+  level: HintLevel;
+
+  /** ID of the slot the hint is about */
+  slotId: string;
+
+  /** ID of the piece that belongs in the slot */
+  pieceId: string;
+
+  /** Text shown to the player */
+  message: string;
+}
+
+/**
+ * Number of hints used, keyed by challenge ID
+ */
+export type HintUsage = Record<string, number>;
+
+const slotLabel = (slotId: string) => `slot ${slotId.replace("slot-", "")}`;
+
+const pieceLabel = (pieceId: string) =>
+  `${pieceId.replace("piece-", "").replace("-", " ")} diamond`;
+
+/**
+ * Finds the slot the next hint should be about
+ *
+ * Slots holding the wrong piece come first, then empty slots, each in board
+ * order. Returns null when the board already matches the solution.
+ */
+export function findHintTarget(
+  state: GameState,
+  solution: Solution,
+): { slotId: string; pieceId: string } | null {
+  const wrong = state.slots.find(
+    (s) => s.pieceId !== null && solution[s.id] && s.pieceId !== solution[s.id],
+  );
+  const empty = state.slots.find(
+    (s) => s.pieceId === null && solution[s.id] !== undefined,
+  );
+  const target = wrong ?? empty;
+
+  return target ? { slotId: target.id, pieceId: solution[target.id] } : null;
+}
+
+/**
+ * Checks whether the slot a hint points at now holds the right piece
+ */
+export function isHintResolved(state: GameState, hint: Hint): boolean {
+  return state.slots.some(
+    (s) => s.id === hint.slotId && s.pieceId === hint.pieceId,
+  );
+}
+
+/**
+ * Works out the next hint to show
+ *
+ * Asking again about the same unresolved slot escalates to the next level;
+ * otherwise the hint starts over at level 1 for the next target slot.
+ *
+ * @param state - Current game state
+ * @param solution - The challenge's solution
+ * @param previous - The hint shown last, if any
+ * @returns The next hint, or null when the board is already solved
+ */
+export function getNextHint(
+  state: GameState,
+  solution: Solution,
+  previous: Hint | null,
+): Hint | null {
+  const target = findHintTarget(state, solution);
+  if (!target) return null;
+
+  const escalate =
+    previous !== null &&
+    previous.slotId === target.slotId &&
+    previous.pieceId === target.pieceId;
+  const level: HintLevel = escalate
+    ? (Math.min(previous.level + 1, 3) as HintLevel)
+    : 1;
+
+  const occupied = state.slots.find((s) => s.id === target.slotId)?.pieceId;
+  const messages: Record<HintLevel, string> = {
+    1: occupied
+      ? `Take another look at ${slotLabel(target.slotId)}.`
+      : `Try filling ${slotLabel(target.slotId)} next.`,
+    2: `The ${pieceLabel(target.pieceId)} belongs in ${slotLabel(target.slotId)}.`,
+    3: `Placing the ${pieceLabel(target.pieceId)} in ${slotLabel(target.slotId)}.`,
+  };
+
+  return { level, ...target, message: messages[level] };
+}
+
+/**
+ * Carries out a hint by moving its piece into its slot
+ *
+ * Whatever piece currently sits in the target slot returns to the staging
+ * area, and the hinted piece leaves any slot it was in. The piece is put at
+ * the slot's position in one step; the piece animation eases it there.
+ *
+ * @param state - Current game state
+ * @param hint - Hint to carry out
+ * @returns The game state with the hinted piece in its slot
+ */
+export function applyHint(state: GameState, hint: Hint): GameState {
+  const slot = state.slots.find((s) => s.id === hint.slotId);
+  if (!slot) return state;
+
+  const displaced = slot.pieceId !== hint.pieceId ? slot.pieceId : null;
+
+  return {
+    ...state,
+    pieces: state.pieces.map((piece) => {
+      if (piece.id === hint.pieceId) {
+        return { ...piece, position: slot.position.clone(), slotId: slot.id };
+      }
+      if (piece.id === displaced) {
+        return {
+          ...piece,
+          position: piece.stagingPosition.clone(),
+          slotId: null,
+        };
+      }
+      return piece;
+    }),
+    slots: state.slots.map((s) => {
+      if (s.id === slot.id) {
+        return { ...s, occupied: true, pieceId: hint.pieceId };
+      }
+      if (s.pieceId === hint.pieceId) {
+        return { ...s, occupied: false, pieceId: null };
+      }
+      return s;
+    }),
+  };
+}
+
+/**
+ * Records that a hint was used on a challenge
+ */
+export function recordHintUsed(
+  usage: HintUsage,
+  challengeId: string,
+): HintUsage {
+  return { ...usage, [challengeId]: (usage[challengeId] ?? 0) + 1 };
+}
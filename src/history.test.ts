@@ -0,0 +1,150 @@
+/**
+ * Unit tests for the undo/redo history
+ *
+ * Tests verify:
+ * - Snapshots capture only which piece sits in which slot
+ * - Unchanged boards are not recorded and new actions clear redo
+ * - Undo and redo step through the recorded arrangements
+ * - Restoring a snapshot moves pieces back into place
+ */
+
+import { describe, it, expect } from "vitest";
+import { createInitialGameState } from "./gameStateUtils";
+import {
+  HistoryEntry,
+  canRedo,
+  canUndo,
+  createHistory,
+  recordAction,
+  redo,
+  restoreSnapshot,
+  takeSnapshot,
+  undo,
+} from "./history";
+
+const place = (
+  before: Record<string, string>,
+  slotId: string,
+  pieceId: string,
+): HistoryEntry => ({
+  type: "place",
+  before,
+  after: { ...before, [slotId]: pieceId },
+});
+
+describe("takeSnapshot", () => {
+  it("should record occupied slots only", () => {
+    const state = restoreSnapshot(createInitialGameState(), {
+      "slot-7": "piece-red-round",
+    });
+
+    expect(takeSnapshot(state)).toEqual({ "slot-7": "piece-red-round" });
+  });
+
+  it("should ignore hover and drag state", () => {
+    const state = {
+      ...createInitialGameState(),
+      hoveredSlot: "slot-3",
+      draggedPiece: "piece-blue-round",
+    };
+
+    expect(takeSnapshot(state)).toEqual({});
+  });
+});
+
+describe("recordAction", () => {
+  it("should add an action and enable undo", () => {
+    const history = recordAction(
+      createHistory(),
+      place({}, "slot-7", "piece-red-round"),
+    );
+
+    expect(history.past).toHaveLength(1);
+    expect(canUndo(history)).toBe(true);
+    expect(canRedo(history)).toBe(false);
+  });
+
+  it("should skip actions that leave the board unchanged", () => {
+    const board = { "slot-7": "piece-red-round" };
+    const history = recordAction(createHistory(), {
+      type: "move",
+      before: board,
+      after: { ...board },
+    });
+
+    expect(history.past).toHaveLength(0);
+  });
+
+  it("should clear the redo stack", () => {
+    const first = place({}, "slot-7", "piece-red-round");
+    const history = undo(recordAction(createHistory(), first))!.history;
+    expect(canRedo(history)).toBe(true);
+
+    const next = recordAction(history, place({}, "slot-1", "piece-blue-round"));
+    expect(canRedo(next)).toBe(false);
+  });
+
+  it("should drop the oldest actions beyond the limit", () => {
+    let history = createHistory();
+    for (let i = 1; i <= 5; i++) {
+      history = recordAction(
+        history,
+        place({}, `slot-${i}`, "piece-red-round"),
+        3,
+      );
+    }
+
+    expect(history.past.map((e) => e.after)).toEqual([
+      { "slot-3": "piece-red-round" },
+      { "slot-4": "piece-red-round" },
+      { "slot-5": "piece-red-round" },
+    ]);
+  });
+});
+
+describe("undo and redo", () => {
+  const first = place({}, "slot-7", "piece-red-round");
+  const second = place(first.after, "slot-3", "piece-blue-square");
+  const history = recordAction(recordAction(createHistory(), first), second);
+
+  it("should return null when there is nothing to step through", () => {
+    expect(undo(createHistory())).toBeNull();
+    expect(redo(createHistory())).toBeNull();
+  });
+
+  it("should undo actions in reverse order", () => {
+    const once = undo(history)!;
+    expect(once.snapshot).toEqual(first.after);
+
+    const twice = undo(once.history)!;
+    expect(twice.snapshot).toEqual({});
+    expect(canUndo(twice.history)).toBe(false);
+  });
+
+  it("should redo what was undone", () => {
+    const undone = undo(undo(history)!.history)!;
+    const redone = redo(undone.history)!;
+
+    expect(redone.snapshot).toEqual(first.after);
+    expect(redo(redone.history)!.snapshot).toEqual(second.after);
+  });
+});
+
+describe("restoreSnapshot", () => {
+  it("should move pieces into their slots and the rest to staging", () => {
+    const start = restoreSnapshot(createInitialGameState(), {
+      "slot-1": "piece-blue-round",
+    });
+    const state = restoreSnapshot(start, { "slot-7": "piece-red-round" });
+
+    const red = state.pieces.find((p) => p.id === "piece-red-round")!;
+    const blue = state.pieces.find((p) => p.id === "piece-blue-round")!;
+    const slot7 = state.slots.find((s) => s.id === "slot-7")!;
+
+    expect(red.slotId).toBe("slot-7");
+    expect(red.position.equals(slot7.position)).toBe(true);
+    expect(blue.slotId).toBeNull();
+    expect(blue.position.equals(blue.stagingPosition)).toBe(true);
+    expect(state.slots.find((s) => s.id === "slot-1")!.occupied).toBe(false);
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Undo/redo history for board mutations
+ *
+ * Every committed change to the board is recorded as one action holding the
+ * arrangement before and after it. Only which piece sits in which slot is
+ * stored: hover state and the positions a piece passes through while being
+ * dragged never reach the history, so one drag is one entry.
+ *
+ * Everything here is pure; the caller decides when a change is committed.
+ */
+
+import { applySolution } from "./solver";
+import { GameState } from "./types";
+
+/**
+ * Kind of board mutation recorded in the history
+ */
+export type HistoryActionType = "place" | "remove" | "move" | "reset" | "hint";
+
+/**
+ * Committed board arrangement: slot ID to piece ID (empty slots are omitted)
+ */
+export type BoardSnapshot = Record<string, string>;
+
+/**
+ * One undoable board mutation
+ */
+export interface HistoryEntry {
+  /** What the player did */
+  type: HistoryActionType;
+
+  /** Board arrangement before the action */
+  before: BoardSnapshot;
+
+  /** Board arrangement after the action */
+  after: BoardSnapshot;
+}
+
+/**
+ * Undo and redo stacks, most recent entry last
+ */
+export interface History {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+/**
+ * Maximum number of actions kept for undo
+ */
+export const HISTORY_LIMIT = 200;
+
+/**
+ * Creates an empty history
+ */
+export function createHistory(): History {
+  return { past: [], future: [] };
+}
+
+/**
+ * Captures the committed arrangement of a board
+ */
+export function takeSnapshot(state: GameState): BoardSnapshot {
+  const snapshot: BoardSnapshot = {};
+  for (const slot of state.slots) {
+    if (slot.pieceId) snapshot[slot.id] = slot.pieceId;
+  }
+  return snapshot;
+}
+
+/**
+ * Checks whether two snapshots describe the same arrangement
+ */
+export function snapshotsEqual(a: BoardSnapshot, b: BoardSnapshot): boolean {
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length && keys.every((k) => a[k] === b[k])
+  );
+}
+
+/**
+ * Records a committed action
+ *
+ * Actions that leave the board unchanged (a drop back where the piece came
+ * from, a reset of an untouched board) are not recorded. Recording a new
+ * action discards anything that could have been redone.
+ *
+ * @param history - Current history
+ * @param entry - The action and the arrangements around it
+ * @param limit - Maximum number of entries to keep
+ * @returns The updated history
+ */
+export function recordAction(
+  history: History,
+  entry: HistoryEntry,
+  limit: number = HISTORY_LIMIT,
+): History {
+  if (snapshotsEqual(entry.before, entry.after)) return history;
+
+  return {
+    past: [...history.past, entry].slice(-limit),
+    future: [],
+  };
+}
+
+/**
+ * Checks whether there is an action to undo
+ */
+export function canUndo(history: History): boolean {
+  return history.past.length > 0;
+}
+
+/**
+ * Checks whether there is an undone action to redo
+ */
+export function canRedo(history: History): boolean {
+  return history.future.length > 0;
+}
+
+/**
+ * Steps back one action
+ *
+ * @returns The updated history and the arrangement to restore, or null when
+ * there is nothing to undo
+ */
+export function undo(
+  history: History,
+): { history: History; snapshot: BoardSnapshot } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, entry],
+    },
+    snapshot: entry.before,
+  };
+}
+
+/**
+ * Steps forward one undone action
+ *
+ * @returns The updated history and the arrangement to restore, or null when
+ * there is nothing to redo
+ */
+export function redo(
+  history: History,
+): { history: History; snapshot: BoardSnapshot } | null {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+
+  return {
+    history: {
+      past: [...history.past, entry],
+      future: history.future.slice(0, -1),
+    },
+    snapshot: entry.after,
+  };
+}
+
+/**
+ * Puts the board back into a recorded arrangement
+ * Pieces not in the snapshot return to the staging area
+ */
+export function restoreSnapshot(
+  state: GameState,
+  snapshot: BoardSnapshot,
+): GameState {
+  return applySolution(state, snapshot);
+}
+
+/**
+ * Puts an arrangement onto a board while keeping its locked pieces
+ *
+ * Locked pieces always stay in their own slots. Placements that do not fit
+ * the board (unknown slots or pieces, locked or missing pieces, pieces
+ * placed twice) are dropped rather than failing the whole restore.
+ *
+ * @param state - Game state whose locked pieces must stay put
+ * @param snapshot - Arrangement to apply on top
+ * @returns The game state with the arrangement applied
+ */
+export function mergeSnapshot(
+  state: GameState,
+  snapshot: BoardSnapshot,
+): GameState {
+  const pieces = new Map(state.pieces.map((p) => [p.id, p]));
+  const slotIds = new Set(state.slots.map((s) => s.id));
+  const placements: BoardSnapshot = {};
+  const used = new Set<string>();
+
+  for (const piece of state.pieces) {
+    if (piece.locked && piece.slotId) {
+      placements[piece.slotId] = piece.id;
+      used.add(piece.id);
+    }
+  }
+
+  for (const [slotId, pieceId] of Object.entries(snapshot)) {
+    const piece = pieces.get(pieceId);
+    if (!slotIds.has(slotId) || !piece || piece.locked) continue;
+    if (used.has(pieceId) || placements[slotId]) continue;
+
+    placements[slotId] = pieceId;
+    used.add(pieceId);
+  }
+
+  return restoreSnapshot(state, placements);
+}
@@ -0,0 +1,216 @@
+/**
+ * Unit tests for keyboard-only piece placement
+ *
+ * Tests verify:
+ * - Slots are grouped into the rows seen from the default camera
+ * - The slot cursor moves along rows and stops at the edge of the board
+ * - Tab and the arrow keys cycle through staged pieces, skipping locked ones
+ * - Enter picks a piece up and drops it into a free slot
+ * - Escape sends a held piece back to the staging area
+ */
+
+import { describe, it, expect } from "vitest";
+import { getChallengeById, loadChallenge } from "./challenges";
+import { createInitialGameState } from "./gameStateUtils";
+import { gameReducer } from "./gameStore";
+import {
+  IDLE_CURSOR,
+  KeyboardCursor,
+  cycleStagedPiece,
+  getSlotRows,
+  getStagedPieces,
+  handleBoardKey,
+  moveSlotCursor,
+} from "./keyboardControls";
+import { GameState } from "./types";
+
+// Presses keys in turn, applying each resulting action to the state
+const press = (
+  state: GameState,
+  cursor: KeyboardCursor,
+  ...keys: string[]
+): { state: GameState; cursor: KeyboardCursor } =>
+  keys.reduce(
+    (acc, key) => {
+      const result = handleBoardKey(acc.state, acc.cursor, key);
+      return {
+        state: result.action
+          ? gameReducer(acc.state, result.action)
+          : acc.state,
+        cursor: result.cursor,
+      };
+    },
+    { state, cursor },
+  );
+
+describe("getSlotRows", () => {
+  it("groups the 13 slots into rows of 3-2-3-2-3", () => {
+    const rows = getSlotRows(createInitialGameState().slots);
+
+    expect(rows.map((row) => row.length)).toEqual([3, 2, 3, 2, 3]);
+    expect(rows.flat().sort()).toHaveLength(13);
+    expect(rows[2]).toContain("slot-7");
+  });
+});
+
+describe("moveSlotCursor", () => {
+  const slots = createInitialGameState().slots;
+
+  it("moves left and right within a row", () => {
+    const [left, middle, right] = getSlotRows(slots)[2];
+
+    expect(moveSlotCursor(slots, middle, "left")).toBe(left);
+    expect(moveSlotCursor(slots, middle, "right")).toBe(right);
+  });
+
+  it("stays put at the edge of the board", () => {
+    const rows = getSlotRows(slots);
+
+    expect(moveSlotCursor(slots, rows[0][0], "up")).toBe(rows[0][0]);
+    expect(moveSlotCursor(slots, rows[0][0], "left")).toBe(rows[0][0]);
+    expect(moveSlotCursor(slots, rows[4][2], "down")).toBe(rows[4][2]);
+    expect(moveSlotCursor(slots, rows[4][2], "right")).toBe(rows[4][2]);
+  });
+
+  it("moves up and down to the nearest slot in the next row", () => {
+    const rows = getSlotRows(slots);
+
+    expect(moveSlotCursor(slots, rows[1][0], "up")).not.toBe(rows[1][0]);
+    expect(rows[0]).toContain(moveSlotCursor(slots, rows[1][0], "up"));
+    expect(rows[3]).toContain(moveSlotCursor(slots, "slot-7", "down"));
+  });
+
+  it("can reach every slot", () => {
+    const visited = new Set<string>(["slot-7"]);
+    const queue = ["slot-7"];
+    while (queue.length > 0) {
+      const slotId = queue.shift()!;
+      for (const direction of ["up", "down", "left", "right"] as const) {
+        const next = moveSlotCursor(slots, slotId, direction);
+        if (!visited.has(next)) {
+          visited.add(next);
+          queue.push(next);
+        }
+      }
+    }
+
+    expect(visited.size).toBe(13);
+  });
+});
+
+describe("cycleStagedPiece", () => {
+  it("skips placed and locked pieces", () => {
+    const state = loadChallenge(getChallengeById("starter-01")!);
+    const staged = getStagedPieces(state).map((p) => p.id);
+
+    let pieceId: string | null = null;
+    const seen: string[] = [];
+    for (let i = 0; i < staged.length; i++) {
+      pieceId = cycleStagedPiece(state, pieceId, 1, false);
+      seen.push(pieceId!);
+    }
+
+    expect(seen).toEqual(staged);
+    expect(state.pieces.find((p) => p.id === seen[0])!.locked).toBe(false);
+  });
+
+  it("returns null past the end unless wrapping", () => {
+    const state = createInitialGameState();
+    const staged = getStagedPieces(state);
+    const last = staged[staged.length - 1].id;
+
+    expect(cycleStagedPiece(state, last, 1, false)).toBeNull();
+    expect(cycleStagedPiece(state, last, 1, true)).toBe(staged[0].id);
+    expect(cycleStagedPiece(state, null, -1, false)).toBe(last);
+  });
+});
+
+describe("handleBoardKey", () => {
+  it("focuses staged pieces with Tab and lets focus leave past the last", () => {
+    const state = createInitialGameState();
+    const staged = getStagedPieces(state);
+
+    const first = handleBoardKey(state, IDLE_CURSOR, "Tab");
+    expect(first.handled).toBe(true);
+    expect(first.cursor.focusedPiece).toBe(staged[0].id);
+
+    const back = handleBoardKey(state, first.cursor, "Tab", true);
+    expect(back.handled).toBe(false);
+    expect(back.cursor.focusedPiece).toBeNull();
+  });
+
+  it("picks a piece up and drops it into the selected slot", () => {
+    const initial = createInitialGameState();
+    const { state, cursor } = press(
+      initial,
+      IDLE_CURSOR,
+      "ArrowRight",
+      "Enter",
+    );
+    const pieceId = getStagedPieces(initial)[0].id;
+
+    expect(cursor.heldPiece).toBe(pieceId);
+    expect(cursor.cursorSlot).toBe("slot-1");
+    expect(state.pieces.find((p) => p.id === pieceId)!.position.y).toBe(1);
+
+    const moved = press(state, cursor, "ArrowRight", "Enter");
+
+    const slotId = moveSlotCursor(initial.slots, "slot-1", "right");
+    expect(moved.state.slots.find((s) => s.id === slotId)!.pieceId).toBe(
+      pieceId,
+    );
+    expect(moved.cursor.heldPiece).toBeNull();
+    expect(moved.cursor.focusedPiece).toBe(getStagedPieces(moved.state)[0].id);
+  });
+
+  it("starts the cursor on the first empty slot", () => {
+    const state = loadChallenge(getChallengeById("starter-01")!);
+    const { cursor } = press(state, IDLE_CURSOR, "Tab", "Enter");
+
+    expect(cursor.cursorSlot).toBe("slot-2");
+  });
+
+  it("does not drop onto an occupied slot", () => {
+    const state = loadChallenge(getChallengeById("starter-01")!);
+    const held = press(state, IDLE_CURSOR, "Tab", "Enter");
+    const onOccupied = { ...held.cursor, cursorSlot: "slot-1" };
+
+    const result = handleBoardKey(held.state, onOccupied, "Enter");
+
+    expect(result.handled).toBe(true);
+    expect(result.action).toBeNull();
+    expect(result.cursor).toEqual(onOccupied);
+  });
+
+  it("returns a held piece to the staging area on Escape", () => {
+    const initial = createInitialGameState();
+    const { state, cursor } = press(
+      initial,
+      IDLE_CURSOR,
+      "Tab",
+      "Enter",
+      "ArrowDown",
+      "Escape",
+    );
+    const piece = state.pieces.find((p) => p.id === cursor.focusedPiece)!;
+
+    expect(cursor.heldPiece).toBeNull();
+    expect(piece.slotId).toBeNull();
+    expect(piece.position.equals(piece.stagingPosition)).toBe(true);
+  });
+
+  it("forgets a held piece that has been placed some other way", () => {
+    const initial = createInitialGameState();
+    const held = press(initial, IDLE_CURSOR, "Tab", "Enter");
+    const placed = gameReducer(held.state, {
+      type: "PLACE",
+      pieceId: held.cursor.heldPiece!,
+      slotId: "slot-7",
+    });
+
+    const result = handleBoardKey(placed, held.cursor, "Enter");
+
+    expect(result.cursor.heldPiece).toBeNull();
+    expect(result.action?.type).not.toBe("PLACE");
+  });
+});
@@ -0,0 +1,330 @@
+/**
+ * Keyboard-only piece placement
+ *
+ * Lets the player place pieces without a pointer:
+ * - Tab / Shift+Tab or the arrow keys cycle through the staged pieces
+ * - Enter (or Space) picks the focused piece up
+ * - the arrow keys then move a cursor across the slots, row by row as the
+ *   diamond appears on screen
+ * - Enter drops the piece into the selected slot, Escape puts it back
+ *
+ * handleBoardKey is pure: it returns the new cursor and the game action to
+ * dispatch, so the same logic runs in the app and in tests.
+ */
+
+import { Vector3 } from "three";
+import { DRAG_HEIGHT, GameAction } from "./gameStore";
+import { SlotLocation } from "./rules";
+import { DiamondPiece, GameState } from "./types";
+
+/**
+ * Keyboard selection state
+ */
+export interface KeyboardCursor {
+  /** Staged piece with keyboard focus, or null */
+  focusedPiece: string | null;
+
+  /** Piece picked up with the keyboard, or null */
+  heldPiece: string | null;
+
+  /** Slot the held piece would be dropped into, or null */
+  cursorSlot: string | null;
+}
+
+/**
+ * Cursor with nothing focused or held
+ */
+export const IDLE_CURSOR: KeyboardCursor = {
+  focusedPiece: null,
+  heldPiece: null,
+  cursorSlot: null,
+};
+
+/**
+ * Direction of an arrow key
+ */
+export type CursorDirection = "up" | "down" | "left" | "right";
+
+/**
+ * Result of handling a key press on the board
+ */
+export interface BoardKeyResult {
+  /** Cursor after the key press */
+  cursor: KeyboardCursor;
+
+  /** Game action to dispatch, if any */
+  action: GameAction | null;
+
+  /** Whether the key was used (and its default behaviour should stop) */
+  handled: boolean;
+}
+
+const ARROW_DIRECTIONS: Record<string, CursorDirection> = {
+  ArrowUp: "up",
+  ArrowDown: "down",
+  ArrowLeft: "left",
+  ArrowRight: "right",
+};
+
+// Slots whose z positions differ by less than this share a row
+const ROW_TOLERANCE = 0.25;
+
+/**
+ * Groups the slots into the rows seen from the default camera
+ *
+ * The camera looks down the z axis, so a row is a set of slots with the
+ * same z position. Rows run from the far edge of the board (top of the
+ * screen) to the near edge, and each row from left to right.
+ *
+ * @param slots - Board slots with positions (only x and z are used)
+ * @returns Slot IDs row by row
+ */
+export function getSlotRows(slots: SlotLocation[]): string[][] {
+  const sorted = [...slots].sort(
+    (a, b) => a.position.z - b.position.z || a.position.x - b.position.x,
+  );
+
+  const rows: SlotLocation[][] = [];
+  for (const slot of sorted) {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row[0].position.z - slot.position.z) < ROW_TOLERANCE) {
+      row.push(slot);
+    } else {
+      rows.push([slot]);
+    }
+  }
+
+  return rows.map((row) =>
+    row.sort((a, b) => a.position.x - b.position.x).map((s) => s.id),
+  );
+}
+
+/**
+ * Moves the slot cursor one step in a direction
+ *
+ * Left and right move within the row. Up and down move to the slot in the
+ * row above or below that is closest to the cursor across the screen, which
+ * follows the diagonals of the diamond. The cursor stays put at the edge of
+ * the board.
+ *
+ * @param slots - Board slots
+ * @param slotId - Slot the cursor is on
+ * @param direction - Arrow key direction
+ * @returns ID of the slot the cursor moves to
+ */
+export function moveSlotCursor(
+  slots: SlotLocation[],
+  slotId: string,
+  direction: CursorDirection,
+): string {
+  const rows = getSlotRows(slots);
+  const rowIndex = rows.findIndex((row) => row.includes(slotId));
+  if (rowIndex === -1) return slotId;
+
+  if (direction === "left" || direction === "right") {
+    const row = rows[rowIndex];
+    const next = row.indexOf(slotId) + (direction === "left" ? -1 : 1);
+    return row[next] ?? slotId;
+  }
+
+  const target = rows[rowIndex + (direction === "up" ? -1 : 1)];
+  if (!target) return slotId;
+
+  const xOf = (id: string) => slots.find((s) => s.id === id)?.position.x ?? 0;
+  const x = xOf(slotId);
+  return target.reduce((best, id) =>
+    Math.abs(xOf(id) - x) < Math.abs(xOf(best) - x) ? id : best,
+  );
+}
+
+/**
+ * Returns the pieces that can be picked up from the staging area
+ */
+export function getStagedPieces(state: GameState): DiamondPiece[] {
+  return state.pieces.filter((p) => p.slotId === null && !p.locked);
+}
+
+/**
+ * Steps keyboard focus through the staged pieces
+ *
+ * @param state - Current game state
+ * @param pieceId - Piece with focus now, or null to start from the ends
+ * @param step - 1 for the next piece, -1 for the previous one
+ * @param wrap - Whether to wrap around at the ends; otherwise null is
+ * returned when stepping past the last (or first) piece
+ * @returns ID of the piece to focus, or null
+ */
+export function cycleStagedPiece(
+  state: GameState,
+  pieceId: string | null,
+  step: 1 | -1,
+  wrap: boolean,
+): string | null {
+  const staged = getStagedPieces(state);
+  if (staged.length === 0) return null;
+
+  const index = staged.findIndex((p) => p.id === pieceId);
+  if (index === -1) {
+    return step === 1 ? staged[0].id : staged[staged.length - 1].id;
+  }
+
+  const next = index + step;
+  if (next < 0 || next >= staged.length) {
+    return wrap ? staged[(next + staged.length) % staged.length].id : null;
+  }
+  return staged[next].id;
+}
+
+/**
+ * Moves the held piece so it floats above a slot
+ */
+function hoverOver(state: GameState, pieceId: string, slotId: string) {
+  const slot = state.slots.find((s) => s.id === slotId);
+  if (!slot) return null;
+
+  return {
+    type: "MOVE_PIECE",
+    pieceId,
+    position: new Vector3(slot.position.x, DRAG_HEIGHT, slot.position.z),
+  } satisfies GameAction;
+}
+
+/**
+ * Handles a key press while a piece is held
+ */
+function handleHeldKey(
+  state: GameState,
+  cursor: KeyboardCursor,
+  heldPiece: DiamondPiece,
+  key: string,
+): BoardKeyResult {
+  const slotId = cursor.cursorSlot ?? state.slots[0].id;
+  const direction = ARROW_DIRECTIONS[key];
+
+  if (direction) {
+    const next = moveSlotCursor(state.slots, slotId, direction);
+    return {
+      cursor: { ...cursor, cursorSlot: next },
+      action: hoverOver(state, heldPiece.id, next),
+      handled: true,
+    };
+  }
+
+  if (key === "Enter" || key === " ") {
+    const slot = state.slots.find((s) => s.id === slotId);
+    if (!slot || slot.occupied) {
+      return { cursor, action: null, handled: true };
+    }
+
+    // Move focus on to the next staged piece, ready for the next placement
+    const withoutHeld = {
+      ...state,
+      pieces: state.pieces.filter((p) => p.id !== heldPiece.id),
+    };
+    return {
+      cursor: {
+        focusedPiece: cycleStagedPiece(withoutHeld, null, 1, true),
+        heldPiece: null,
+        cursorSlot: null,
+      },
+      action: { type: "PLACE", pieceId: heldPiece.id, slotId },
+      handled: true,
+    };
+  }
+
+  if (key === "Escape") {
+    return {
+      cursor: { focusedPiece: heldPiece.id, heldPiece: null, cursorSlot: null },
+      action: {
+        type: "MOVE_PIECE",
+        pieceId: heldPiece.id,
+        position: heldPiece.stagingPosition.clone(),
+      },
+      handled: true,
+    };
+  }
+
+  // Keep focus on the board while a piece is held
+  return { cursor, action: null, handled: key === "Tab" };
+}
+
+/**
+ * Handles a key press on the focused board
+ *
+ * @param state - Current game state
+ * @param cursor - Current keyboard cursor
+ * @param key - KeyboardEvent.key of the pressed key
+ * @param shiftKey - Whether Shift was held
+ * @returns The new cursor, the game action to dispatch and whether the key
+ * was used
+ */
+export function handleBoardKey(
+  state: GameState,
+  cursor: KeyboardCursor,
+  key: string,
+  shiftKey: boolean = false,
+): BoardKeyResult {
+  // A held piece that left the staging area some other way (a hint, an
+  // undo) is no longer held
+  const heldPiece = getStagedPieces(state).find(
+    (p) => p.id === cursor.heldPiece,
+  );
+  if (heldPiece) {
+    return handleHeldKey(state, cursor, heldPiece, key);
+  }
+
+  const idle = { ...IDLE_CURSOR, focusedPiece: cursor.focusedPiece };
+
+  if (key === "Tab") {
+    const focusedPiece = cycleStagedPiece(
+      state,
+      cursor.focusedPiece,
+      shiftKey ? -1 : 1,
+      false,
+    );
+    // Past the last piece, let Tab move focus on to the rest of the page
+    return {
+      cursor: { ...idle, focusedPiece },
+      action: null,
+      handled: focusedPiece !== null,
+    };
+  }
+
+  const direction = ARROW_DIRECTIONS[key];
+  if (direction) {
+    const step = direction === "right" || direction === "down" ? 1 : -1;
+    return {
+      cursor: {
+        ...idle,
+        focusedPiece: cycleStagedPiece(state, cursor.focusedPiece, step, true),
+      },
+      action: null,
+      handled: true,
+    };
+  }
+
+  if ((key === "Enter" || key === " ") && cursor.focusedPiece) {
+    const piece = getStagedPieces(state).find(
+      (p) => p.id === cursor.focusedPiece,
+    );
+    if (!piece) return { cursor: idle, action: null, handled: true };
+
+    // Start the cursor on the first empty slot
+    const slotId = (state.slots.find((s) => !s.occupied) ?? state.slots[0]).id;
+    return {
+      cursor: {
+        focusedPiece: piece.id,
+        heldPiece: piece.id,
+        cursorSlot: slotId,
+      },
+      action: hoverOver(state, piece.id, slotId),
+      handled: true,
+    };
+  }
+
+  if (key === "Escape" && cursor.focusedPiece) {
+    return { cursor: IDLE_CURSOR, action: null, handled: true };
+  }
+
+  return { cursor: idle, action: null, handled: false };
+}
@@ -0,0 +1,197 @@
+/**
+ * Unit tests for the level editor
+ *
+ * Tests verify:
+ * - Clue marks become the pre-placed gems of the new challenge
+ * - The solver decides whether a draft has exactly one solution
+ * - Drafts need a name and a clue before they are checked
+ * - Challenge packs round-trip through JSON and reject bad input
+ * - Imported challenges need exactly one solution
+ */
+
+import { describe, it, expect } from "vitest";
+import { CHALLENGES } from "./challenges";
+import { createInitialGameState } from "./gameStateUtils";
+import {
+  EMPTY_DRAFT,
+  EditorDraft,
+  checkDraft,
+  createChallengeId,
+  createChallengePuzzle,
+  createDraftChallenge,
+  exportChallengePack,
+  getDraftKey,
+  getDraftProblem,
+  getImportProblem,
+  mergeChallenges,
+  parseChallengePack,
+  toggleClue,
+} from "./levelEditor";
+import {
+  Solution,
+  applySolution,
+  countSolutions,
+  createSolverPuzzle,
+  findFirstSolution,
+} from "./solver";
+import { GameState } from "./types";
+
+// A complete, legal board
+const solution: Solution = findFirstSolution(
+  createSolverPuzzle(createInitialGameState()),
+)!;
+const solvedBoard: GameState = applySolution(
+  createInitialGameState(),
+  solution,
+);
+
+// Marks the gems in the given slots as clues
+const draftWithClues = (slotIds: string[]): EditorDraft => ({
+  ...EMPTY_DRAFT,
+  name: "Test",
+  clues: slotIds.map((slotId) => solution[slotId]),
+});
+
+describe("toggleClue", () => {
+  it("marks and unmarks a gem", () => {
+    const marked = toggleClue(EMPTY_DRAFT, "piece-red-round");
+
+    expect(marked.clues).toEqual(["piece-red-round"]);
+    expect(toggleClue(marked, "piece-red-round").clues).toEqual([]);
+  });
+});
+
+describe("createDraftChallenge", () => {
+  it("pre-places the marked gems in their slots", () => {
+    const draft = draftWithClues(["slot-7", "slot-1"]);
+    const challenge = createDraftChallenge(solvedBoard, draft);
+
+    expect(challenge.name).toBe("Test");
+    expect(challenge.prePlaced).toEqual([
+      { pieceId: solution["slot-1"], slotId: "slot-1" },
+      { pieceId: solution["slot-7"], slotId: "slot-7" },
+    ]);
+  });
+
+  it("ignores marks on gems that are off the board", () => {
+    const draft = toggleClue(draftWithClues([]), "piece-red-round");
+
+    expect(
+      createDraftChallenge(createInitialGameState(), draft).prePlaced,
+    ).toEqual([]);
+  });
+});
+
+describe("createChallengeId", () => {
+  it("slugs the name and avoids taken IDs", () => {
+    expect(createChallengeId("Ruby Road!", [])).toBe("custom-ruby-road");
+    expect(createChallengeId("Ruby Road", ["custom-ruby-road"])).toBe(
+      "custom-ruby-road-2",
+    );
+    expect(createChallengeId("???", [])).toBe("custom-challenge");
+  });
+});
+
+describe("checkDraft", () => {
+  it("accepts clues that leave exactly one solution", () => {
+    const allButOne = Object.keys(solution).slice(1);
+
+    expect(checkDraft(solvedBoard, draftWithClues(allButOne)).status).toBe(
+      "unique",
+    );
+  });
+
+  it("rejects clues that leave several solutions", () => {
+    expect(checkDraft(solvedBoard, draftWithClues(["slot-7"])).status).toBe(
+      "ambiguous",
+    );
+  });
+
+  it("rejects clues that break the rules", () => {
+    const board = applySolution(createInitialGameState(), {
+      "slot-3": "piece-orange-square",
+      "slot-7": "piece-orange-round",
+    });
+    const draft: EditorDraft = {
+      ...EMPTY_DRAFT,
+      name: "Clash",
+      clues: ["piece-orange-square", "piece-orange-round"],
+    };
+
+    expect(checkDraft(board, draft).status).toBe("unsolvable");
+  });
+});
+
+describe("getDraftProblem", () => {
+  it("asks for a name and then for a clue", () => {
+    expect(getDraftProblem(solvedBoard, EMPTY_DRAFT)).toMatch(/name/);
+    expect(
+      getDraftProblem(solvedBoard, { ...EMPTY_DRAFT, name: "Test" }),
+    ).toMatch(/clue/);
+    expect(getDraftProblem(solvedBoard, draftWithClues(["slot-7"]))).toBeNull();
+  });
+});
+
+describe("getDraftKey", () => {
+  it("changes when a clue gem moves", () => {
+    const draft = draftWithClues(["slot-7"]);
+    const moved = applySolution(createInitialGameState(), {
+      "slot-8": solution["slot-7"],
+    });
+
+    expect(getDraftKey(moved, draft)).not.toBe(getDraftKey(solvedBoard, draft));
+  });
+});
+
+describe("challenge packs", () => {
+  const custom = createDraftChallenge(
+    solvedBoard,
+    draftWithClues(["slot-1", "slot-7"]),
+  );
+
+  it("round-trip through JSON", () => {
+    expect(parseChallengePack(exportChallengePack([custom]))).toEqual([custom]);
+  });
+
+  it("reject invalid JSON and built-in IDs", () => {
+    expect(() => parseChallengePack("{")).toThrow(/not valid JSON/);
+    expect(() =>
+      parseChallengePack(exportChallengePack([{ ...CHALLENGES[0] }])),
+    ).toThrow(/built-in/);
+  });
+
+  it("check imported challenges for exactly one solution", () => {
+    const unique = createDraftChallenge(
+      solvedBoard,
+      draftWithClues(Object.keys(solution).slice(1)),
+    );
+    const clashing = {
+      ...custom,
+      prePlaced: [
+        { pieceId: "piece-orange-square", slotId: "slot-3" },
+        { pieceId: "piece-orange-round", slotId: "slot-7" },
+      ],
+    };
+    const problemWith = (challenge: typeof custom) =>
+      getImportProblem(
+        challenge,
+        countSolutions(createChallengePuzzle(challenge), 2),
+      );
+
+    expect(problemWith(unique)).toBeNull();
+    expect(problemWith(custom)).toBe(
+      'Challenge "Test" has more than one solution',
+    );
+    expect(problemWith(clashing)).toBe('Challenge "Test" has no solution');
+  });
+
+  it("merge by ID, replacing older versions in place", () => {
+    const renamed = { ...custom, name: "Renamed" };
+    const other = { ...custom, id: "custom-other" };
+
+    expect(mergeChallenges([custom], [renamed, other])).toEqual([
+      renamed,
+      other,
+    ]);
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * Level editor for custom challenges
+ *
+ * In editor mode an author arranges gems on an empty board with the normal
+ * drag and keyboard controls, marks some of the placed gems as fixed clues
+ * and names the challenge. The clues become the challenge's pre-placed
+ * gems, so a challenge may only be saved once the solver has confirmed
+ * that the clues lead to exactly one solution.
+ *
+ * Custom challenges are stored and exchanged as challenge packs: JSON in
+ * the same versioned format as the bundled catalogue (challenges.json), so
+ * packs are validated by parseChallengeCatalogue. Imported challenges go
+ * through the same solver check as drafts before they are added.
+ */
+
+import {
+  CHALLENGES,
+  CHALLENGE_CATALOGUE_VERSION,
+  loadChallenge,
+  parseChallengeCatalogue,
+} from "./challenges";
+import { SolverPuzzle, countSolutions, createSolverPuzzle } from "./solver";
+import {
+  Challenge,
+  ChallengeDifficulty,
+  FixedPlacement,
+  GameState,
+} from "./types";
+
+/**
+ * Prefix of the IDs given to challenges made in the editor
+ */
+export const CUSTOM_CHALLENGE_PREFIX = "custom-";
+
+/**
+ * Challenge the editor board is reset to: every gem free and in play
+ */
+export const BLANK_CHALLENGE: Challenge = {
+  id: "editor",
+  name: "New challenge",
+  difficulty: "starter",
+  prePlaced: [],
+  excludedPieces: [],
+  constraints: [],
+};
+
+/**
+ * What the author has entered besides the board itself
+ */
+export interface EditorDraft {
+  /** Name of the challenge */
+  name: string;
+
+  /** Difficulty tier shown in the challenge list */
+  difficulty: ChallengeDifficulty;
+
+  /** IDs of the placed gems marked as fixed clues */
+  clues: string[];
+}
+
+/**
+ * A draft with no name and no clues
+ */
+export const EMPTY_DRAFT: EditorDraft = {
+  name: "",
+  difficulty: "starter",
+  clues: [],
+};
+
+/**
+ * Outcome of checking a draft with the solver
+ * - unsolvable: no arrangement satisfies the clues
+ * - ambiguous: more than one arrangement satisfies the clues
+ * - unique: exactly one arrangement does, so the draft can be saved
+ */
+export interface DraftCheck {
+  status: "unsolvable" | "ambiguous" | "unique";
+  message: string;
+}
+
+/**
+ * Marks a gem as a fixed clue, or unmarks it
+ */
+export function toggleClue(draft: EditorDraft, pieceId: string): EditorDraft {
+  return {
+    ...draft,
+    clues: draft.clues.includes(pieceId)
+      ? draft.clues.filter((id) => id !== pieceId)
+      : [...draft.clues, pieceId],
+  };
+}
+
+/**
+ * Lists the fixed clues that are on the board, in slot order
+ * Clue marks on gems taken off the board are ignored.
+ */
+export function getDraftClues(
+  state: GameState,
+  draft: EditorDraft,
+): FixedPlacement[] {
+  return state.slots.flatMap((slot) =>
+    slot.pieceId && draft.clues.includes(slot.pieceId)
+      ? [{ pieceId: slot.pieceId, slotId: slot.id }]
+      : [],
+  );
+}
+
+/**
+ * Derives an unused challenge ID from a name
+ *
+ * @param name - Challenge name, e.g. "Ruby Road"
+ * @param takenIds - IDs already in use
+ * @returns An ID such as "custom-ruby-road" (or "custom-ruby-road-2")
+ */
+export function createChallengeId(name: string, takenIds: string[]): string {
+  const slug =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "challenge";
+  const base = `${CUSTOM_CHALLENGE_PREFIX}${slug}`;
+
+  let id = base;
+  for (let n = 2; takenIds.includes(id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+}
+
+/**
+ * Builds the challenge a draft describes
+ *
+ * @param state - Editor board
+ * @param draft - Name, difficulty and clue marks
+ * @param takenIds - IDs already in use, so the new ID is unique
+ */
+export function createDraftChallenge(
+  state: GameState,
+  draft: EditorDraft,
+  takenIds: string[] = [],
+): Challenge {
+  const name = draft.name.trim();
+  return {
+    id: createChallengeId(name, takenIds),
+    name,
+    difficulty: draft.difficulty,
+    prePlaced: getDraftClues(state, draft),
+    excludedPieces: [],
+    constraints: [],
+  };
+}
+
+/**
+ * Builds the solver puzzle for a challenge: an empty board with only its
+ * pre-placed gems in place
+ */
+export function createChallengePuzzle(challenge: Challenge): SolverPuzzle {
+  return createSolverPuzzle(loadChallenge(challenge), challenge, "locked");
+}
+
+/**
+ * Builds the solver puzzle for a draft: an empty board with only the clues
+ * in place
+ */
+export function createDraftPuzzle(
+  state: GameState,
+  draft: EditorDraft,
+): SolverPuzzle {
+  return createChallengePuzzle(createDraftChallenge(state, draft));
+}
+
+/**
+ * Turns a solution count (capped at 2) into a draft check
+ */
+export function describeSolutionCount(count: number): DraftCheck {
+  if (count === 0) {
+    return {
+      status: "unsolvable",
+      message: "No arrangement fits these clues. Change or remove a clue.",
+    };
+  }
+  if (count > 1) {
+    return {
+      status: "ambiguous",
+      message: "More than one arrangement fits these clues. Mark more clues.",
+    };
+  }
+  return {
+    status: "unique",
+    message: "Exactly one arrangement fits these clues. Ready to save.",
+  };
+}
+
+/**
+ * Checks a draft with the solver on the current thread
+ * App runs the same search in the solver worker (see createDraftPuzzle).
+ */
+export function checkDraft(state: GameState, draft: EditorDraft): DraftCheck {
+  return describeSolutionCount(
+    countSolutions(createDraftPuzzle(state, draft), 2),
+  );
+}
+
+/**
+ * Finds what stops a draft from being checked, if anything
+ *
+ * @returns A message for the author, or null when the draft is complete
+ */
+export function getDraftProblem(
+  state: GameState,
+  draft: EditorDraft,
+): string | null {
+  if (draft.name.trim() === "") {
+    return "Give the challenge a name.";
+  }
+  if (getDraftClues(state, draft).length === 0) {
+    return "Mark at least one gem on the board as a fixed clue.";
+  }
+  return null;
+}
+
+/**
+ * Key identifying a draft and its clue placements
+ * A check is only valid while the key stays the same.
+ */
+export function getDraftKey(state: GameState, draft: EditorDraft): string {
+  return JSON.stringify([
+    draft.name.trim(),
+    draft.difficulty,
+    getDraftClues(state, draft),
+  ]);
+}
+
+/**
+ * Serializes challenges as a challenge pack
+ */
+export function exportChallengePack(challenges: Challenge[]): string {
+  return JSON.stringify(
+    { version: CHALLENGE_CATALOGUE_VERSION, challenges },
+    null,
+    2,
+  );
+}
+
+/**
+ * Parses and validates a challenge pack
+ *
+ * @param text - Pack JSON, e.g. from an imported file
+ * @returns The pack's challenges
+ * @throws Error when the text is not a valid pack or reuses a bundled
+ * challenge's ID
+ */
+export function parseChallengePack(text: string): Challenge[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Challenge pack is not valid JSON");
+  }
+
+  const challenges = parseChallengeCatalogue(raw);
+  const clash = challenges.find((c) =>
+    CHALLENGES.some((bundled) => bundled.id === c.id),
+  );
+  if (clash) {
+    throw new Error(
+      `Challenge "${clash.id}" clashes with a built-in challenge`,
+    );
+  }
+  return challenges;
+}
+
+/**
+ * Explains why an imported challenge cannot be played, if it cannot
+ * Like a saved draft, an imported challenge must have exactly one solution.
+ *
+ * @param challenge - Challenge from an imported pack
+ * @param count - Number of solutions found for it, capped at 2
+ * @returns A message naming the challenge, or null when it has exactly one
+ * solution
+ */
+export function getImportProblem(
+  challenge: Challenge,
+  count: number,
+): string | null {
+  if (count === 0) {
+    return `Challenge "${challenge.name}" has no solution`;
+  }
+  if (count > 1) {
+    return `Challenge "${challenge.name}" has more than one solution`;
+  }
+  return null;
+}
+
+/**
+ * Adds challenges to a pack
+ * Challenges with an ID already in the pack replace the old version in place.
+ */
+export function mergeChallenges(
+  existing: Challenge[],
+  incoming: Challenge[],
+): Challenge[] {
+  const incomingById = new Map(incoming.map((c) => [c.id, c]));
+  const merged = existing.map((c) => incomingById.get(c.id) ?? c);
+  const existingIds = new Set(existing.map((c) => c.id));
+  return [...merged, ...incoming.filter((c) => !existingIds.has(c.id))];
+}
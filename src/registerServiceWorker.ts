@@ -0,0 +1,22 @@
+/**
+ * Service worker registration
+ *
+ * Production builds register public/sw.js, which precaches the game so it
+ * can be installed and played offline. The dev server has no precache list,
+ * so nothing is registered there.
+ */
+
+/**
+ * Registers the offline service worker once the page has loaded
+ */
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`)
+      .catch((error) => {
+        console.error("Failed to register service worker:", error);
+      });
+  });
+}
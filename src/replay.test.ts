@@ -0,0 +1,209 @@
+/**
+ * Unit tests for the replay recorder and playback
+ *
+ * Tests verify:
+ * - Board actions are recorded with their time; loads and animation
+ *   frames are not, and drag moves are thinned
+ * - Playback re-runs the log to the same board as the player's, also
+ *   after a reset started a new recording
+ * - Seeking forward and back
+ * - Replays survive a JSON round trip, and bad files are rejected
+ */
+
+import { describe, it, expect } from "vitest";
+import { getChallengeById, loadChallenge } from "./challenges";
+import {
+  GameStoreAction,
+  createGameStore,
+  gameReducer,
+  gameStoreReducer,
+} from "./gameStore";
+import {
+  REPLAY_MOVE_INTERVAL_MS,
+  ReplayLog,
+  createReplayLog,
+  exportReplayJson,
+  finishReplay,
+  parseReplay,
+  parseReplayFile,
+  recordReplayAction,
+  seekPlayback,
+  startPlayback,
+} from "./replay";
+import { GameState } from "./types";
+
+const challenge = getChallengeById("starter-01")!;
+
+/**
+ * Plays actions on the challenge's board, recording each one
+ * Actions are a second apart, or at the given offsets (milliseconds).
+ */
+const play = (actions: [GameStoreAction, number?][], start?: GameState) => {
+  let store = createGameStore(start ?? loadChallenge(challenge));
+  let log: ReplayLog = createReplayLog(start);
+  actions.forEach(([action, at], index) => {
+    log = recordReplayAction(
+      log,
+      action,
+      store.game,
+      5000 + (at ?? index * 1000),
+    );
+    store = gameStoreReducer(store, action);
+  });
+  return { game: store.game, log };
+};
+
+// A staged piece and an empty slot on the starter board
+const fresh = loadChallenge(challenge);
+const pieceId = fresh.pieces.find(
+  (p) => !p.slotId && !challenge.excludedPieces?.includes(p.id),
+)!.id;
+const slot = fresh.slots.find((s) => !s.occupied)!;
+const slotId = slot.id;
+
+const dragToSlot: [GameStoreAction, number?][] = [
+  [{ type: "DRAG_START", pieceId }],
+  [{ type: "DRAG_MOVE", x: 8, z: 8 }],
+  [{ type: "DRAG_MOVE", x: slot.position.x, z: slot.position.z }],
+  [{ type: "DROP" }],
+];
+
+describe("recordReplayAction", () => {
+  it("records actions with the time since the first one", () => {
+    const { log } = play(dragToSlot);
+
+    expect(log.events.map((e) => e.at)).toEqual([0, 1000, 2000, 3000]);
+    expect(log.events.map((e) => e.action.type)).toEqual([
+      "DRAG_START",
+      "DRAG_MOVE",
+      "DRAG_MOVE",
+      "DROP",
+    ]);
+  });
+
+  it("leaves out loads, piece moves and the reset challenge", () => {
+    const { log } = play([
+      [{ type: "LOAD", state: loadChallenge(challenge) }],
+      [{ type: "RESET", challenge }],
+    ]);
+
+    expect(log.events).toEqual([{ at: 0, action: { type: "RESET" } }]);
+  });
+
+  it("thins drag moves that stay over the same slot", () => {
+    const step = REPLAY_MOVE_INTERVAL_MS / 4;
+    const { log } = play([
+      [{ type: "DRAG_START", pieceId }, 0],
+      [{ type: "DRAG_MOVE", x: 8, z: 8 }, step],
+      [{ type: "DRAG_MOVE", x: 8.1, z: 8 }, step * 2],
+      [{ type: "DRAG_MOVE", x: slot.position.x, z: slot.position.z }, step * 3],
+      [{ type: "DRAG_MOVE", x: 8.2, z: 8 }, step * 6],
+    ]);
+
+    expect(log.events.map((e) => e.at)).toEqual([0, step, step * 3, step * 6]);
+  });
+});
+
+describe("playback", () => {
+  it("re-runs the log to the player's board", () => {
+    const { game, log } = play([
+      ...dragToSlot,
+      [{ type: "UNDO" }],
+      [{ type: "REDO" }],
+    ]);
+    const replay = finishReplay(log, challenge, 1234);
+    const end = seekPlayback(startPlayback(replay, challenge), Infinity);
+
+    expect(replay.durationMs).toBe(5000);
+    expect(end.applied).toBe(6);
+    expect(end.store.game.slots).toEqual(game.slots);
+    expect(end.store.game.slots.find((s) => s.id === slotId)?.pieceId).toBe(
+      pieceId,
+    );
+  });
+
+  it("seeks forward and back", () => {
+    const replay = finishReplay(play(dragToSlot).log, challenge, 1234);
+    const playback = startPlayback(replay, challenge);
+
+    const dragging = seekPlayback(playback, 1500);
+    expect(dragging.applied).toBe(2);
+    expect(dragging.store.game.draggedPiece).toBe(pieceId);
+
+    const dropped = seekPlayback(dragging, replay.durationMs);
+    expect(dropped.store.game.draggedPiece).toBeNull();
+
+    const rewound = seekPlayback(dropped, 500);
+    expect(rewound.applied).toBe(1);
+    expect(rewound.timeMs).toBe(500);
+    expect(rewound.store.game.slots).toEqual(
+      loadChallenge(challenge).slots.map((s) =>
+        expect.objectContaining({ id: s.id, pieceId: s.pieceId }),
+      ),
+    );
+  });
+
+  it("matches the player's board when a reset starts a new recording", () => {
+    // Reset loads the reset board as a new game, so undo has nothing to
+    // bring back
+    let store = dragToSlot.reduce(
+      (current, [action]) => gameStoreReducer(current, action),
+      createGameStore(loadChallenge(challenge)),
+    );
+    store = gameStoreReducer(store, {
+      type: "LOAD",
+      state: gameReducer(store.game, { type: "RESET", challenge }),
+    });
+    const undo: GameStoreAction = { type: "UNDO" };
+    const log = recordReplayAction(
+      createReplayLog(store.game),
+      undo,
+      store.game,
+      5000,
+    );
+    store = gameStoreReducer(store, undo);
+
+    const replay = finishReplay(log, challenge, 1234);
+    const end = seekPlayback(startPlayback(replay, challenge), Infinity);
+
+    expect(store.game.slots.find((s) => s.id === slotId)?.pieceId).toBeNull();
+    expect(end.store.game.slots).toEqual(store.game.slots);
+  });
+
+  it("starts from the board the recording started on", () => {
+    const resumed = play(dragToSlot).game;
+    const { game, log } = play(
+      [[{ type: "REMOVE", pieceId }], [{ type: "UNDO" }]],
+      resumed,
+    );
+    const replay = finishReplay(log, challenge, 1234);
+    const end = seekPlayback(startPlayback(replay, challenge), Infinity);
+
+    expect(replay.start[slotId]).toBe(pieceId);
+    expect(end.store.game.slots).toEqual(game.slots);
+  });
+});
+
+describe("replay files", () => {
+  const replay = finishReplay(play(dragToSlot).log, challenge, 1234);
+
+  it("reads back an exported replay", () => {
+    expect(parseReplayFile(exportReplayJson(replay))).toEqual(replay);
+  });
+
+  it("rejects invalid replays", () => {
+    expect(() => parseReplayFile("{")).toThrow("not valid JSON");
+    expect(() => parseReplay({ ...replay, version: 99 })).toThrow(
+      "Unsupported replay version",
+    );
+    expect(() =>
+      parseReplay({
+        ...replay,
+        events: [{ at: 0, action: { type: "PLACE", pieceId, slotId: "x" } }],
+      }),
+    ).toThrow('Replay event 1 references unknown slot "x"');
+    expect(() =>
+      parseReplay({ ...replay, events: [...replay.events].reverse() }),
+    ).toThrow("out of order");
+  });
+});
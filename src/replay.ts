@@ -0,0 +1,422 @@
+/**
+ * Replay recorder and playback
+ *
+ * Every board action the player makes (picking up a gem, moving it over the
+ * slots, dropping it, placing and removing gems, hints, resets, undo and
+ * redo) goes into a replay log with the time since the first action. A
+ * solved challenge keeps its log as a replay in its session record (see
+ * stats.ts).
+ *
+ * Playback re-runs the log through the game store, starting from the
+ * challenge's fresh board (plus any gems the player carried on from), so it
+ * shows the board exactly as the player saw it. Seeking forward only
+ * applies the actions in between; seeking back starts again from the
+ * beginning.
+ *
+ * Replays export and import as versioned JSON, so a coach can review how a
+ * student approached a level.
+ */
+
+import { loadChallenge } from "./challenges";
+import {
+  createInitialGameState,
+  generateBoardSlots,
+  generateDiamondPieces,
+} from "./gameStateUtils";
+import {
+  GameStore,
+  GameStoreAction,
+  createGameStore,
+  findHoveredSlot,
+  gameStoreReducer,
+} from "./gameStore";
+import { Hint } from "./hints";
+import { BoardSnapshot, mergeSnapshot } from "./history";
+import { Challenge, GameState } from "./types";
+
+/**
+ * Schema version of the replay format
+ */
+export const REPLAY_FORMAT_VERSION = 1;
+
+/**
+ * Shortest time between two recorded drag moves over the same slot
+ * (milliseconds). Moves in between only smooth the drag and are left out to
+ * keep replays small.
+ */
+export const REPLAY_MOVE_INTERVAL_MS = 100;
+
+/**
+ * An action worth replaying
+ * Loads replace the whole game and piece moves only change where a gem held
+ * with the keyboard is drawn, so neither is recorded.
+ */
+export type ReplayAction = Exclude<
+  GameStoreAction,
+  { type: "LOAD" } | { type: "MOVE_PIECE" }
+>;
+
+/**
+ * One recorded action
+ */
+export interface ReplayEvent {
+  /** Time since the recording started (milliseconds) */
+  at: number;
+  action: ReplayAction;
+}
+
+/**
+ * A replay being recorded
+ */
+export interface ReplayLog {
+  /** Board the recording started from (see Replay) */
+  start: BoardSnapshot;
+
+  /** When the first action was recorded, or null before that */
+  startedAt: number | null;
+
+  events: ReplayEvent[];
+}
+
+/**
+ * A finished recording, as stored and exported
+ */
+export interface Replay {
+  version: typeof REPLAY_FORMAT_VERSION;
+
+  /** ID of the challenge played */
+  challengeId: string;
+
+  /** Name of the challenge when it was played */
+  challengeName: string;
+
+  /** When the recording finished (milliseconds since the epoch) */
+  recordedAt: number;
+
+  /** Time from the first to the last action (milliseconds) */
+  durationMs: number;
+
+  /**
+   * Gems on the board when the recording started, e.g. on a resumed board;
+   * empty when the player started from the challenge's fresh board
+   */
+  start: BoardSnapshot;
+
+  events: ReplayEvent[];
+}
+
+/**
+ * Where a playback stands
+ */
+export interface ReplayPlayback {
+  replay: Replay;
+
+  /** The challenge played, for its fresh board and resets */
+  challenge: Challenge | null;
+
+  /** Board after the actions applied so far */
+  store: GameStore;
+
+  /** Number of events applied */
+  applied: number;
+
+  /** Playback time (milliseconds) */
+  timeMs: number;
+}
+
+const PIECE_IDS = new Set(generateDiamondPieces().map((p) => p.id));
+const SLOT_IDS = new Set(generateBoardSlots().map((s) => s.id));
+
+/**
+ * Starts a replay log
+ *
+ * @param state - Board the recording starts from, when the player carries
+ * on from gems placed earlier
+ */
+export function createReplayLog(state?: GameState): ReplayLog {
+  const start: BoardSnapshot = {};
+  for (const piece of state?.pieces ?? []) {
+    if (piece.slotId && !piece.locked) start[piece.slotId] = piece.id;
+  }
+  return { start, startedAt: null, events: [] };
+}
+
+const hoveredSlotId = (x: number, z: number, state: GameState) =>
+  findHoveredSlot(x, z, state.slots)?.id ?? null;
+
+/**
+ * Adds an action to a replay log
+ *
+ * @param log - Log to add to
+ * @param action - Action sent to the game store
+ * @param state - Game state the action is applied to
+ * @param now - When the action happened (milliseconds since the epoch)
+ * @returns The updated log, or the same log when the action is not recorded
+ */
+export function recordReplayAction(
+  log: ReplayLog,
+  action: GameStoreAction,
+  state: GameState,
+  now: number,
+): ReplayLog {
+  if (action.type === "LOAD" || action.type === "MOVE_PIECE") return log;
+
+  const startedAt = log.startedAt ?? now;
+  const at = now - startedAt;
+
+  if (action.type === "DRAG_MOVE") {
+    // Thin out moves, keeping every one that changes the slot underneath
+    const last = log.events[log.events.length - 1];
+    if (
+      last?.action.type === "DRAG_MOVE" &&
+      at - last.at < REPLAY_MOVE_INTERVAL_MS &&
+      hoveredSlotId(last.action.x, last.action.z, state) ===
+        hoveredSlotId(action.x, action.z, state)
+    ) {
+      return log;
+    }
+  }
+
+  // Playback resets to the replay's own challenge
+  const recorded: ReplayAction =
+    action.type === "RESET" ? { type: "RESET" } : action;
+  return {
+    ...log,
+    startedAt,
+    events: [...log.events, { at, action: recorded }],
+  };
+}
+
+/**
+ * Turns a replay log into a replay of a challenge
+ *
+ * @param log - The recorded log
+ * @param challenge - The challenge played
+ * @param recordedAt - When the recording finished (milliseconds since the
+ * epoch)
+ */
+export function finishReplay(
+  log: ReplayLog,
+  challenge: Challenge,
+  recordedAt: number,
+): Replay {
+  return {
+    version: REPLAY_FORMAT_VERSION,
+    challengeId: challenge.id,
+    challengeName: challenge.name,
+    recordedAt,
+    durationMs: log.events[log.events.length - 1]?.at ?? 0,
+    start: log.start,
+    events: log.events,
+  };
+}
+
+/**
+ * Starts playing a replay from its first action
+ * The board is the challenge's fresh board with the replay's starting gems
+ * added.
+ *
+ * @param replay - Replay to play
+ * @param challenge - The challenge played, or null when it is not known
+ * here, in which case playback starts from an empty board without clues
+ */
+export function startPlayback(
+  replay: Replay,
+  challenge: Challenge | null,
+): ReplayPlayback {
+  return {
+    replay,
+    challenge,
+    store: createGameStore(
+      mergeSnapshot(
+        challenge ? loadChallenge(challenge) : createInitialGameState(),
+        replay.start,
+      ),
+    ),
+    applied: 0,
+    timeMs: 0,
+  };
+}
+
+/**
+ * Moves a playback to a point in time
+ *
+ * @param playback - Playback to move
+ * @param timeMs - Time to show, clamped to the replay's length
+ * @returns The playback with every action up to that time applied
+ */
+export function seekPlayback(
+  playback: ReplayPlayback,
+  timeMs: number,
+): ReplayPlayback {
+  const { replay, challenge } = playback;
+  const time = Math.min(Math.max(timeMs, 0), replay.durationMs);
+  const from =
+    time < playback.timeMs ? startPlayback(replay, challenge) : playback;
+
+  let { store, applied } = from;
+  while (applied < replay.events.length && replay.events[applied].at <= time) {
+    const { action } = replay.events[applied];
+    store = gameStoreReducer(
+      store,
+      action.type === "RESET"
+        ? { type: "RESET", challenge: challenge ?? undefined }
+        : action,
+    );
+    applied++;
+  }
+
+  return { ...from, store, applied, timeMs: time };
+}
+
+/**
+ * Serializes a replay as JSON
+ */
+export function exportReplayJson(replay: Replay): string {
+  return JSON.stringify(replay, null, 2);
+}
+
+type RawObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parsePieceId(raw: unknown, where: string): string {
+  if (typeof raw !== "string" || !PIECE_IDS.has(raw)) {
+    throw new Error(`${where} references unknown piece "${raw}"`);
+  }
+  return raw;
+}
+
+function parseSlotId(raw: unknown, where: string): string {
+  if (typeof raw !== "string" || !SLOT_IDS.has(raw)) {
+    throw new Error(`${where} references unknown slot "${raw}"`);
+  }
+  return raw;
+}
+
+function parseHint(raw: unknown, where: string): Hint {
+  if (
+    !isObject(raw) ||
+    (raw.level !== 1 && raw.level !== 2 && raw.level !== 3) ||
+    typeof raw.message !== "string"
+  ) {
+    throw new Error(`${where} has an invalid hint`);
+  }
+  return {
+    level: raw.level,
+    slotId: parseSlotId(raw.slotId, where),
+    pieceId: parsePieceId(raw.pieceId, where),
+    message: raw.message,
+  };
+}
+
+function parseAction(raw: unknown, where: string): ReplayAction {
+  if (!isObject(raw)) throw new Error(`${where} must be an object`);
+
+  switch (raw.type) {
+    case "PLACE":
+      return {
+        type: "PLACE",
+        pieceId: parsePieceId(raw.pieceId, where),
+        slotId: parseSlotId(raw.slotId, where),
+      };
+    case "REMOVE":
+    case "DRAG_START":
+      return { type: raw.type, pieceId: parsePieceId(raw.pieceId, where) };
+    case "DRAG_MOVE":
+      if (!Number.isFinite(raw.x) || !Number.isFinite(raw.z)) {
+        throw new Error(`${where} needs numeric coordinates`);
+      }
+      return { type: "DRAG_MOVE", x: raw.x as number, z: raw.z as number };
+    case "DROP":
+      return {
+        type: "DROP",
+        ...(raw.swap === true && { swap: true }),
+        ...(raw.strict === true && { strict: true }),
+      };
+    case "APPLY_HINT":
+      return { type: "APPLY_HINT", hint: parseHint(raw.hint, where) };
+    case "CANCEL_DRAG":
+    case "RESET":
+    case "UNDO":
+    case "REDO":
+      return { type: raw.type };
+  }
+  throw new Error(`${where} has an unknown type "${raw.type}"`);
+}
+
+/**
+ * Validates a replay
+ *
+ * @param raw - Untrusted replay data
+ * @throws Error when the version is unsupported or the replay is invalid
+ */
+export function parseReplay(raw: unknown): Replay {
+  if (!isObject(raw) || raw.version !== REPLAY_FORMAT_VERSION) {
+    throw new Error(
+      `Unsupported replay version (expected ${REPLAY_FORMAT_VERSION})`,
+    );
+  }
+  if (typeof raw.challengeId !== "string" || raw.challengeId === "") {
+    throw new Error("Replay needs a challenge id");
+  }
+  if (typeof raw.challengeName !== "string") {
+    throw new Error("Replay needs a challenge name");
+  }
+  if (!Number.isFinite(raw.recordedAt)) {
+    throw new Error("Replay needs a recording time");
+  }
+  if (!isObject(raw.start)) {
+    throw new Error("Replay needs a starting board");
+  }
+  const start: BoardSnapshot = {};
+  for (const [slotId, pieceId] of Object.entries(raw.start)) {
+    start[parseSlotId(slotId, "Replay start")] = parsePieceId(
+      pieceId,
+      "Replay start",
+    );
+  }
+  if (!Array.isArray(raw.events)) {
+    throw new Error("Replay needs a list of events");
+  }
+
+  const events = raw.events.map((event: unknown, index): ReplayEvent => {
+    const where = `Replay event ${index + 1}`;
+    if (!isObject(event)) throw new Error(`${where} must be an object`);
+    if (typeof event.at !== "number" || !(event.at >= 0)) {
+      throw new Error(`${where} needs a time`);
+    }
+    return { at: event.at, action: parseAction(event.action, where) };
+  });
+  if (events.some((event, i) => i > 0 && event.at < events[i - 1].at)) {
+    throw new Error("Replay events are out of order");
+  }
+
+  return {
+    version: REPLAY_FORMAT_VERSION,
+    challengeId: raw.challengeId,
+    challengeName: raw.challengeName,
+    recordedAt: raw.recordedAt as number,
+    durationMs: events[events.length - 1]?.at ?? 0,
+    start,
+    events,
+  };
+}
+
+/**
+ * Parses a replay file
+ *
+ * @param text - Replay JSON, e.g. from an imported file
+ * @throws Error when the text is not a valid replay
+ */
+export function parseReplayFile(text: string): Replay {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Replay is not valid JSON");
+  }
+  return parseReplay(raw);
+}
@@ -0,0 +1,209 @@
+/**
+ * Unit tests for the rules engine
+ *
+ * Tests verify:
+ * - Slot adjacency follows the 1-3-5-3-1 diamond layout
+ * - Touching diamonds of the same color or shape are reported
+ * - Prospective placements can be checked before they happen
+ * - A full legal board counts as solved
+ */
+
+import { describe, it, expect } from "vitest";
+import { createInitialGameState } from "./gameStateUtils";
+import {
+  computeSlotAdjacency,
+  validateBoard,
+  findPlacementViolations,
+  isBoardComplete,
+  isBoardSolved,
+  SAME_COLOR_RULE,
+} from "./rules";
+import { GameState } from "./types";
+
+/**
+ * Places pieces directly on the board, bypassing drag logic
+ */
+function placeAll(state: GameState, placements: Record<string, string>) {
+  return {
+    ...state,
+    pieces: state.pieces.map((p) => {
+      const slotId = Object.keys(placements).find(
+        (s) => placements[s] === p.id,
+      );
+      return slotId ? { ...p, slotId } : p;
+    }),
+    slots: state.slots.map((s) =>
+      placements[s.id]
+        ? { ...s, occupied: true, pieceId: placements[s.id] }
+        : s,
+    ),
+  };
+}
+
+// A full board that breaks no adjacency rule
+const SOLVED_BOARD: Record<string, string> = {
+  "slot-1": "piece-yellow-round",
+  "slot-2": "piece-green-round",
+  "slot-3": "piece-orange-square",
+  "slot-4": "piece-blue-round",
+  "slot-5": "piece-blue-triangular",
+  "slot-6": "piece-yellow-square",
+  "slot-7": "piece-red-round",
+  "slot-8": "piece-green-square",
+  "slot-9": "piece-yellow-triangular",
+  "slot-10": "piece-orange-round",
+  "slot-11": "piece-blue-square",
+  "slot-12": "piece-orange-triangular",
+  "slot-13": "piece-green-triangular",
+};
+
+describe("computeSlotAdjacency", () => {
+  const slots = createInitialGameState().slots;
+
+  it("should give the center slot four edge neighbours", () => {
+    const adjacency = computeSlotAdjacency(slots);
+    expect(adjacency["slot-7"]).toEqual([
+      "slot-3",
+      "slot-6",
+      "slot-8",
+      "slot-11",
+    ]);
+  });
+
+  it("should give the tips of the diamond a single edge neighbour", () => {
+    const adjacency = computeSlotAdjacency(slots);
+    expect(adjacency["slot-1"]).toEqual(["slot-3"]);
+    expect(adjacency["slot-5"]).toEqual(["slot-6"]);
+    expect(adjacency["slot-9"]).toEqual(["slot-8"]);
+    expect(adjacency["slot-13"]).toEqual(["slot-11"]);
+  });
+
+  it("should be symmetric", () => {
+    const adjacency = computeSlotAdjacency(slots, "surrounding");
+    for (const [slotId, neighbours] of Object.entries(adjacency)) {
+      neighbours.forEach((n) => expect(adjacency[n]).toContain(slotId));
+    }
+  });
+
+  it("should include diagonals in the surrounding neighbourhood", () => {
+    const adjacency = computeSlotAdjacency(slots, "surrounding");
+    expect(adjacency["slot-7"]).toHaveLength(8);
+    expect(adjacency["slot-1"]).toEqual(["slot-2", "slot-3", "slot-4"]);
+  });
+});
+
+describe("validateBoard", () => {
+  it("should report no violations for an empty board", () => {
+    expect(validateBoard(createInitialGameState())).toEqual([]);
+  });
+
+  it("should report two touching diamonds of the same color", () => {
+    const state = placeAll(createInitialGameState(), {
+      "slot-1": "piece-blue-round",
+      "slot-3": "piece-blue-square",
+    });
+
+    const violations = validateBoard(state);
+    expect(violations).toHaveLength(1);
+    expect(violations[0].ruleId).toBe("same-color-adjacent");
+    expect(violations[0].slotIds).toEqual(["slot-1", "slot-3"]);
+    expect(violations[0].pieceIds).toEqual([
+      "piece-blue-round",
+      "piece-blue-square",
+    ]);
+  });
+
+  it("should report two touching diamonds of the same shape", () => {
+    const state = placeAll(createInitialGameState(), {
+      "slot-7": "piece-red-round",
+      "slot-8": "piece-green-round",
+    });
+
+    const violations = validateBoard(state);
+    expect(violations.map((v) => v.ruleId)).toEqual(["same-shape-adjacent"]);
+  });
+
+  it("should report both rules when a pair shares color and shape", () => {
+    const state = placeAll(createInitialGameState(), {
+      "slot-6": "piece-orange-round",
+      "slot-7": "piece-orange-square",
+      "slot-8": "piece-yellow-square",
+    });
+
+    const ruleIds = validateBoard(state).map((v) => v.ruleId);
+    expect(ruleIds).toEqual(["same-color-adjacent", "same-shape-adjacent"]);
+  });
+
+  it("should ignore diagonal neighbours", () => {
+    const state = placeAll(createInitialGameState(), {
+      "slot-2": "piece-blue-round",
+      "slot-7": "piece-blue-square",
+    });
+
+    expect(validateBoard(state)).toEqual([]);
+  });
+
+  it("should only apply the rules it is given", () => {
+    const state = placeAll(createInitialGameState(), {
+      "slot-7": "piece-red-round",
+      "slot-8": "piece-green-round",
+    });
+
+    expect(validateBoard(state, [SAME_COLOR_RULE])).toEqual([]);
+  });
+});
+
+describe("findPlacementViolations", () => {
+  it("should report conflicts with would-be neighbours", () => {
+    const state = placeAll(createInitialGameState(), {
+      "slot-3": "piece-green-square",
+    });
+
+    const violations = findPlacementViolations(
+      state,
+      "piece-green-round",
+      "slot-7",
+    );
+    expect(violations).toHaveLength(1);
+    expect(violations[0].slotIds).toEqual(["slot-7", "slot-3"]);
+  });
+
+  it("should not compare a piece with itself when it moves", () => {
+    const state = placeAll(createInitialGameState(), {
+      "slot-3": "piece-green-square",
+    });
+
+    expect(
+      findPlacementViolations(state, "piece-green-square", "slot-7"),
+    ).toEqual([]);
+  });
+});
+
+describe("isBoardSolved", () => {
+  it("should not treat a partial board as solved", () => {
+    const state = placeAll(createInitialGameState(), {
+      "slot-7": "piece-red-round",
+    });
+
+    expect(isBoardComplete(state)).toBe(false);
+    expect(isBoardSolved(state)).toBe(false);
+  });
+
+  it("should treat a full legal board as solved", () => {
+    const state = placeAll(createInitialGameState(), SOLVED_BOARD);
+
+    expect(validateBoard(state)).toEqual([]);
+    expect(isBoardSolved(state)).toBe(true);
+  });
+
+  it("should not treat a full board with violations as solved", () => {
+    const state = placeAll(createInitialGameState(), {
+      ...SOLVED_BOARD,
+      "slot-1": "piece-orange-round",
+      "slot-10": "piece-yellow-round",
+    });
+
+    expect(isBoardComplete(state)).toBe(true);
+    expect(isBoardSolved(state)).toBe(false);
+  });
+});
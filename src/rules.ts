@@ -0,0 +1,419 @@
+/**
+ * Rules engine for Diamond Quest boards
+ *
+ * Pure, headless validation of a GameState against the adjacency rules.
+ * Slot adjacency is derived from the slot positions produced by
+ * generateBoardSlots, so the engine only reads plain x/z coordinates and
+ * never touches React or the three.js scene graph.
+ */
+
+import {
+  Challenge,
+  ChallengeConstraint,
+  DiamondPiece,
+  GameState,
+  Neighborhood,
+  PieceMatcher,
+} from "./types";
+
+/**
+ * Map of slot ID to the IDs of its neighbouring slots
+ */
+export type SlotAdjacency = Record<string, string[]>;
+
+/**
+ * The subset of slot data needed to work out adjacency
+ * Plain objects are accepted so slots can cross a Web Worker boundary
+ */
+export interface SlotLocation {
+  id: string;
+  position: { x: number; z: number };
+}
+
+/**
+ * The subset of piece data the rules care about
+ */
+export type PieceTraits = Pick<DiamondPiece, "id" | "color" | "shape">;
+
+/**
+ * A rule that is broken by two pieces touching each other
+ */
+export interface AdjacencyRule {
+  /** Stable identifier used in violations */
+  id: string;
+
+  /** Human-readable description of the rule */
+  description: string;
+
+  /** Returns true when the two touching pieces break the rule */
+  conflicts: (a: PieceTraits, b: PieceTraits) => boolean;
+}
+
+/**
+ * A single broken rule, pointing at the slots and pieces involved
+ */
+export interface RuleViolation {
+  /** ID of the rule that was broken */
+  ruleId: string;
+
+  /** IDs of the slots involved, in board order */
+  slotIds: string[];
+
+  /** IDs of the pieces occupying those slots, in the same order */
+  pieceIds: string[];
+
+  /** Human-readable explanation of the violation */
+  message: string;
+}
+
+/**
+ * Two diamonds of the same color may not touch
+ */
+export const SAME_COLOR_RULE: AdjacencyRule = {
+  id: "same-color-adjacent",
+  description: "Diamonds of the same color may not touch",
+  conflicts: (a, b) => a.color === b.color,
+};
+
+/**
+ * Two diamonds of the same shape may not touch
+ */
+export const SAME_SHAPE_RULE: AdjacencyRule = {
+  id: "same-shape-adjacent",
+  description: "Diamonds of the same shape may not touch",
+  conflicts: (a, b) => a.shape === b.shape,
+};
+
+/**
+ * The default Diamond Quest adjacency rules
+ */
+export const ADJACENCY_RULES: readonly AdjacencyRule[] = [
+  SAME_COLOR_RULE,
+  SAME_SHAPE_RULE,
+];
+
+// Tolerance for floating point error introduced by the 45 degree rotation
+const DISTANCE_EPSILON = 1e-3;
+
+/**
+ * Computes which slots neighbour each other
+ *
+ * The grid spacing is taken as the smallest distance between any two slots,
+ * so the result follows whatever layout the slots were generated with.
+ * Edge neighbours sit exactly one spacing apart; diagonal neighbours sit
+ * one spacing * sqrt(2) apart.
+ *
+ * @param slots - Board slots with positions (only x and z are used)
+ * @param neighborhood - Whether to include diagonal neighbours
+ * @returns Map of slot ID to neighbouring slot IDs, in board order
+ */
+export function computeSlotAdjacency(
+  slots: SlotLocation[],
+  neighborhood: Neighborhood = "edge",
+): SlotAdjacency {
+  const distance = (a: SlotLocation, b: SlotLocation) =>
+    Math.hypot(a.position.x - b.position.x, a.position.z - b.position.z);
+
+  let spacing = Infinity;
+  for (let i = 0; i < slots.length; i++) {
+    for (let j = i + 1; j < slots.length; j++) {
+      spacing = Math.min(spacing, distance(slots[i], slots[j]));
+    }
+  }
+
+  const maxDistance = neighborhood === "edge" ? spacing : spacing * Math.SQRT2;
+
+  const adjacency: SlotAdjacency = {};
+  for (const slot of slots) {
+    adjacency[slot.id] = slots
+      .filter(
+        (other) =>
+          other.id !== slot.id &&
+          distance(slot, other) <= maxDistance + DISTANCE_EPSILON,
+      )
+      .map((other) => other.id);
+  }
+
+  return adjacency;
+}
+
+/**
+ * Builds a map of slot ID to the piece occupying it
+ *
+ * Slots are the source of truth for occupancy; slots pointing at unknown
+ * pieces are ignored.
+ */
+export function getPlacements(state: GameState): Map<string, DiamondPiece> {
+  const piecesById = new Map(state.pieces.map((p) => [p.id, p]));
+  const placements = new Map<string, DiamondPiece>();
+
+  for (const slot of state.slots) {
+    const piece = slot.pieceId ? piecesById.get(slot.pieceId) : undefined;
+    if (piece) {
+      placements.set(slot.id, piece);
+    }
+  }
+
+  return placements;
+}
+
+/**
+ * Checks a pair of touching pieces against every rule
+ */
+function checkPair(
+  slotA: string,
+  pieceA: PieceTraits,
+  slotB: string,
+  pieceB: PieceTraits,
+  rules: readonly AdjacencyRule[],
+): RuleViolation[] {
+  return rules
+    .filter((rule) => rule.conflicts(pieceA, pieceB))
+    .map((rule) => ({
+      ruleId: rule.id,
+      slotIds: [slotA, slotB],
+      pieceIds: [pieceA.id, pieceB.id],
+      message: `${rule.description}: ${pieceA.id} (${slotA}) touches ${pieceB.id} (${slotB})`,
+    }));
+}
+
+/**
+ * Validates every pair of touching pieces on the board
+ *
+ * Each adjacent pair is reported once, with the slot that comes first in
+ * board order listed first.
+ *
+ * @param state - Game state to validate
+ * @param rules - Rules to apply (defaults to ADJACENCY_RULES)
+ * @returns List of violations, empty when the board is legal
+ */
+export function validateBoard(
+  state: GameState,
+  rules: readonly AdjacencyRule[] = ADJACENCY_RULES,
+): RuleViolation[] {
+  const adjacency = computeSlotAdjacency(state.slots);
+  const placements = getPlacements(state);
+  const order = new Map(state.slots.map((s, index) => [s.id, index]));
+  const violations: RuleViolation[] = [];
+
+  for (const slot of state.slots) {
+    const piece = placements.get(slot.id);
+    if (!piece) continue;
+
+    for (const neighborId of adjacency[slot.id]) {
+      const neighbor = placements.get(neighborId);
+      // Only look forward so each pair is checked once
+      if (!neighbor || order.get(neighborId)! < order.get(slot.id)!) continue;
+
+      violations.push(
+        ...checkPair(slot.id, piece, neighborId, neighbor, rules),
+      );
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Lists the violations that placing a piece in a slot would cause
+ *
+ * The piece is considered to have left any slot it currently occupies, so
+ * this also works for moving a piece that is already on the board.
+ *
+ * @param state - Current game state
+ * @param pieceId - ID of the piece to place
+ * @param slotId - ID of the target slot
+ * @param rules - Rules to apply (defaults to ADJACENCY_RULES)
+ * @returns Violations between the piece and its would-be neighbours
+ */
+export function findPlacementViolations(
+  state: GameState,
+  pieceId: string,
+  slotId: string,
+  rules: readonly AdjacencyRule[] = ADJACENCY_RULES,
+): RuleViolation[] {
+  const piece = state.pieces.find((p) => p.id === pieceId);
+  if (!piece) return [];
+
+  const adjacency = computeSlotAdjacency(state.slots);
+  const placements = getPlacements(state);
+  const violations: RuleViolation[] = [];
+
+  for (const neighborId of adjacency[slotId] ?? []) {
+    const neighbor = placements.get(neighborId);
+    if (!neighbor || neighbor.id === pieceId) continue;
+
+    violations.push(...checkPair(slotId, piece, neighborId, neighbor, rules));
+  }
+
+  return violations;
+}
+
+/**
+ * Checks whether every slot on the board holds a piece
+ */
+export function isBoardComplete(state: GameState): boolean {
+  return state.slots.every((slot) => slot.pieceId !== null);
+}
+
+/**
+ * Checks whether the board is full and breaks no rules
+ */
+export function isBoardSolved(
+  state: GameState,
+  rules: readonly AdjacencyRule[] = ADJACENCY_RULES,
+): boolean {
+  return isBoardComplete(state) && validateBoard(state, rules).length === 0;
+}
+
+/**
+ * Checks whether a piece fits a (partial) color/shape description
+ */
+export function matchesPiece(piece: PieceTraits, match: PieceMatcher): boolean {
+  return (
+    (!match.color || piece.color === match.color) &&
+    (!match.shape || piece.shape === match.shape)
+  );
+}
+
+/**
+ * Describes a matcher in words, e.g. "red diamond" or "an orange diamond"
+ */
+export function describeMatcher(
+  match: PieceMatcher,
+  withArticle: boolean = false,
+): string {
+  const text = [match.color, match.shape, "diamond"].filter(Boolean).join(" ");
+  if (!withArticle) return text;
+  return `${/^[aeiou]/.test(text) ? "an" : "a"} ${text}`;
+}
+
+/**
+ * Lists the violations of a single challenge constraint
+ *
+ * Empty slots never break a constraint, so partially filled boards only
+ * report problems with pieces that are already placed.
+ *
+ * @param constraint - Constraint to check
+ * @param placements - Map of slot ID to the piece occupying it
+ * @param slots - Board slots, used to work out neighbourhoods
+ * @returns Violations of the constraint
+ */
+export function checkConstraint(
+  constraint: ChallengeConstraint,
+  placements: Map<string, PieceTraits>,
+  slots: SlotLocation[],
+): RuleViolation[] {
+  if (constraint.type === "slot-match") {
+    const piece = placements.get(constraint.slotId);
+    if (!piece || matchesPiece(piece, constraint.match)) return [];
+
+    return [
+      {
+        ruleId: "slot-match",
+        slotIds: [constraint.slotId],
+        pieceIds: [piece.id],
+        message: `${constraint.slotId} must hold ${describeMatcher(constraint.match, true)}`,
+      },
+    ];
+  }
+
+  const adjacency = computeSlotAdjacency(slots, constraint.neighborhood);
+  const violations: RuleViolation[] = [];
+
+  for (const slot of slots) {
+    const subject = placements.get(slot.id);
+    if (!subject || !matchesPiece(subject, constraint.subject)) continue;
+
+    for (const neighborId of adjacency[slot.id]) {
+      const neighbor = placements.get(neighborId);
+      if (!neighbor || !matchesPiece(neighbor, constraint.neighbor)) continue;
+
+      violations.push({
+        ruleId: "not-near",
+        slotIds: [slot.id, neighborId],
+        pieceIds: [subject.id, neighbor.id],
+        message: `No ${describeMatcher(constraint.neighbor)} may sit next to the ${describeMatcher(constraint.subject)}: ${neighbor.id} (${neighborId}) is next to ${subject.id} (${slot.id})`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Validates a board against the adjacency rules and a challenge's clues
+ *
+ * On top of validateBoard this reports pre-placed slots holding the wrong
+ * piece, excluded pieces on the board, and broken challenge constraints.
+ *
+ * @param state - Game state to validate
+ * @param challenge - Challenge the board is being played against
+ * @param rules - Adjacency rules to apply (defaults to ADJACENCY_RULES)
+ * @returns List of violations, empty when the board is legal
+ */
+export function validateChallenge(
+  state: GameState,
+  challenge: Challenge,
+  rules: readonly AdjacencyRule[] = ADJACENCY_RULES,
+): RuleViolation[] {
+  const violations = validateBoard(state, rules);
+  const placements = getPlacements(state);
+
+  for (const fixed of challenge.prePlaced) {
+    const piece = placements.get(fixed.slotId);
+    if (piece && piece.id !== fixed.pieceId) {
+      violations.push({
+        ruleId: "pre-placed",
+        slotIds: [fixed.slotId],
+        pieceIds: [piece.id],
+        message: `${fixed.slotId} is reserved for ${fixed.pieceId}`,
+      });
+    }
+  }
+
+  for (const [slotId, piece] of placements) {
+    if (challenge.excludedPieces.includes(piece.id)) {
+      violations.push({
+        ruleId: "excluded-piece",
+        slotIds: [slotId],
+        pieceIds: [piece.id],
+        message: `${piece.id} is not used in this challenge`,
+      });
+    }
+  }
+
+  for (const constraint of challenge.constraints) {
+    violations.push(...checkConstraint(constraint, placements, state.slots));
+  }
+
+  return violations;
+}
+
+/**
+ * Checks whether every piece the challenge uses has been placed
+ */
+export function isChallengeComplete(
+  state: GameState,
+  challenge: Challenge,
+): boolean {
+  const placed = new Set(state.slots.map((s) => s.pieceId));
+
+  return state.pieces
+    .filter((p) => !challenge.excludedPieces.includes(p.id))
+    .every((p) => placed.has(p.id));
+}
+
+/**
+ * Checks whether the board is a complete, legal solution of the challenge
+ */
+export function isChallengeSolved(
+  state: GameState,
+  challenge: Challenge,
+  rules: readonly AdjacencyRule[] = ADJACENCY_RULES,
+): boolean {
+  return (
+    isChallengeComplete(state, challenge) &&
+    validateChallenge(state, challenge, rules).length === 0
+  );
+}
@@ -0,0 +1,212 @@
+/**
+ * Unit tests for the session tracker
+ *
+ * Tests verify:
+ * - The clock starts with the first pickup, pauses while the page is
+ *   hidden and stops when the challenge is solved
+ * - Placements, removals, missed drops and hints are counted
+ * - Rejected actions count for nothing
+ * - Stars are lost for hints and for mistakes
+ */
+
+import { describe, it, expect } from "vitest";
+import { createInitialGameState } from "./gameStateUtils";
+import { GameAction, gameReducer, selectSlot } from "./gameStore";
+import {
+  MISTAKE_ALLOWANCE,
+  Session,
+  createSession,
+  getElapsedMs,
+  scoreSession,
+  sessionReducer,
+} from "./session";
+import { GameState } from "./types";
+
+// Applies actions to the board and the session together, one second apart
+const play = (
+  start: { session: Session; state: GameState },
+  ...actions: GameAction[]
+) =>
+  actions.reduce(
+    ({ session, state }, action, i) => ({
+      session: sessionReducer(session, {
+        type: "ACTION",
+        action,
+        state,
+        at: (i + 1) * 1000,
+      }),
+      state: gameReducer(state, action),
+    }),
+    start,
+  );
+
+// Drags a piece to a point on the board and lets go
+const dragTo = (pieceId: string, x: number, z: number): GameAction[] => [
+  { type: "DRAG_START", pieceId },
+  { type: "DRAG_MOVE", x, z },
+  { type: "DROP" },
+];
+
+const slotPosition = (state: GameState, slotId: string) => {
+  const { position } = selectSlot(state, slotId)!;
+  return [position.x, position.z] as const;
+};
+
+describe("sessionReducer", () => {
+  const fresh = () => ({
+    session: createSession(),
+    state: createInitialGameState(),
+  });
+
+  it("starts the clock when the first piece is picked up", () => {
+    const { session } = play(fresh(), {
+      type: "DRAG_START",
+      pieceId: "piece-red-round",
+    });
+
+    expect(session.status).toBe("running");
+    expect(session.resumedAt).toBe(1000);
+    expect(getElapsedMs(session, 4000)).toBe(3000);
+  });
+
+  it("leaves the clock idle until then", () => {
+    const { session } = play(fresh(), { type: "DRAG_MOVE", x: 0, z: 0 });
+
+    expect(session).toEqual(createSession());
+  });
+
+  it("counts drops into a free slot as placements", () => {
+    const start = fresh();
+    const { session } = play(
+      start,
+      ...dragTo("piece-red-round", ...slotPosition(start.state, "slot-1")),
+    );
+
+    expect(session.placements).toBe(1);
+    expect(session.invalidDrops).toBe(0);
+    expect(session.moves).toBe(1);
+  });
+
+  it("counts drops away from a free slot as invalid", () => {
+    const start = fresh();
+    const placed = play(start, {
+      type: "PLACE",
+      pieceId: "piece-red-round",
+      slotId: "slot-1",
+    });
+    const { session } = play(
+      placed,
+      ...dragTo("piece-blue-round", ...slotPosition(start.state, "slot-1")),
+      ...dragTo("piece-green-round", 100, 100),
+    );
+
+    expect(session.invalidDrops).toBe(2);
+    expect(session.moves).toBe(3);
+  });
+
+  it("counts removals and ignores rejected actions", () => {
+    const { session } = play(
+      fresh(),
+      { type: "PLACE", pieceId: "piece-red-round", slotId: "slot-1" },
+      { type: "PLACE", pieceId: "piece-blue-round", slotId: "slot-1" },
+      { type: "REMOVE", pieceId: "piece-red-round" },
+      { type: "REMOVE", pieceId: "piece-red-round" },
+    );
+
+    expect(session.placements).toBe(1);
+    expect(session.removals).toBe(1);
+    expect(session.moves).toBe(2);
+  });
+
+  it("counts a piece dragged off the board as a removal", () => {
+    const { session } = play(
+      fresh(),
+      { type: "PLACE", pieceId: "piece-red-round", slotId: "slot-1" },
+      { type: "DRAG_START", pieceId: "piece-red-round" },
+      { type: "REMOVE", pieceId: "piece-red-round" },
+    );
+
+    expect(session.removals).toBe(1);
+    expect(session.moves).toBe(2);
+  });
+
+  it("counts hints", () => {
+    const session = sessionReducer(createSession(), { type: "HINT" });
+
+    expect(session.hints).toBe(1);
+  });
+
+  it("pauses the clock while the page is hidden", () => {
+    let { session } = play(fresh(), {
+      type: "DRAG_START",
+      pieceId: "piece-red-round",
+    });
+    session = sessionReducer(session, {
+      type: "VISIBILITY",
+      hidden: true,
+      at: 5000,
+    });
+
+    expect(session.status).toBe("paused");
+    expect(getElapsedMs(session, 60000)).toBe(4000);
+
+    session = sessionReducer(session, {
+      type: "VISIBILITY",
+      hidden: false,
+      at: 60000,
+    });
+    expect(getElapsedMs(session, 62000)).toBe(6000);
+  });
+
+  it("stops the clock and scores the session when solved", () => {
+    const { session, state } = play(fresh(), {
+      type: "PLACE",
+      pieceId: "piece-red-round",
+      slotId: "slot-1",
+    });
+    const solved = sessionReducer(session, {
+      type: "SOLVE",
+      state,
+      at: 11000,
+    });
+
+    expect(solved.status).toBe("solved");
+    expect(getElapsedMs(solved, 99000)).toBe(10000);
+    expect(solved.stars).toBe(3);
+    expect(sessionReducer(solved, { type: "HINT" })).toBe(solved);
+  });
+
+  it("restarts with the moves of a restored board", () => {
+    const { session } = play(fresh(), {
+      type: "DRAG_START",
+      pieceId: "piece-red-round",
+    });
+
+    expect(sessionReducer(session, { type: "RESTART", moves: 7 })).toEqual(
+      createSession(7),
+    );
+  });
+});
+
+describe("scoreSession", () => {
+  const clean = { ...createSession(), placements: 10 };
+
+  it("gives three stars for a clean solve", () => {
+    expect(scoreSession(clean, 10)).toBe(3);
+  });
+
+  it("takes a star for hints", () => {
+    expect(scoreSession({ ...clean, hints: 2 }, 10)).toBe(2);
+  });
+
+  it("takes a star for too many mistakes", () => {
+    expect(
+      scoreSession({ ...clean, invalidDrops: MISTAKE_ALLOWANCE }, 10),
+    ).toBe(3);
+    expect(scoreSession({ ...clean, removals: 1, placements: 12 }, 10)).toBe(2);
+  });
+
+  it("never gives fewer than one star", () => {
+    expect(scoreSession({ ...clean, hints: 1, invalidDrops: 50 }, 10)).toBe(1);
+  });
+});
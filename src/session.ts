@@ -0,0 +1,242 @@
+/**
+ * Session tracker
+ *
+ * Follows the player through one attempt at a challenge: the play time, the
+ * pieces placed and removed, drops that missed a free slot, and hints
+ * taken. The clock starts when the first piece is picked up, pauses while
+ * the page is hidden and stops when the challenge is solved, which also
+ * awards a star score.
+ *
+ * The tracker is a reducer fed with the same game actions as the game
+ * store, so it runs (and is tested) without the canvas. Undo and redo are
+ * store actions, not game actions, and are not counted.
+ */
+
+import { GameAction, gameReducer } from "./gameStore";
+import { GameState } from "./types";
+
+/**
+ * Mistakes (removals, missed drops and placements beyond the pieces the
+ * challenge needs) allowed before a star is lost
+ */
+export const MISTAKE_ALLOWANCE = 2;
+
+/**
+ * Where the session's clock stands
+ * - idle: no piece picked up yet
+ * - running: the clock is counting
+ * - paused: the page is hidden
+ * - solved: the challenge is solved and the clock has stopped
+ */
+export type SessionStatus = "idle" | "running" | "paused" | "solved";
+
+/**
+ * Progress on one attempt at a challenge
+ */
+export interface Session {
+  status: SessionStatus;
+
+  /** Play time counted up to resumedAt (milliseconds) */
+  elapsedMs: number;
+
+  /** When the clock last started counting, or null when it is stopped */
+  resumedAt: number | null;
+
+  /** Every placement, removal and missed drop, including earlier visits */
+  moves: number;
+
+  /** Pieces put into a slot, by drop or directly */
+  placements: number;
+
+  /** Pieces taken off the board */
+  removals: number;
+
+  /** Drops that did not land in the slot under the piece */
+  invalidDrops: number;
+
+  /** Hints shown */
+  hints: number;
+
+  /** Star score (1-3), set once the challenge is solved */
+  stars: number | null;
+}
+
+/**
+ * Something that happened during a session
+ */
+export type SessionEvent =
+  /** A game action, with the state it was applied to */
+  | { type: "ACTION"; action: GameAction; state: GameState; at: number }
+  /** A hint was shown */
+  | { type: "HINT" }
+  /** The page was hidden or shown again */
+  | { type: "VISIBILITY"; hidden: boolean; at: number }
+  /** The challenge was solved; state is the solved board */
+  | { type: "SOLVE"; state: GameState; at: number }
+  /**
+   * Start a new session, e.g. for another challenge
+   * Moves carry over from a restored board
+   */
+  | { type: "RESTART"; moves?: number };
+
+/**
+ * Creates a session with the clock not yet started
+ *
+ * @param moves - Moves already made on a restored board
+ */
+export function createSession(moves: number = 0): Session {
+  return {
+    status: "idle",
+    elapsedMs: 0,
+    resumedAt: null,
+    moves,
+    placements: 0,
+    removals: 0,
+    invalidDrops: 0,
+    hints: 0,
+    stars: null,
+  };
+}
+
+/**
+ * Returns the play time of a session so far
+ *
+ * @param session - Session to read
+ * @param now - Current time (milliseconds since the epoch)
+ */
+export function getElapsedMs(session: Session, now: number): number {
+  return session.resumedAt === null
+    ? session.elapsedMs
+    : session.elapsedMs + Math.max(0, now - session.resumedAt);
+}
+
+/**
+ * Sorts a game action into the count it adds to
+ *
+ * @param action - Action the player made
+ * @param before - State the action was applied to
+ * @returns The count to add to, or null for actions that are not counted
+ */
+export function classifyAction(
+  action: GameAction,
+  before: GameState,
+): "placement" | "removal" | "invalidDrop" | null {
+  switch (action.type) {
+    case "PLACE":
+    case "REMOVE": {
+      // Actions the store rejects (occupied slots, locked pieces) count for
+      // nothing
+      const after = gameReducer(before, action);
+      if (after === before) return null;
+      return action.type === "PLACE" ? "placement" : "removal";
+    }
+    case "DROP": {
+      const pieceId = before.draggedPiece;
+      if (!pieceId) return null;
+
+      const after = gameReducer(before, action);
+      const piece = after.pieces.find((p) => p.id === pieceId);
+      return piece?.slotId && piece.slotId === before.hoveredSlot
+        ? "placement"
+        : "invalidDrop";
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Awards stars for a solved session
+ * Three stars, less one for taking any hint and one for more than
+ * MISTAKE_ALLOWANCE mistakes; never fewer than one.
+ *
+ * @param session - Session to score
+ * @param requiredPlacements - Pieces the player had to place
+ */
+export function scoreSession(
+  session: Session,
+  requiredPlacements: number,
+): number {
+  const mistakes =
+    session.removals +
+    session.invalidDrops +
+    Math.max(0, session.placements - requiredPlacements);
+
+  let stars = 3;
+  if (session.hints > 0) stars--;
+  if (mistakes > MISTAKE_ALLOWANCE) stars--;
+  return Math.max(1, stars);
+}
+
+/**
+ * Stops the clock, adding the time since it last started
+ */
+function stopClock(session: Session, at: number): Session {
+  return { ...session, elapsedMs: getElapsedMs(session, at), resumedAt: null };
+}
+
+/**
+ * Applies an event to a session
+ *
+ * Events that do not change the session return it unchanged. Once solved,
+ * only RESTART changes a session.
+ *
+ * @param session - Current session
+ * @param event - Event to apply
+ * @returns The new session
+ */
+export function sessionReducer(session: Session, event: SessionEvent): Session {
+  if (event.type === "RESTART") return createSession(event.moves);
+  if (session.status === "solved") return session;
+
+  switch (event.type) {
+    case "ACTION": {
+      const kind = classifyAction(event.action, event.state);
+      const picksUp =
+        event.action.type === "DRAG_START" &&
+        gameReducer(event.state, event.action) !== event.state;
+      if (!kind && !picksUp) return session;
+
+      // The clock starts with the first piece picked up, or placed with the
+      // keyboard
+      const started: Session =
+        session.status === "idle"
+          ? { ...session, status: "running", resumedAt: event.at }
+          : session;
+      if (!kind) return started;
+
+      const count =
+        kind === "placement"
+          ? "placements"
+          : kind === "removal"
+            ? "removals"
+            : "invalidDrops";
+      return {
+        ...started,
+        moves: started.moves + 1,
+        [count]: started[count] + 1,
+      };
+    }
+    case "HINT":
+      return { ...session, hints: session.hints + 1 };
+    case "VISIBILITY":
+      if (event.hidden && session.status === "running") {
+        return { ...stopClock(session, event.at), status: "paused" };
+      }
+      if (!event.hidden && session.status === "paused") {
+        return { ...session, status: "running", resumedAt: event.at };
+      }
+      return session;
+    case "SOLVE": {
+      const stopped = stopClock(session, event.at);
+      const placed = event.state.pieces.filter(
+        (p) => p.slotId !== null && !p.locked,
+      ).length;
+      return {
+        ...stopped,
+        status: "solved",
+        stars: scoreSession(stopped, placed),
+      };
+    }
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for the backtracking solver
+ *
+ * Tests verify:
+ * - Every bundled challenge has exactly one solution
+ * - Solutions satisfy the rules engine
+ * - Pieces already on the board are kept or ignored as requested
+ * - Search limits and solution collection behave as documented
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  CHALLENGES,
+  getChallengeById,
+  loadChallenge,
+  parseChallenge,
+} from "./challenges";
+import { createInitialGameState } from "./gameStateUtils";
+import { isChallengeSolved, validateBoard } from "./rules";
+import {
+  applySolution,
+  countSolutions,
+  createSolverPuzzle,
+  findAllSolutions,
+  findFirstSolution,
+  hasUniqueSolution,
+  solvePuzzle,
+} from "./solver";
+import { solveInWorker } from "./solverClient";
+
+describe("Bundled challenges", () => {
+  it.each(CHALLENGES.map((c) => [c.id, c] as const))(
+    "%s should have exactly one solution",
+    (_id, challenge) => {
+      const puzzle = createSolverPuzzle(loadChallenge(challenge), challenge);
+      const result = solvePuzzle(puzzle, { collect: "all" });
+
+      expect(result.exhausted).toBe(true);
+      expect(result.count).toBe(1);
+
+      const solved = applySolution(
+        loadChallenge(challenge),
+        result.solutions[0],
+      );
+      expect(isChallengeSolved(solved, challenge)).toBe(true);
+    },
+  );
+});
+
+describe("solvePuzzle", () => {
+  it("should stop at the limit and report the search as unfinished", () => {
+    const puzzle = createSolverPuzzle(createInitialGameState());
+    const result = solvePuzzle(puzzle, { collect: "all", limit: 5 });
+
+    expect(result.count).toBe(5);
+    expect(result.solutions).toHaveLength(5);
+    expect(result.exhausted).toBe(false);
+    expect(result.nodes).toBeGreaterThan(0);
+  });
+
+  it("should return distinct, legal solutions", () => {
+    const state = createInitialGameState();
+    const solutions = findAllSolutions(createSolverPuzzle(state), 20);
+
+    const keys = solutions.map((s) => JSON.stringify(s));
+    expect(new Set(keys).size).toBe(20);
+    for (const solution of solutions) {
+      expect(Object.keys(solution)).toHaveLength(13);
+      expect(validateBoard(applySolution(state, solution))).toEqual([]);
+    }
+  });
+
+  it("should keep only the first solution unless asked for all", () => {
+    const puzzle = createSolverPuzzle(createInitialGameState());
+    const result = solvePuzzle(puzzle, { limit: 3 });
+
+    expect(result.count).toBe(3);
+    expect(result.solutions).toHaveLength(1);
+  });
+
+  it("should find no solutions for an inconsistent start", () => {
+    const state = applySolution(createInitialGameState(), {
+      "slot-1": "piece-blue-round",
+      "slot-3": "piece-blue-square",
+    });
+
+    expect(findFirstSolution(createSolverPuzzle(state))).toBeNull();
+    expect(countSolutions(createSolverPuzzle(state))).toBe(0);
+  });
+
+  it("should leave slots empty when pieces are excluded", () => {
+    const challenge = parseChallenge({
+      id: "no-red",
+      name: "No red",
+      difficulty: "starter",
+      excludedPieces: ["piece-red-round"],
+    });
+    const puzzle = createSolverPuzzle(loadChallenge(challenge), challenge);
+    const solution = findFirstSolution(puzzle)!;
+
+    expect(Object.keys(solution)).toHaveLength(12);
+    expect(Object.values(solution)).not.toContain("piece-red-round");
+  });
+});
+
+describe("createSolverPuzzle", () => {
+  const challenge = getChallengeById("starter-01")!;
+
+  it("should keep every placed piece by default", () => {
+    // A wrong move: the red diamond belongs in slot-13
+    const state = applySolution(loadChallenge(challenge), {
+      ...Object.fromEntries(
+        challenge.prePlaced.map((p) => [p.slotId, p.pieceId]),
+      ),
+      "slot-2": "piece-red-round",
+    });
+
+    expect(createSolverPuzzle(state, challenge).fixed["slot-2"]).toBe(
+      "piece-red-round",
+    );
+    expect(countSolutions(createSolverPuzzle(state, challenge))).toBe(0);
+  });
+
+  it("should only keep locked pieces when solving from scratch", () => {
+    const state = loadChallenge(challenge);
+    const moved = {
+      ...state,
+      slots: state.slots.map((s) =>
+        s.id === "slot-2"
+          ? { ...s, occupied: true, pieceId: "piece-red-round" }
+          : s,
+      ),
+    };
+
+    const puzzle = createSolverPuzzle(moved, challenge, "locked");
+    expect(puzzle.fixed["slot-2"]).toBeUndefined();
+    expect(hasUniqueSolution(puzzle)).toBe(true);
+  });
+
+  it("should produce plain data that survives structured cloning", () => {
+    const puzzle = createSolverPuzzle(loadChallenge(challenge), challenge);
+    expect(structuredClone(puzzle)).toEqual(puzzle);
+  });
+});
+
+describe("solveInWorker", () => {
+  it("should fall back to solving on the current thread without Web Workers", async () => {
+    const challenge = getChallengeById("starter-01")!;
+    const puzzle = createSolverPuzzle(loadChallenge(challenge), challenge);
+
+    const result = await solveInWorker(puzzle, { limit: 2 });
+    expect(result.count).toBe(1);
+  });
+});
@@ -0,0 +1,336 @@
+/**
+ * Backtracking solver for Diamond Quest boards
+ *
+ * Enumerates every way to complete a board with the available pieces while
+ * respecting the adjacency rules, pieces that must stay put, and challenge
+ * constraints. Puzzles are plain data so they can be posted to the solver
+ * Web Worker (see solverClient.ts) without touching three.js objects.
+ */
+
+import {
+  ADJACENCY_RULES,
+  AdjacencyRule,
+  PieceTraits,
+  SlotLocation,
+  computeSlotAdjacency,
+  matchesPiece,
+} from "./rules";
+import { Challenge, ChallengeConstraint, GameState } from "./types";
+
+/**
+ * Serializable description of a board to solve
+ */
+export interface SolverPuzzle {
+  /** Pieces available to place (excluded pieces are left out) */
+  pieces: PieceTraits[];
+
+  /** Board slots with their positions */
+  slots: SlotLocation[];
+
+  /** Pieces that must stay where they are, keyed by slot ID */
+  fixed: Record<string, string>;
+
+  /** Extra challenge constraints the solution must satisfy */
+  constraints: ChallengeConstraint[];
+}
+
+/**
+ * A completed board: slot ID to piece ID (empty slots are omitted)
+ */
+export type Solution = Record<string, string>;
+
+/**
+ * Options controlling how far the search goes
+ */
+export interface SolverOptions {
+  /** Keep only the first solution, or every solution found */
+  collect?: "first" | "all";
+
+  /** Stop searching after this many solutions (default: no limit) */
+  limit?: number;
+}
+
+/**
+ * Result of a solver run
+ */
+export interface SolverResult {
+  /** Number of solutions found (capped at the limit) */
+  count: number;
+
+  /** The collected solutions, in search order */
+  solutions: Solution[];
+
+  /** True when the whole search space was explored, so count is exact */
+  exhausted: boolean;
+
+  /** Number of placements tried, a measure of search effort */
+  nodes: number;
+}
+
+/**
+ * Which pieces already on the board the solver must keep in place
+ * - placed: every piece currently on the board (complete the current board)
+ * - locked: only pieces locked by the challenge (solve from scratch)
+ */
+export type FixedPieces = "placed" | "locked";
+
+/**
+ * Builds a solver puzzle from a game state
+ *
+ * @param state - Current game state
+ * @param challenge - Active challenge, for its constraints and pre-placed pieces
+ * @param fixedPieces - Which pieces on the board must stay where they are
+ * @returns A plain-data puzzle, safe to post to a Web Worker
+ */
+export function createSolverPuzzle(
+  state: GameState,
+  challenge?: Challenge,
+  fixedPieces: FixedPieces = "placed",
+): SolverPuzzle {
+  const excluded = new Set(challenge?.excludedPieces ?? []);
+  const piecesById = new Map(state.pieces.map((p) => [p.id, p]));
+  const fixed: Record<string, string> = {};
+
+  for (const slot of state.slots) {
+    const piece = slot.pieceId ? piecesById.get(slot.pieceId) : undefined;
+    if (piece && (fixedPieces === "placed" || piece.locked)) {
+      fixed[slot.id] = piece.id;
+    }
+  }
+  for (const { slotId, pieceId } of challenge?.prePlaced ?? []) {
+    fixed[slotId] = pieceId;
+  }
+
+  return {
+    pieces: state.pieces
+      .filter((p) => !excluded.has(p.id))
+      .map(({ id, color, shape }) => ({ id, color, shape })),
+    slots: state.slots.map(({ id, position }) => ({
+      id,
+      position: { x: position.x, z: position.z },
+    })),
+    fixed,
+    constraints: challenge?.constraints ?? [],
+  };
+}
+
+/**
+ * Searches for every completion of a puzzle
+ *
+ * Slots are filled in board order. A piece may go in a slot only if it
+ * breaks no rule with the pieces already placed around it, so every branch
+ * that survives to the last slot is a valid solution. When there are fewer
+ * pieces than slots, the spare slots are left empty.
+ *
+ * @param puzzle - Puzzle to solve
+ * @param options - How many solutions to keep and when to stop
+ * @param rules - Adjacency rules to apply (defaults to ADJACENCY_RULES)
+ * @returns Solution count, collected solutions and search statistics
+ */
+export function solvePuzzle(
+  puzzle: SolverPuzzle,
+  options: SolverOptions = {},
+  rules: readonly AdjacencyRule[] = ADJACENCY_RULES,
+): SolverResult {
+  const { collect = "first", limit = Infinity } = options;
+  const { pieces, slots } = puzzle;
+
+  // Work with indices rather than IDs in the hot loop
+  const slotIndex = new Map(slots.map((s, i) => [s.id, i]));
+  const toIndices = (adjacency: Record<string, string[]>) =>
+    slots.map((s) => adjacency[s.id].map((id) => slotIndex.get(id)!));
+
+  const edgeNeighbors = toIndices(computeSlotAdjacency(slots, "edge"));
+  const surroundingNeighbors = toIndices(
+    computeSlotAdjacency(slots, "surrounding"),
+  );
+
+  const slotMatches = slots.map((slot) =>
+    puzzle.constraints.flatMap((c) =>
+      c.type === "slot-match" && c.slotId === slot.id ? [c.match] : [],
+    ),
+  );
+  const notNear = puzzle.constraints.flatMap((c) =>
+    c.type === "not-near"
+      ? [
+          {
+            ...c,
+            neighbors:
+              c.neighborhood === "edge" ? edgeNeighbors : surroundingNeighbors,
+          },
+        ]
+      : [],
+  );
+
+  const assignment: (PieceTraits | null)[] = slots.map(() => null);
+
+  // Checks whether a piece can go in a slot given the pieces placed so far
+  const fits = (slot: number, piece: PieceTraits): boolean => {
+    for (const match of slotMatches[slot]) {
+      if (!matchesPiece(piece, match)) return false;
+    }
+
+    for (const neighbor of edgeNeighbors[slot]) {
+      const other = assignment[neighbor];
+      if (other && rules.some((rule) => rule.conflicts(piece, other))) {
+        return false;
+      }
+    }
+
+    for (const constraint of notNear) {
+      const isSubject = matchesPiece(piece, constraint.subject);
+      const isNeighbor = matchesPiece(piece, constraint.neighbor);
+      if (!isSubject && !isNeighbor) continue;
+
+      for (const neighbor of constraint.neighbors[slot]) {
+        const other = assignment[neighbor];
+        if (!other) continue;
+        if (isSubject && matchesPiece(other, constraint.neighbor)) return false;
+        if (isNeighbor && matchesPiece(other, constraint.subject)) return false;
+      }
+    }
+
+    return true;
+  };
+
+  const result: SolverResult = {
+    count: 0,
+    solutions: [],
+    exhausted: true,
+    nodes: 0,
+  };
+
+  // Place the fixed pieces first; an inconsistent start has no solutions
+  const used = new Set<string>();
+  const piecesById = new Map(pieces.map((p) => [p.id, p]));
+  for (const [slotId, pieceId] of Object.entries(puzzle.fixed)) {
+    const slot = slotIndex.get(slotId);
+    const piece = piecesById.get(pieceId);
+    if (slot === undefined || !piece || used.has(pieceId)) return result;
+    if (!fits(slot, piece)) return result;
+
+    assignment[slot] = piece;
+    used.add(pieceId);
+  }
+
+  const isFixed = slots.map((s) => s.id in puzzle.fixed);
+  let spareSlots = slots.length - pieces.length;
+
+  const search = (slot: number, remaining: number): void => {
+    if (result.count >= limit) {
+      result.exhausted = false;
+      return;
+    }
+
+    if (slot === slots.length) {
+      if (remaining > 0) return;
+
+      result.count++;
+      if (collect === "all" || result.solutions.length === 0) {
+        const solution: Solution = {};
+        assignment.forEach((piece, i) => {
+          if (piece) solution[slots[i].id] = piece.id;
+        });
+        result.solutions.push(solution);
+      }
+      return;
+    }
+
+    if (isFixed[slot]) {
+      search(slot + 1, remaining);
+      return;
+    }
+
+    for (const piece of pieces) {
+      if (used.has(piece.id)) continue;
+
+      result.nodes++;
+      if (!fits(slot, piece)) continue;
+
+      assignment[slot] = piece;
+      used.add(piece.id);
+      search(slot + 1, remaining - 1);
+      used.delete(piece.id);
+      assignment[slot] = null;
+    }
+
+    // Leave this slot empty when there are more slots than pieces
+    if (spareSlots > 0) {
+      spareSlots--;
+      search(slot + 1, remaining);
+      spareSlots++;
+    }
+  };
+
+  search(0, pieces.length - used.size);
+  return result;
+}
+
+/**
+ * Counts the solutions of a puzzle, stopping early at the limit
+ */
+export function countSolutions(
+  puzzle: SolverPuzzle,
+  limit: number = Infinity,
+): number {
+  return solvePuzzle(puzzle, { collect: "first", limit }).count;
+}
+
+/**
+ * Finds the first solution of a puzzle, or null when there is none
+ */
+export function findFirstSolution(puzzle: SolverPuzzle): Solution | null {
+  return (
+    solvePuzzle(puzzle, { collect: "first", limit: 1 }).solutions[0] ?? null
+  );
+}
+
+/**
+ * Finds every solution of a puzzle, up to an optional limit
+ */
+export function findAllSolutions(
+  puzzle: SolverPuzzle,
+  limit: number = Infinity,
+): Solution[] {
+  return solvePuzzle(puzzle, { collect: "all", limit }).solutions;
+}
+
+/**
+ * Checks whether a puzzle has exactly one solution
+ * Stops searching as soon as a second solution turns up
+ */
+export function hasUniqueSolution(puzzle: SolverPuzzle): boolean {
+  return countSolutions(puzzle, 2) === 1;
+}
+
+/**
+ * Arranges a game state to match a solution
+ *
+ * Pieces named in the solution are snapped into their slots; every other
+ * piece goes back to the staging area. Locked flags are left untouched.
+ *
+ * @param state - Game state providing the pieces and slots
+ * @param solution - Slot ID to piece ID mapping to apply
+ * @returns A new game state with the solution on the board
+ */
+export function applySolution(state: GameState, solution: Solution): GameState {
+  const slotByPiece = new Map(
+    Object.entries(solution).map(([slotId, pieceId]) => [pieceId, slotId]),
+  );
+
+  return {
+    ...state,
+    pieces: state.pieces.map((piece) => {
+      const slot = state.slots.find((s) => s.id === slotByPiece.get(piece.id));
+      return slot
+        ? { ...piece, position: slot.position.clone(), slotId: slot.id }
+        : { ...piece, position: piece.stagingPosition.clone(), slotId: null };
+    }),
+    slots: state.slots.map((slot) => {
+      const pieceId = solution[slot.id] ?? null;
+      return { ...slot, occupied: pieceId !== null, pieceId };
+    }),
+    draggedPiece: null,
+    hoveredSlot: null,
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * Solver Web Worker
+ *
+ * Runs solvePuzzle off the main thread so the canvas keeps rendering while
+ * the search runs. Use solveInWorker from solverClient.ts rather than
+ * posting to this worker directly.
+ */
+
+import { solvePuzzle } from "./solver";
+import { SolverRequest, SolverResponse } from "./solverClient";
+
+self.onmessage = (event: MessageEvent<SolverRequest>) => {
+  const { id, puzzle, options } = event.data;
+
+  let response: SolverResponse;
+  try {
+    response = { id, result: solvePuzzle(puzzle, options) };
+  } catch (error) {
+    response = { id, error: String(error) };
+  }
+
+  self.postMessage(response);
+};
@@ -0,0 +1,105 @@
+/**
+ * Main-thread client for the solver Web Worker
+ *
+ * Posts puzzles to a single shared worker and resolves each request with
+ * its result. Where Web Workers are unavailable (e.g. in unit tests) the
+ * puzzle is solved on the current thread instead.
+ */
+
+import {
+  SolverOptions,
+  SolverPuzzle,
+  SolverResult,
+  solvePuzzle,
+} from "./solver";
+
+/**
+ * Message posted to the solver worker
+ */
+export interface SolverRequest {
+  id: number;
+  puzzle: SolverPuzzle;
+  options: SolverOptions;
+}
+
+/**
+ * Message posted back by the solver worker
+ */
+export type SolverResponse =
+  | { id: number; result: SolverResult }
+  | { id: number; error: string };
+
+interface PendingRequest {
+  resolve: (result: SolverResult) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, PendingRequest>();
+
+/**
+ * Returns the shared solver worker, starting it on first use
+ * Returns null when the environment has no Web Worker support
+ */
+function getWorker(): Worker | null {
+  if (typeof Worker === "undefined") {
+    return null;
+  }
+
+  if (!worker) {
+    worker = new Worker(new URL("./solver.worker.ts", import.meta.url), {
+      type: "module",
+    });
+
+    worker.onmessage = (event: MessageEvent<SolverResponse>) => {
+      const request = pending.get(event.data.id);
+      if (!request) return;
+
+      pending.delete(event.data.id);
+      if ("error" in event.data) {
+        request.reject(new Error(event.data.error));
+      } else {
+        request.resolve(event.data.result);
+      }
+    };
+
+    // A crashed worker fails every request in flight; the next request
+    // starts a fresh worker
+    worker.onerror = (event) => {
+      console.error("Solver worker failed:", event.message);
+      for (const request of pending.values()) {
+        request.reject(new Error("Solver worker failed"));
+      }
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+
+  return worker;
+}
+
+/**
+ * Solves a puzzle in the solver Web Worker
+ *
+ * @param puzzle - Plain-data puzzle, e.g. from createSolverPuzzle
+ * @param options - How many solutions to keep and when to stop
+ * @returns Promise resolving to the solver result
+ */
+export function solveInWorker(
+  puzzle: SolverPuzzle,
+  options: SolverOptions = {},
+): Promise<SolverResult> {
+  const activeWorker = getWorker();
+
+  if (!activeWorker) {
+    return Promise.resolve().then(() => solvePuzzle(puzzle, options));
+  }
+
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve, reject });
+    activeWorker.postMessage({ id, puzzle, options } satisfies SolverRequest);
+  });
+}
@@ -1,12 +1,14 @@
 /**
  * Unit tests for React state management functions
  * Tests task 2.3: Set up React state management
+ * Exercises the game store reducer that App dispatches to
  *
  * Validates: Requirements 3, 5 (State management for interactions)
  */
 
 import { describe, it, expect } from "vitest";
 import { Vector3 } from "three";
+import { gameReducer } from "./gameStore";
 import { GameState, DiamondPiece, BoardSlot } from "./types";
 
 /**
@@ -55,124 +57,28 @@ function createTestGameState(): GameState {
 }
 
 /**
- * Simulates the placePiece function logic
- * This tests the logic that should be in App.tsx
+ * Dispatches PLACE to the game reducer
  */
 function placePiece(
   prevState: GameState,
   pieceId: string,
   slotId: string,
 ): GameState {
-  const piece = prevState.pieces.find((p) => p.id === pieceId);
-  const slot = prevState.slots.find((s) => s.id === slotId);
-
-  if (!piece || !slot) {
-    console.error("Invalid piece or slot ID");
-    return prevState;
-  }
-
-  if (slot.occupied) {
-    console.error("Slot is already occupied");
-    return prevState;
-  }
-
-  const updatedPieces = prevState.pieces.map((p) => {
-    if (p.id === pieceId) {
-      return {
-        ...p,
-        position: slot.position.clone(),
-        slotId: slotId,
-      };
-    }
-    return p;
-  });
-
-  const updatedSlots = prevState.slots.map((s) => {
-    if (s.id === slotId) {
-      return {
-        ...s,
-        occupied: true,
-        pieceId: pieceId,
-      };
-    }
-    return s;
-  });
-
-  return {
-    ...prevState,
-    pieces: updatedPieces,
-    slots: updatedSlots,
-  };
+  return gameReducer(prevState, { type: "PLACE", pieceId, slotId });
 }
 
 /**
- * Simulates the removePiece function logic
+ * Dispatches REMOVE to the game reducer
  */
 function removePiece(prevState: GameState, pieceId: string): GameState {
-  const piece = prevState.pieces.find((p) => p.id === pieceId);
-
-  if (!piece) {
-    console.error("Invalid piece ID");
-    return prevState;
-  }
-
-  if (!piece.slotId) {
-    return prevState;
-  }
-
-  const updatedPieces = prevState.pieces.map((p) => {
-    if (p.id === pieceId) {
-      return {
-        ...p,
-        position: p.stagingPosition.clone(),
-        slotId: null,
-      };
-    }
-    return p;
-  });
-
-  const updatedSlots = prevState.slots.map((s) => {
-    if (s.pieceId === pieceId) {
-      return {
-        ...s,
-        occupied: false,
-        pieceId: null,
-      };
-    }
-    return s;
-  });
-
-  return {
-    ...prevState,
-    pieces: updatedPieces,
-    slots: updatedSlots,
-  };
+  return gameReducer(prevState, { type: "REMOVE", pieceId });
 }
 
 /**
- * Simulates the resetBoard function logic
+ * Dispatches RESET (without a challenge) to the game reducer
  */
 function resetBoard(prevState: GameState): GameState {
-  const resetPieces = prevState.pieces.map((piece) => ({
-    ...piece,
-    position: piece.stagingPosition.clone(),
-    slotId: null,
-  }));
-
-  const resetSlots = prevState.slots.map((slot) => ({
-    ...slot,
-    occupied: false,
-    pieceId: null,
-  }));
-
-  return {
-    ...prevState,
-    pieces: resetPieces,
-    slots: resetSlots,
-    draggedPiece: null,
-    hoveredSlot: null,
-    hoveredPiece: null,
-  };
+  return gameReducer(prevState, { type: "RESET" });
 }
 
 describe("placePiece", () => {
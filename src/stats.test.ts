@@ -0,0 +1,278 @@
+/**
+ * Unit tests for player statistics
+ *
+ * Tests verify:
+ * - Solved sessions become records, and stored records are validated
+ * - Only the most recent records keep their replays, and fewer still when
+ *   storage is full
+ * - Solves, best and median times are summarized overall and per tier
+ * - Hint usage, star scores and play streaks are aggregated
+ * - Challenge histories and the CSV/JSON exports
+ */
+
+import { describe, it, expect } from "vitest";
+import { getChallengeById } from "./challenges";
+import { createReplayLog, finishReplay } from "./replay";
+import { createSession } from "./session";
+import {
+  MAX_STORED_REPLAYS,
+  SESSION_RECORDS_KEY,
+  SessionRecord,
+  appendSessionRecord,
+  createSessionRecord,
+  exportRecordsCsv,
+  exportRecordsJson,
+  getChallengeHistory,
+  listRecordedChallenges,
+  median,
+  parseSessionRecords,
+  storeSessionRecords,
+  summarizeStats,
+} from "./stats";
+
+const day = (date: string, hour: number = 12) =>
+  new Date(`${date}T${String(hour).padStart(2, "0")}:00:00`).getTime();
+
+const record = (overrides: Partial<SessionRecord>): SessionRecord => ({
+  challengeId: "starter-01",
+  challengeName: "First Steps",
+  difficulty: "starter",
+  solvedAt: day("2024-05-01"),
+  elapsedMs: 60000,
+  moves: 10,
+  placements: 10,
+  removals: 0,
+  invalidDrops: 0,
+  hints: 0,
+  stars: 3,
+  ...overrides,
+});
+
+const records = [
+  record({ solvedAt: day("2024-04-28"), elapsedMs: 90000 }),
+  record({ solvedAt: day("2024-04-30"), elapsedMs: 30000, hints: 2 }),
+  record({
+    challengeId: "expert-01",
+    challengeName: "Deep Cut",
+    difficulty: "expert",
+    solvedAt: day("2024-05-01"),
+    elapsedMs: 240000,
+    stars: 1,
+  }),
+  record({ solvedAt: day("2024-05-01", 18), elapsedMs: 45000, stars: 2 }),
+];
+
+describe("createSessionRecord", () => {
+  it("copies the challenge and the session's counts", () => {
+    const challenge = getChallengeById("starter-01")!;
+    const session = {
+      ...createSession(4),
+      status: "solved" as const,
+      elapsedMs: 5000,
+      hints: 1,
+      stars: 2,
+    };
+
+    expect(createSessionRecord(challenge, session, 123)).toEqual({
+      challengeId: challenge.id,
+      challengeName: challenge.name,
+      difficulty: challenge.difficulty,
+      solvedAt: 123,
+      elapsedMs: 5000,
+      moves: 4,
+      placements: 0,
+      removals: 0,
+      invalidDrops: 0,
+      hints: 1,
+      stars: 2,
+    });
+  });
+});
+
+describe("appendSessionRecord", () => {
+  it("keeps replays on the most recent records only", () => {
+    const replay = finishReplay(
+      createReplayLog(),
+      getChallengeById("starter-01")!,
+      123,
+    );
+    let stored: SessionRecord[] = [record({})];
+    for (let i = 0; i <= MAX_STORED_REPLAYS; i++) {
+      stored = appendSessionRecord(stored, record({ solvedAt: i, replay }));
+    }
+
+    expect(stored).toHaveLength(MAX_STORED_REPLAYS + 2);
+    expect(stored.filter((r) => r.replay)).toHaveLength(MAX_STORED_REPLAYS);
+    expect(stored[1].replay).toBeUndefined();
+    expect(stored[stored.length - 1].replay).toBe(replay);
+  });
+});
+
+describe("storeSessionRecords", () => {
+  // Storage that refuses values longer than a limit, like a full localStorage
+  const createFullStorage = (limit: number) => {
+    const items = new Map<string, string>();
+    const storage = {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => {
+        if (value.length > limit) throw new Error("QuotaExceededError");
+        items.set(key, value);
+      },
+    } as Storage;
+    return { items, storage };
+  };
+  const replay = finishReplay(
+    createReplayLog(),
+    getChallengeById("starter-01")!,
+    123,
+  );
+  const withReplays = [1, 2, 3, 4].map((solvedAt) =>
+    record({ solvedAt, replay }),
+  );
+
+  it("stores records that fit as they are", () => {
+    const { items, storage } = createFullStorage(Infinity);
+
+    expect(storeSessionRecords(storage, withReplays)).toBe(withReplays);
+    expect(items.get(SESSION_RECORDS_KEY)).toBe(JSON.stringify(withReplays));
+  });
+
+  it("drops the oldest replays until the records fit", () => {
+    const limit = JSON.stringify(withReplays).length - 1;
+    const { items, storage } = createFullStorage(limit);
+
+    const stored = storeSessionRecords(storage, withReplays)!;
+    expect(stored).toHaveLength(4);
+    expect(stored.map((r) => r.replay !== undefined)).toEqual([
+      false,
+      false,
+      true,
+      true,
+    ]);
+    expect(items.get(SESSION_RECORDS_KEY)).toBe(JSON.stringify(stored));
+  });
+
+  it("gives up when the records do not fit even without replays", () => {
+    expect(
+      storeSessionRecords(createFullStorage(10).storage, withReplays),
+    ).toBe(null);
+  });
+});
+
+describe("parseSessionRecords", () => {
+  it("keeps valid records and drops malformed ones", () => {
+    expect(
+      parseSessionRecords([
+        records[0],
+        { ...records[1], difficulty: "legendary" },
+        { ...records[2], moves: "7" },
+        null,
+      ]),
+    ).toEqual([records[0]]);
+    expect(parseSessionRecords({ records })).toEqual([]);
+  });
+
+  it("keeps a valid replay and drops a malformed one", () => {
+    const replay = finishReplay(
+      createReplayLog(),
+      getChallengeById("starter-01")!,
+      123,
+    );
+
+    expect(
+      parseSessionRecords([
+        { ...records[0], replay },
+        { ...records[1], replay: { ...replay, version: 0 } },
+      ]),
+    ).toEqual([{ ...records[0], replay }, records[1]]);
+  });
+});
+
+describe("median", () => {
+  it("takes the middle value, or the mean of the middle two", () => {
+    expect(median([5, 1, 3])).toBe(3);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+    expect(median([])).toBeNull();
+  });
+});
+
+describe("summarizeStats", () => {
+  const stats = summarizeStats(records, "2024-05-01");
+
+  it("counts different challenges solved and every attempt", () => {
+    expect(stats.overall.solved).toBe(2);
+    expect(stats.overall.attempts).toBe(4);
+    expect(stats.byDifficulty.starter).toMatchObject({
+      solved: 1,
+      attempts: 3,
+    });
+    expect(stats.byDifficulty.master).toEqual({
+      solved: 0,
+      attempts: 0,
+      bestMs: null,
+      medianMs: null,
+    });
+  });
+
+  it("finds best and median times", () => {
+    expect(stats.overall.bestMs).toBe(30000);
+    expect(stats.overall.medianMs).toBe(67500);
+    expect(stats.byDifficulty.starter.medianMs).toBe(45000);
+  });
+
+  it("adds up hints and averages stars", () => {
+    expect(stats.totalHints).toBe(2);
+    expect(stats.hintedSolves).toBe(1);
+    expect(stats.averageStars).toBe(2.25);
+  });
+
+  it("counts consecutive days with a solve", () => {
+    expect(stats.currentStreak).toBe(2);
+    expect(stats.longestStreak).toBe(2);
+    expect(summarizeStats(records, "2024-05-02").currentStreak).toBe(2);
+    expect(summarizeStats(records, "2024-05-03").currentStreak).toBe(0);
+  });
+
+  it("has nothing to report without records", () => {
+    const empty = summarizeStats([], "2024-05-01");
+
+    expect(empty.overall.attempts).toBe(0);
+    expect(empty.averageStars).toBeNull();
+    expect(empty.longestStreak).toBe(0);
+  });
+});
+
+describe("challenge history", () => {
+  it("lists recorded challenges, most recent first", () => {
+    expect(listRecordedChallenges(records)).toEqual([
+      { id: "starter-01", name: "First Steps" },
+      { id: "expert-01", name: "Deep Cut" },
+    ]);
+  });
+
+  it("returns a challenge's solves oldest first", () => {
+    const history = getChallengeHistory([...records].reverse(), "starter-01");
+
+    expect(history.map((r) => r.elapsedMs)).toEqual([90000, 30000, 45000]);
+  });
+});
+
+describe("exports", () => {
+  it("writes a CSV row per solve under a header", () => {
+    const csv = exportRecordsCsv([
+      record({ challengeName: 'Say "cheese", please', solvedAt: 0 }),
+    ]);
+
+    expect(csv.split("\n")).toEqual([
+      "challengeId,challengeName,difficulty,solvedAt,elapsedMs,moves,placements,removals,invalidDrops,hints,stars",
+      'starter-01,"Say ""cheese"", please",starter,1970-01-01T00:00:00.000Z,60000,10,10,0,0,0,3',
+      "",
+    ]);
+  });
+
+  it("writes JSON that reads back as the same records", () => {
+    expect(parseSessionRecords(JSON.parse(exportRecordsJson(records)))).toEqual(
+      records,
+    );
+  });
+});
@@ -0,0 +1,413 @@
+/**
+ * Player statistics
+ *
+ * Every solved challenge leaves a session record (see session.ts) in
+ * localStorage. The statistics dashboard is built from these records
+ * alone: solves per difficulty, best and median times, hint usage, play
+ * streaks and each challenge's history. The records also export as CSV or
+ * JSON for comparing progress outside the game.
+ *
+ * The most recent records also keep a replay of the solve (see replay.ts);
+ * older ones drop theirs to keep localStorage small, and more are dropped
+ * when localStorage is full.
+ */
+
+import { CHALLENGE_DIFFICULTIES } from "./challenges";
+import { addDays, getDateKey } from "./daily";
+import { Replay, parseReplay } from "./replay";
+import { Session } from "./session";
+import { Challenge, ChallengeDifficulty } from "./types";
+
+/**
+ * One solved challenge, as persisted
+ */
+export interface SessionRecord {
+  /** ID of the solved challenge */
+  challengeId: string;
+
+  /** Name of the challenge when it was solved */
+  challengeName: string;
+
+  /** Difficulty of the challenge when it was solved */
+  difficulty: ChallengeDifficulty;
+
+  /** When the challenge was solved (milliseconds since the epoch) */
+  solvedAt: number;
+
+  /** Play time (milliseconds) */
+  elapsedMs: number;
+
+  moves: number;
+  placements: number;
+  removals: number;
+  invalidDrops: number;
+  hints: number;
+
+  /** Star score, from 1 to 3 */
+  stars: number;
+
+  /** Recording of the solve, kept for the most recent records only */
+  replay?: Replay;
+}
+
+/**
+ * Solves and times for one difficulty tier, or for every tier together
+ */
+export interface SolveSummary {
+  /** Different challenges solved */
+  solved: number;
+
+  /** Solves, replays included */
+  attempts: number;
+
+  /** Fastest solve (milliseconds), or null without solves */
+  bestMs: number | null;
+
+  /** Median solve time (milliseconds), or null without solves */
+  medianMs: number | null;
+}
+
+/**
+ * Everything the statistics dashboard shows above the history chart
+ */
+export interface PlayerStats {
+  overall: SolveSummary;
+  byDifficulty: Record<ChallengeDifficulty, SolveSummary>;
+
+  /** Hints used across all solves */
+  totalHints: number;
+
+  /** Solves that needed at least one hint */
+  hintedSolves: number;
+
+  /** Mean star score, or null without solves */
+  averageStars: number | null;
+
+  /** Consecutive days with a solve, up to today or yesterday */
+  currentStreak: number;
+
+  /** Most consecutive days with a solve */
+  longestStreak: number;
+}
+
+/**
+ * localStorage key of the session records
+ */
+export const SESSION_RECORDS_KEY = "diamondQuest_sessionRecords";
+
+/**
+ * Number of most recent records that keep their replay
+ */
+export const MAX_STORED_REPLAYS = 20;
+
+// Columns of the CSV export, in order
+const CSV_COLUMNS: Exclude<keyof SessionRecord, "replay">[] = [
+  "challengeId",
+  "challengeName",
+  "difficulty",
+  "solvedAt",
+  "elapsedMs",
+  "moves",
+  "placements",
+  "removals",
+  "invalidDrops",
+  "hints",
+  "stars",
+];
+
+const COUNT_FIELDS = [
+  "solvedAt",
+  "elapsedMs",
+  "moves",
+  "placements",
+  "removals",
+  "invalidDrops",
+  "hints",
+  "stars",
+] as const;
+
+/**
+ * Creates the record of a solved session
+ *
+ * @param challenge - The solved challenge
+ * @param session - The session, once solved
+ * @param solvedAt - When it was solved (milliseconds since the epoch)
+ * @param replay - Recording of the session, if there is one
+ */
+export function createSessionRecord(
+  challenge: Challenge,
+  session: Session,
+  solvedAt: number,
+  replay?: Replay,
+): SessionRecord {
+  return {
+    challengeId: challenge.id,
+    challengeName: challenge.name,
+    difficulty: challenge.difficulty,
+    solvedAt,
+    elapsedMs: session.elapsedMs,
+    moves: session.moves,
+    placements: session.placements,
+    removals: session.removals,
+    invalidDrops: session.invalidDrops,
+    hints: session.hints,
+    stars: session.stars ?? 1,
+    ...(replay && { replay }),
+  };
+}
+
+/**
+ * Drops the replays of all but the most recent records
+ *
+ * @param records - Records, oldest first
+ * @param count - Number of most recent records that keep their replay
+ */
+function keepLatestReplays(
+  records: SessionRecord[],
+  count: number,
+): SessionRecord[] {
+  const keepFrom = records.length - count;
+  return records.map((r, index) =>
+    index >= keepFrom || !r.replay ? r : { ...r, replay: undefined },
+  );
+}
+
+/**
+ * Adds a record to the stored records
+ * Only the MAX_STORED_REPLAYS most recent records keep their replay.
+ */
+export function appendSessionRecord(
+  records: SessionRecord[],
+  record: SessionRecord,
+): SessionRecord[] {
+  return keepLatestReplays([...records, record], MAX_STORED_REPLAYS);
+}
+
+/**
+ * Writes the records to storage
+ * When the storage is full, the oldest replays are dropped, halving the
+ * number kept each time, until the records fit.
+ *
+ * @param storage - Storage to write to, e.g. window.localStorage
+ * @param records - Records to store
+ * @returns The records as stored (the same array when nothing was dropped),
+ * or null when they do not fit even without replays
+ */
+export function storeSessionRecords(
+  storage: Storage,
+  records: SessionRecord[],
+): SessionRecord[] | null {
+  let count = records.length;
+  for (;;) {
+    const kept =
+      count === records.length ? records : keepLatestReplays(records, count);
+    try {
+      storage.setItem(SESSION_RECORDS_KEY, JSON.stringify(kept));
+      return kept;
+    } catch (error) {
+      if (count === 0) {
+        console.error("Error saving session records:", error);
+        return null;
+      }
+      count = Math.floor(count / 2);
+    }
+  }
+}
+
+/**
+ * Validates a stored replay, for spreading into its record
+ */
+function parseStoredReplay(raw: unknown): { replay?: Replay } {
+  try {
+    return { replay: parseReplay(raw) };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Validates stored session records, dropping malformed ones
+ * A malformed replay is dropped on its own, keeping its record.
+ */
+export function parseSessionRecords(raw: unknown): SessionRecord[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((entry): SessionRecord[] => {
+    if (typeof entry !== "object" || entry === null) return [];
+
+    const record = entry as Record<string, unknown>;
+    if (
+      typeof record.challengeId !== "string" ||
+      typeof record.challengeName !== "string" ||
+      !CHALLENGE_DIFFICULTIES.includes(
+        record.difficulty as ChallengeDifficulty,
+      ) ||
+      !COUNT_FIELDS.every((field) => typeof record[field] === "number")
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        challengeId: record.challengeId,
+        challengeName: record.challengeName,
+        difficulty: record.difficulty as ChallengeDifficulty,
+        ...(Object.fromEntries(
+          COUNT_FIELDS.map((field) => [field, record[field]]),
+        ) as Pick<SessionRecord, (typeof COUNT_FIELDS)[number]>),
+        ...(record.replay !== undefined && parseStoredReplay(record.replay)),
+      },
+    ];
+  });
+}
+
+/**
+ * Returns the median of a list of numbers, or null for an empty list
+ */
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Summarizes the solves among a set of records
+ */
+function summarizeSolves(records: SessionRecord[]): SolveSummary {
+  const times = records.map((r) => r.elapsedMs);
+  return {
+    solved: new Set(records.map((r) => r.challengeId)).size,
+    attempts: records.length,
+    bestMs: times.length > 0 ? Math.min(...times) : null,
+    medianMs: median(times),
+  };
+}
+
+/**
+ * Finds the current and longest runs of consecutive days with a solve
+ *
+ * @param days - Local date keys with at least one solve
+ * @param today - Today's date key
+ */
+function findStreaks(
+  days: Set<string>,
+  today: string,
+): { current: number; longest: number } {
+  const runLength = (end: string) => {
+    let length = 0;
+    for (let day = end; days.has(day); day = addDays(day, -1)) length++;
+    return length;
+  };
+
+  let longest = 0;
+  for (const day of days) {
+    // Only count runs from their last day
+    if (!days.has(addDays(day, 1))) longest = Math.max(longest, runLength(day));
+  }
+
+  const current = runLength(days.has(today) ? today : addDays(today, -1));
+  return { current, longest };
+}
+
+/**
+ * Aggregates session records into the dashboard's statistics
+ *
+ * @param records - Every stored session record
+ * @param today - Today's local date key, for the current streak
+ */
+export function summarizeStats(
+  records: SessionRecord[],
+  today: string,
+): PlayerStats {
+  const byDifficulty = Object.fromEntries(
+    CHALLENGE_DIFFICULTIES.map((difficulty) => [
+      difficulty,
+      summarizeSolves(records.filter((r) => r.difficulty === difficulty)),
+    ]),
+  ) as Record<ChallengeDifficulty, SolveSummary>;
+
+  const streaks = findStreaks(
+    new Set(records.map((r) => getDateKey(new Date(r.solvedAt)))),
+    today,
+  );
+
+  return {
+    overall: summarizeSolves(records),
+    byDifficulty,
+    totalHints: records.reduce((total, r) => total + r.hints, 0),
+    hintedSolves: records.filter((r) => r.hints > 0).length,
+    averageStars:
+      records.length > 0
+        ? records.reduce((total, r) => total + r.stars, 0) / records.length
+        : null,
+    currentStreak: streaks.current,
+    longestStreak: streaks.longest,
+  };
+}
+
+/**
+ * Lists the challenges with records, most recently solved first
+ */
+export function listRecordedChallenges(
+  records: SessionRecord[],
+): { id: string; name: string }[] {
+  const latest = new Map<string, SessionRecord>();
+  for (const record of records) {
+    const seen = latest.get(record.challengeId);
+    if (!seen || record.solvedAt > seen.solvedAt) {
+      latest.set(record.challengeId, record);
+    }
+  }
+
+  return [...latest.values()]
+    .sort((a, b) => b.solvedAt - a.solvedAt)
+    .map((r) => ({ id: r.challengeId, name: r.challengeName }));
+}
+
+/**
+ * Returns a challenge's solves, oldest first
+ */
+export function getChallengeHistory(
+  records: SessionRecord[],
+  challengeId: string,
+): SessionRecord[] {
+  return records
+    .filter((r) => r.challengeId === challengeId)
+    .sort((a, b) => a.solvedAt - b.solvedAt);
+}
+
+/**
+ * Quotes a CSV field when it contains a separator, quote or line break
+ */
+function toCsvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Exports session records as CSV, one row per solve with a header row
+ * Solve times are written as ISO 8601 dates for spreadsheets.
+ */
+export function exportRecordsCsv(records: SessionRecord[]): string {
+  const rows = records.map((record) =>
+    CSV_COLUMNS.map((column) =>
+      toCsvField(
+        column === "solvedAt"
+          ? new Date(record.solvedAt).toISOString()
+          : record[column],
+      ),
+    ).join(","),
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+/**
+ * Exports session records as JSON
+ */
+export function exportRecordsJson(records: SessionRecord[]): string {
+  return JSON.stringify(records, null, 2);
+}
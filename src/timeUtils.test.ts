@@ -0,0 +1,23 @@
+/**
+ * Unit tests for time formatting utilities
+ */
+
+import { describe, it, expect } from "vitest";
+import { formatDuration } from "./timeUtils";
+
+describe("formatDuration", () => {
+  it("should format short durations as m:ss", () => {
+    expect(formatDuration(0)).toBe("0:00");
+    expect(formatDuration(7_000)).toBe("0:07");
+    expect(formatDuration(187_900)).toBe("3:07");
+  });
+
+  it("should include hours for durations of an hour or more", () => {
+    expect(formatDuration(3_600_000)).toBe("1:00:00");
+    expect(formatDuration(3_725_000)).toBe("1:02:05");
+  });
+
+  it("should treat negative durations as zero", () => {
+    expect(formatDuration(-500)).toBe("0:00");
+  });
+});
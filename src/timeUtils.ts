@@ -0,0 +1,24 @@
+/**
+ * Utility functions for displaying play times
+ */
+
+/**
+ * Formats a duration as m:ss, or h:mm:ss for an hour or more
+ *
+ * @param ms - Duration in milliseconds (negative values count as 0)
+ * @returns The formatted duration, e.g. "3:07"
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(Math.max(0, ms) / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  const ss = seconds.toString().padStart(2, "0");
+  if (hours > 0) {
+    const mm = minutes.toString().padStart(2, "0");
+    return `${hours}:${mm}:${ss}`;
+  }
+
+  return `${minutes}:${ss}`;
+}
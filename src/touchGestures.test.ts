@@ -0,0 +1,65 @@
+/**
+ * Unit tests for touch pickups
+ *
+ * Tests verify:
+ * - A finger resting on a piece waits, then picks it up after a long press
+ * - Dragging beyond the slop distance picks the piece up at once
+ * - A second finger cancels the pickup in favour of the camera
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  LONG_PRESS_MS,
+  PendingPickup,
+  TOUCH_SLOP,
+  decidePickup,
+} from "./touchGestures";
+
+const pending: PendingPickup = {
+  pieceId: "piece-red-round",
+  pointerId: 1,
+  x: 100,
+  y: 200,
+  time: 1000,
+};
+
+describe("decidePickup", () => {
+  it("should wait while the finger rests briefly", () => {
+    expect(
+      decidePickup(pending, { pointerId: 1, x: 102, y: 201, time: 1100 }, 1),
+    ).toBe("wait");
+  });
+
+  it("should pick the piece up after a long press", () => {
+    expect(
+      decidePickup(
+        pending,
+        { pointerId: 1, x: 100, y: 200, time: 1000 + LONG_PRESS_MS },
+        1,
+      ),
+    ).toBe("pickup");
+  });
+
+  it("should pick the piece up once the finger drags", () => {
+    expect(
+      decidePickup(
+        pending,
+        { pointerId: 1, x: 100 + TOUCH_SLOP + 1, y: 200, time: 1050 },
+        1,
+      ),
+    ).toBe("pickup");
+  });
+
+  it("should cancel when a second finger lands", () => {
+    expect(
+      decidePickup(pending, { pointerId: 2, x: 300, y: 200, time: 1050 }, 2),
+    ).toBe("cancel");
+    expect(
+      decidePickup(
+        pending,
+        { pointerId: 1, x: 100, y: 200, time: 1000 + LONG_PRESS_MS },
+        2,
+      ),
+    ).toBe("cancel");
+  });
+});
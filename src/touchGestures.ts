@@ -0,0 +1,82 @@
+/**
+ * Touch gestures for picking up pieces
+ *
+ * With a mouse, pressing a piece picks it up at once. A finger that lands on
+ * a piece may instead be the first finger of a two-finger camera gesture, so
+ * touch pickups wait: the piece is picked up once the finger starts dragging
+ * or has been held still for a long press, and the pickup is dropped if a
+ * second finger arrives first or the finger lifts.
+ *
+ * Everything here is pure; App feeds in pointer events and timers.
+ */
+
+/**
+ * How long a finger must rest on a piece to pick it up, in milliseconds
+ */
+export const LONG_PRESS_MS = 350;
+
+/**
+ * How far (in CSS pixels) a finger may move before it counts as a drag
+ */
+export const TOUCH_SLOP = 8;
+
+/**
+ * A finger resting on a piece that has not been picked up yet
+ */
+export interface PendingPickup {
+  /** ID of the piece under the finger */
+  pieceId: string;
+
+  /** Pointer ID of the finger */
+  pointerId: number;
+
+  /** Where the finger landed, in client coordinates */
+  x: number;
+  y: number;
+
+  /** When the finger landed (milliseconds) */
+  time: number;
+}
+
+/**
+ * Where a finger is now
+ */
+export interface TouchPoint {
+  pointerId: number;
+  x: number;
+  y: number;
+  time: number;
+}
+
+/**
+ * What to do with a pending pickup
+ * - wait: keep waiting for a drag or long press
+ * - pickup: pick the piece up
+ * - cancel: forget the pickup (a camera gesture or a tap)
+ */
+export type PickupDecision = "wait" | "pickup" | "cancel";
+
+/**
+ * Decides what a pending touch pickup should do
+ *
+ * @param pending - The finger resting on a piece
+ * @param point - The same finger's current position and time
+ * @param touchCount - Number of fingers on the screen
+ * @returns Whether to wait, pick the piece up or cancel
+ */
+export function decidePickup(
+  pending: PendingPickup,
+  point: TouchPoint,
+  touchCount: number,
+): PickupDecision {
+  if (touchCount > 1 || point.pointerId !== pending.pointerId) {
+    return "cancel";
+  }
+
+  const moved = Math.hypot(point.x - pending.x, point.y - pending.y);
+  if (moved > TOUCH_SLOP || point.time - pending.time >= LONG_PRESS_MS) {
+    return "pickup";
+  }
+
+  return "wait";
+}
@@ -41,6 +41,9 @@ export interface DiamondPiece {
 
   /** Original position in staging area for reset functionality */
   stagingPosition: Vector3;
+
+  /** Whether the piece was pre-placed by a challenge and cannot be moved */
+  locked?: boolean;
 }
 
 /**
@@ -84,4 +87,101 @@ export interface GameState {
 
   /** ID of the piece currently being hovered, or null */
   hoveredPiece: string | null;
+
+  /** The drag in progress, or null/absent when nothing is dragged */
+  dragSession?: DragSession | null;
+}
+
+/**
+ * Where a dragged piece was picked up from
+ */
+export type DragOrigin = { type: "slot"; slotId: string } | { type: "staging" };
+
+/**
+ * A piece being dragged and where it came from
+ * A drop that misses a free slot returns the piece to its origin
+ */
+export interface DragSession {
+  /** ID of the dragged piece */
+  pieceId: string;
+
+  /** Slot or staging area the piece was picked up from */
+  origin: DragOrigin;
+
+  /** Position of the piece when it was picked up */
+  startPosition: Vector3;
+}
+
+/**
+ * Which neighbouring slots count as "touching"
+ * - edge: slots sharing a side (up to 4 neighbours)
+ * - surrounding: the 8 slots around a slot, including diagonals
+ */
+export type Neighborhood = "edge" | "surrounding";
+
+/**
+ * Difficulty tiers for challenges, easiest first
+ */
+export type ChallengeDifficulty = "starter" | "junior" | "expert" | "master";
+
+/**
+ * Partial description of a piece used by challenge clues
+ * A matcher with only a color or only a shape matches every piece sharing it
+ */
+export interface PieceMatcher {
+  color?: PieceColor;
+  shape?: PieceShape;
+}
+
+/**
+ * A piece placed on the board by a challenge before play starts
+ */
+export interface FixedPlacement {
+  /** ID of the pre-placed piece */
+  pieceId: string;
+
+  /** ID of the slot the piece is locked into */
+  slotId: string;
+}
+
+/**
+ * Extra constraint a challenge puts on the solution
+ * - slot-match: the slot must hold a piece matching the (partial) description
+ * - not-near: no piece matching `neighbor` may sit next to a piece matching `subject`
+ */
+export type ChallengeConstraint =
+  | {
+      type: "slot-match";
+      slotId: string;
+      match: PieceMatcher;
+    }
+  | {
+      type: "not-near";
+      subject: PieceMatcher;
+      neighbor: PieceMatcher;
+      neighborhood: Neighborhood;
+    };
+
+/**
+ * Challenge interface
+ * A puzzle definition: the clues a player starts from and what counts as solved
+ */
+export interface Challenge {
+  /** Unique identifier for the challenge */
+  id: string;
+
+  /** Display name */
+  name: string;
+
+  /** Difficulty tier */
+  difficulty: ChallengeDifficulty;
+
+  /** Pieces locked into their slots when the challenge loads */
+  prePlaced: FixedPlacement[];
+
+  /** IDs of pieces that are not used in this challenge */
+  excludedPieces: string[];
+
+  /** Additional clues the solution must satisfy */
+  constraints: ChallengeConstraint[];
 }
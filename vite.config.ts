@@ -1,9 +1,70 @@
-import {defineConfig} from "vite";
+import {defineConfig, Plugin} from "vite";
 import react from "@vitejs/plugin-react";
+import {createHash} from "node:crypto";
+import {readFileSync, readdirSync, writeFileSync} from "node:fs";
+import {join, relative, sep} from "node:path";
+
+// Kinds of built files the service worker caches for offline play
+const PRECACHE_EXTENSIONS = [
+  ".html",
+  ".js",
+  ".mjs",
+  ".css",
+  ".pdf",
+  ".png",
+  ".json",
+  ".webmanifest",
+];
+
+/**
+ * Lists every file below a directory, relative to it, with "/" separators
+ */
+function listFiles(root: string, dir: string = root): string[] {
+  return readdirSync(dir, {withFileTypes: true}).flatMap((entry) => {
+    const path = join(dir, entry.name);
+    return entry.isDirectory()
+      ? listFiles(root, path)
+      : [relative(root, path).split(sep).join("/")];
+  });
+}
+
+/**
+ * Writes precache-manifest.js for the service worker (public/sw.js)
+ *
+ * Bundled file names carry content hashes, so the list of files to cache is
+ * only known once the build is on disk. The version hashes every cached
+ * file, so a build that changes anything installs a fresh cache; sw.js loads
+ * the manifest with importScripts, which also makes the browser notice the
+ * change and update the worker.
+ */
+function precacheManifest(): Plugin {
+  return {
+    name: "diamond-quest-precache-manifest",
+    apply: "build",
+    writeBundle(options) {
+      const outDir = options.dir ?? "dist";
+      const urls = listFiles(outDir)
+        .filter((url) => url !== "sw.js" && url !== "precache-manifest.js")
+        .filter((url) => PRECACHE_EXTENSIONS.some((ext) => url.endsWith(ext)))
+        .sort();
+
+      const hash = createHash("sha256");
+      for (const url of urls) {
+        hash.update(url).update(readFileSync(join(outDir, url)));
+      }
+      const manifest = {version: hash.digest("hex").slice(0, 12), urls};
+
+      writeFileSync(
+        join(outDir, "precache-manifest.js"),
+        `self.__PRECACHE_MANIFEST__ = ${JSON.stringify(manifest, null, 2)};\n`,
+      );
+    },
+  };
+}
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
   server: {
     port: 3000,
     open: true,